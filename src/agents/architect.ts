@@ -1,24 +1,36 @@
-import type { Agent, AgentContext } from './types.js'
+import type { Agent, AgentContext, AgentOutput } from './types.js'
 import type { ArchitectInput, ArchitectOutput } from '../schemas/architect.js'
 import type { AgentError } from '../schemas/common.js'
 import { ArchitectOutputSchema } from '../schemas/architect.js'
 import { buildArchitectPrompt } from '../prompts/architect.js'
-import { type Result, err } from '../utils/result.js'
+import { createRepositoryTools } from '../tools/repositoryTools.js'
+import { type Result, ok, err } from '../utils/result.js'
 
 export const architectAgent: Agent<ArchitectInput, ArchitectOutput> = async (
   input: ArchitectInput,
   context: AgentContext
-): Promise<Result<ArchitectOutput, AgentError>> => {
+): Promise<Result<AgentOutput<ArchitectOutput>, AgentError>> => {
   context.logger.info({ taskId: input.task.id }, 'Starting architect agent')
 
+  const repositoryTools = context.tools && context.toolBudget
+    ? createRepositoryTools(context.tools, { maxCalls: context.toolBudget, logger: context.logger })
+    : undefined
+
   const messages = buildArchitectPrompt({
     taskTitle: input.task.title,
     taskDescription: input.task.description,
     projectContext: input.projectContext,
     existingFiles: input.existingFiles,
-  })
+    toolsAvailable: repositoryTools !== undefined,
+  }, context.promptBudget)
 
-  const result = await context.llm.generateStructured(messages, ArchitectOutputSchema)
+  let thinking: string | undefined
+  const result = await context.llm.generateStructured(messages, ArchitectOutputSchema, {
+    ...(repositoryTools && { tools: repositoryTools, maxSteps: (context.toolBudget ?? 0) + 1 }),
+    onThinking: (text) => {
+      thinking = text
+    },
+  })
 
   if (!result.ok) {
     context.logger.error({ error: result.error }, 'Architect agent failed')
@@ -35,5 +47,5 @@ export const architectAgent: Agent<ArchitectInput, ArchitectOutput> = async (
     'Architect agent completed'
   )
 
-  return result
+  return ok({ ...result.value, ...(thinking !== undefined && { thinking }) })
 }
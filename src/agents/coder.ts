@@ -1,19 +1,28 @@
-import type { Agent, AgentContext } from './types.js'
+import type { Agent, AgentContext, AgentOutput } from './types.js'
 import type { CoderInput, CoderOutput } from '../schemas/coder.js'
 import type { AgentError } from '../schemas/common.js'
 import { CoderOutputSchema } from '../schemas/coder.js'
 import { buildCoderPrompt } from '../prompts/coder.js'
-import { type Result, err } from '../utils/result.js'
+import { createRepositoryTools } from '../tools/repositoryTools.js'
+import { type Result, ok, err } from '../utils/result.js'
 
 export const coderAgent: Agent<CoderInput, CoderOutput> = async (
   input: CoderInput,
   context: AgentContext
-): Promise<Result<CoderOutput, AgentError>> => {
+): Promise<Result<AgentOutput<CoderOutput>, AgentError>> => {
   context.logger.info(
-    { taskId: input.task.id, hasReviewFeedback: !!input.reviewFeedback },
+    {
+      taskId: input.task.id,
+      hasReviewFeedback: !!input.reviewFeedback,
+      hasVerificationFeedback: !!input.verificationFeedback,
+    },
     'Starting coder agent'
   )
 
+  const repositoryTools = context.tools && context.toolBudget
+    ? createRepositoryTools(context.tools, { maxCalls: context.toolBudget, logger: context.logger })
+    : undefined
+
   const messages = buildCoderPrompt({
     taskTitle: input.task.title,
     taskDescription: input.task.description,
@@ -22,9 +31,20 @@ export const coderAgent: Agent<CoderInput, CoderOutput> = async (
     reviewFeedback: input.reviewFeedback,
     dependencyContext: input.dependencyContext,
     importValidationFeedback: input.importValidationFeedback,
-  })
+    editFeedback: input.editFeedback,
+    verificationFeedback: input.verificationFeedback,
+    rejectedChanges: input.rejectedChanges,
+    toolsAvailable: repositoryTools !== undefined,
+  }, context.promptBudget)
 
-  const result = await context.llm.generateStructured(messages, CoderOutputSchema)
+  let thinking: string | undefined
+  const result = await context.llm.generateStructured(messages, CoderOutputSchema, {
+    // One extra step leaves room for the final answer once the budget is spent
+    ...(repositoryTools && { tools: repositoryTools, maxSteps: (context.toolBudget ?? 0) + 1 }),
+    onThinking: (text) => {
+      thinking = text
+    },
+  })
 
   if (!result.ok) {
     context.logger.error({ error: result.error }, 'Coder agent failed')
@@ -41,5 +61,5 @@ export const coderAgent: Agent<CoderInput, CoderOutput> = async (
     'Coder agent completed'
   )
 
-  return result
+  return ok({ ...result.value, ...(thinking !== undefined && { thinking }) })
 }
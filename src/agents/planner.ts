@@ -1,19 +1,24 @@
-import type { Agent, AgentContext } from './types.js'
+import type { Agent, AgentContext, AgentOutput } from './types.js'
 import type { PlannerInput, PlannerOutput } from '../schemas/planner.js'
 import type { AgentError } from '../schemas/common.js'
 import { PlannerOutputSchema } from '../schemas/planner.js'
 import { buildPlannerPrompt } from '../prompts/planner.js'
-import { type Result, err } from '../utils/result.js'
+import { type Result, ok, err } from '../utils/result.js'
 
 export const plannerAgent: Agent<PlannerInput, PlannerOutput> = async (
   input: PlannerInput,
   context: AgentContext
-): Promise<Result<PlannerOutput, AgentError>> => {
+): Promise<Result<AgentOutput<PlannerOutput>, AgentError>> => {
   context.logger.info({ request: input.request.slice(0, 100) }, 'Starting planner agent')
 
-  const messages = buildPlannerPrompt(input.request, input.projectContext)
+  const messages = buildPlannerPrompt(input.request, input.projectContext, context.promptBudget)
 
-  const result = await context.llm.generateStructured(messages, PlannerOutputSchema)
+  let thinking: string | undefined
+  const result = await context.llm.generateStructured(messages, PlannerOutputSchema, {
+    onThinking: (text) => {
+      thinking = text
+    },
+  })
 
   if (!result.ok) {
     context.logger.error({ error: result.error }, 'Planner agent failed')
@@ -30,5 +35,5 @@ export const plannerAgent: Agent<PlannerInput, PlannerOutput> = async (
     'Planner agent completed'
   )
 
-  return result
+  return ok({ ...result.value, ...(thinking !== undefined && { thinking }) })
 }
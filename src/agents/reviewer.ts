@@ -1,14 +1,14 @@
-import type { Agent, AgentContext } from './types.js'
+import type { Agent, AgentContext, AgentOutput } from './types.js'
 import type { ReviewerInput, ReviewerOutput } from '../schemas/reviewer.js'
 import type { AgentError } from '../schemas/common.js'
 import { ReviewerOutputSchema } from '../schemas/reviewer.js'
 import { buildReviewerPrompt } from '../prompts/reviewer.js'
-import { type Result, err } from '../utils/result.js'
+import { type Result, ok, err } from '../utils/result.js'
 
 export const reviewerAgent: Agent<ReviewerInput, ReviewerOutput> = async (
   input: ReviewerInput,
   context: AgentContext
-): Promise<Result<ReviewerOutput, AgentError>> => {
+): Promise<Result<AgentOutput<ReviewerOutput>, AgentError>> => {
   context.logger.info({ taskId: input.task.id }, 'Starting reviewer agent')
 
   const messages = buildReviewerPrompt({
@@ -17,9 +17,14 @@ export const reviewerAgent: Agent<ReviewerInput, ReviewerOutput> = async (
     taskDescription: input.task.description,
     changes: input.changes,
     projectDependencies: input.projectDependencies,
-  })
+  }, context.promptBudget)
 
-  const result = await context.llm.generateStructured(messages, ReviewerOutputSchema)
+  let thinking: string | undefined
+  const result = await context.llm.generateStructured(messages, ReviewerOutputSchema, {
+    onThinking: (text) => {
+      thinking = text
+    },
+  })
 
   if (!result.ok) {
     context.logger.error({ error: result.error }, 'Reviewer agent failed')
@@ -39,5 +44,5 @@ export const reviewerAgent: Agent<ReviewerInput, ReviewerOutput> = async (
     'Reviewer agent completed'
   )
 
-  return result
+  return ok({ ...result.value, ...(thinking !== undefined && { thinking }) })
 }
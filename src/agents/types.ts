@@ -1,4 +1,5 @@
 import type { LLMClient } from '../llm/client.js'
+import type { PromptBudget } from '../prompts/budget.js'
 import type { ToolKit } from '../tools/toolkit.js'
 import type { Logger, ScopedLogger } from '../utils/logger.js'
 import type { Result } from '../utils/result.js'
@@ -12,9 +13,18 @@ export type AgentContext = {
   tools?: ToolKit
   logger: ScopedLogger
   conversationId: string
+  /** Repository tool calls the agent may make per request; unset or 0 disables tools */
+  toolBudget?: number
+  /** Fits prompts to the agent's model; the default model settings when unset */
+  promptBudget?: PromptBudget
 }
 
+/**
+ * An agent's output, with the model's <think> reasoning behind it when it gave any
+ */
+export type AgentOutput<O> = O & { thinking?: string | undefined }
+
 /**
  * Generic agent type
  */
-export type Agent<I, O> = (input: I, context: AgentContext) => Promise<Result<O, AgentError>>
+export type Agent<I, O> = (input: I, context: AgentContext) => Promise<Result<AgentOutput<O>, AgentError>>
@@ -0,0 +1,11 @@
+import { resolve } from 'node:path'
+import { clearResponseCache } from '../../llm/cache.js'
+
+type CacheOptions = {
+  project: string
+}
+
+export async function cacheClearCommand(options: CacheOptions): Promise<void> {
+  const removed = clearResponseCache(resolve(options.project))
+  console.log(removed > 0 ? `Removed ${removed} cached response(s).` : 'The response cache is empty.')
+}
@@ -1,10 +1,43 @@
-import { loadConfig } from '../../utils/config.js'
+import {
+  loadConfig,
+  resolveAgentLLMConfig,
+  resolveLLMEndpoints,
+  type AgentName,
+  type Config,
+  type LLMEndpointConfig,
+} from '../../utils/config.js'
 import { createLLMClient } from '../../llm/client.js'
+import { saveCapabilityProfile, CAPABILITIES_FILE, type CapabilityProfile } from '../../llm/capabilities.js'
+import { probeCapabilities } from '../../llm/probe.js'
 
 type DoctorOptions = {
   project: string
 }
 
+/**
+ * Every endpoint some agent may call: the primary and fallbacks, with each agent's overrides
+ */
+function configuredEndpoints(config: Config): LLMEndpointConfig[] {
+  const all = [
+    ...resolveLLMEndpoints(config.llm),
+    ...(Object.keys(config.agents) as AgentName[]).flatMap((agent) => resolveLLMEndpoints(resolveAgentLLMConfig(config, agent))),
+  ]
+  return all.filter((endpoint, index) =>
+    all.findIndex((other) => other.baseUrl === endpoint.baseUrl && other.model === endpoint.model) === index
+  )
+}
+
+const yesNo = (supported: boolean) => (supported ? 'yes' : 'no')
+
+function printProfile(profile: CapabilityProfile): void {
+  console.log(`\u2705 ${profile.model} at ${profile.baseUrl}`)
+  console.log(`   Context window: ${profile.contextWindow === undefined ? 'not reported' : `${profile.contextWindow} tokens`}`)
+  console.log(`   JSON schema output: ${yesNo(profile.jsonSchema)}`)
+  console.log(`   Tool calling: ${yesNo(profile.toolCalling)}`)
+  console.log(`   Streaming: ${yesNo(profile.streaming)}`)
+  console.log(`   Thinking tags: ${yesNo(profile.thinking)}`)
+}
+
 export async function doctorCommand(options: DoctorOptions): Promise<void> {
   console.log('Agent Helper Doctor')
   console.log('===================\n')
@@ -26,6 +59,12 @@ export async function doctorCommand(options: DoctorOptions): Promise<void> {
   console.log(`   LLM Base URL: ${config.llm.baseUrl}`)
   console.log(`   Model: ${config.llm.model}`)
   console.log(`   Max Tokens: ${config.llm.maxTokens}`)
+  for (const [agent, agentConfig] of Object.entries(config.agents)) {
+    if (agentConfig.llm) {
+      const agentLLM = resolveAgentLLMConfig(config, agent as AgentName)
+      console.log(`   ${agent}: ${agentLLM.model} at ${agentLLM.baseUrl}`)
+    }
+  }
   console.log('')
 
   // Check LLM connectivity
@@ -78,5 +117,47 @@ export async function doctorCommand(options: DoctorOptions): Promise<void> {
   }
 
   console.log('')
+
+  // Probe what each endpoint supports, so runs can pick strategies without trial and error
+  console.log('Probing model capabilities...')
+  const profiles: CapabilityProfile[] = []
+  const unreachable: LLMEndpointConfig[] = []
+  for (const endpoint of configuredEndpoints(config)) {
+    const probed = await probeCapabilities(endpoint)
+    if (!probed.ok) {
+      // A profile probed while the server is down would switch off features that work
+      unreachable.push(endpoint)
+      console.log(`\u274c ${endpoint.model} at ${endpoint.baseUrl}: ${probed.error.message}`)
+      console.log('   Not probed; any profile saved earlier is kept.')
+      continue
+    }
+
+    const profile = probed.value
+    profiles.push(profile)
+    printProfile(profile)
+
+    const saveResult = saveCapabilityProfile(options.project, profile)
+    if (!saveResult.ok) {
+      console.log(`\u26a0\ufe0f  ${saveResult.error.message}`)
+    }
+  }
+  if (profiles.length > 0) {
+    console.log(`   Saved to ${CAPABILITIES_FILE}; re-run doctor after changing models.`)
+  }
+
+  for (const agent of ['architect', 'coder'] as const) {
+    const agentLLM = resolveAgentLLMConfig(config, agent)
+    const profile = profiles.find((p) => p.baseUrl === agentLLM.baseUrl && p.model === agentLLM.model)
+    if (config.agents[agent].maxToolCalls > 0 && profile && !profile.toolCalling) {
+      console.log(`\u26a0\ufe0f  agents.${agent}.maxToolCalls is set, but ${profile.model} did not call the probe tool.`)
+      console.log('   Enable tool calling on the server (for vLLM, --enable-auto-tool-choice) or set maxToolCalls to 0.')
+    }
+  }
+
+  console.log('')
+  if (unreachable.length > 0) {
+    console.log(`\u26a0\ufe0f  ${unreachable.length} endpoint(s) could not be probed. Re-run doctor once they are reachable.`)
+    return
+  }
   console.log('\u2705 All checks passed! Agent Helper is ready to use.')
 }
@@ -0,0 +1,30 @@
+import { resolve } from 'node:path'
+import { listJournals } from '../../orchestrator/journal.js'
+
+type HistoryOptions = {
+  project: string
+}
+
+export async function historyCommand(options: HistoryOptions): Promise<void> {
+  const journals = listJournals(resolve(options.project))
+
+  if (journals.length === 0) {
+    console.log('No applied runs recorded.')
+    return
+  }
+
+  console.log('Applied runs (most recent first):\n')
+  for (const journal of journals) {
+    const status = journal.undoneAt ? 'undone' : 'applied'
+    const packages = [...journal.packages.production, ...journal.packages.dev]
+
+    console.log(`${journal.runId}  ${status.padEnd(7)}  ${journal.appliedAt}`)
+    console.log(`  Request: "${journal.request.slice(0, 80)}"`)
+    console.log(`  Files: ${journal.files.map((f) => f.path).join(', ')}`)
+    if (packages.length > 0) {
+      console.log(`  Packages: ${packages.join(', ')}`)
+    }
+  }
+
+  console.log('\nUndo a run with: agent-helper undo [runId]')
+}
@@ -1,15 +1,27 @@
-import { loadConfig } from '../../utils/config.js'
+import { loadConfig, resolveAgentLLMConfig } from '../../utils/config.js'
 import { createLogger } from '../../utils/logger.js'
-import { createLLMClient } from '../../llm/client.js'
+import { labelLLMClient, type LLMCallRecord } from '../../llm/client.js'
+import { createCallLog } from '../../llm/callLog.js'
+import { formatUsageSummary, summarizeUsage } from '../../llm/usage.js'
+import { createPromptBudget } from '../../prompts/budget.js'
+import { createResponseCache } from '../../llm/cache.js'
+import { loadCapabilityProfiles, withCapabilities } from '../../llm/capabilities.js'
+import { createProgressReporter } from '../progress.js'
+import { createThinkingRecorder } from '../thinking.js'
+import { createCommandLLMClients, type CassetteOptions } from '../llmClients.js'
 import { createToolKit } from '../../tools/toolkit.js'
 import { plannerAgent } from '../../agents/planner.js'
 import { architectAgent } from '../../agents/architect.js'
 import { gatherProjectContext, formatProjectContext } from '../../tools/context.js'
+import { buildTaskGraph, formatExecutionOrder } from '../../orchestrator/taskGraph.js'
 import { randomUUID } from 'node:crypto'
 
-type PlanOptions = {
+type PlanOptions = CassetteOptions & {
   project: string
   verbose: boolean
+  /** False with --no-cache */
+  cache?: boolean
+  showThinking?: boolean
 }
 
 export async function planCommand(request: string, options: PlanOptions): Promise<void> {
@@ -27,8 +39,28 @@ export async function planCommand(request: string, options: PlanOptions): Promis
   }
 
   const config = configResult.value
-  const llm = createLLMClient(config.llm)
   const tools = createToolKit(options.project)
+  const useCache = config.cache.enabled && options.cache !== false
+  const capabilities = loadCapabilityProfiles(tools.getProjectRoot())
+  const callLog = createCallLog()
+  const thinking = createThinkingRecorder(logger, options.showThinking ?? false)
+  const clientOptions = {
+    onProgress: createProgressReporter(),
+    onCall: (call: LLMCallRecord) => {
+      callLog.record(call)
+      thinking.record(call)
+    },
+    cache: useCache ? createResponseCache(tools.getProjectRoot(), config.cache) : undefined,
+    capabilities,
+  }
+  const promptBudget = (agent: 'planner' | 'architect') =>
+    createPromptBudget(withCapabilities(resolveAgentLLMConfig(config, agent), capabilities), logger.child(agent))
+  const clientsResult = createCommandLLMClients(config, clientOptions, options)
+  if (!clientsResult.ok) {
+    console.error(clientsResult.error)
+    process.exit(1)
+  }
+  const { llm, agentLLMs } = clientsResult.value
   const conversationId = randomUUID()
 
   log.info({}, `Planning: "${request}"`)
@@ -49,7 +81,13 @@ export async function planCommand(request: string, options: PlanOptions): Promis
   // Run planner
   const planResult = await plannerAgent(
     { request, projectContext: formattedContext },
-    { llm, tools, logger: logger.child('planner'), conversationId }
+    {
+      llm: labelLLMClient(agentLLMs.planner ?? llm, 'planner'),
+      tools,
+      logger: logger.child('planner'),
+      conversationId,
+      promptBudget: promptBudget('planner'),
+    }
   )
 
   if (!planResult.ok) {
@@ -69,16 +107,38 @@ export async function planCommand(request: string, options: PlanOptions): Promis
     }
   }
 
-  // Run architect for each task
+  const graphResult = buildTaskGraph(planResult.value.tasks)
+  if (!graphResult.ok) {
+    console.error(`\nInvalid task plan: ${graphResult.error.message}`)
+    process.exit(1)
+  }
+
+  const graph = graphResult.value
+  console.log(`\n${formatExecutionOrder(graph)}`)
+  if (config.pipeline.maxConcurrentTasks > 1) {
+    console.log(`  (up to ${config.pipeline.maxConcurrentTasks} tasks per level run concurrently)`)
+  }
+
+  // Run architect for each task, in execution order
   console.log('\n--- Architecture Plans ---')
-  for (const task of planResult.value.tasks) {
+  for (const taskId of graph.order) {
+    const task = graph.tasks.get(taskId)
+    if (!task) continue
+
     const archResult = await architectAgent(
       {
         task: { id: task.id, title: task.title, description: task.description },
         projectContext: formattedContext,
         existingFiles: task.estimatedFiles,
       },
-      { llm, tools, logger: logger.child('architect'), conversationId }
+      {
+        llm: labelLLMClient(agentLLMs.architect ?? llm, 'architect', task.id),
+        tools,
+        logger: logger.child('architect'),
+        conversationId,
+        toolBudget: config.agents.architect.maxToolCalls,
+        promptBudget: promptBudget('architect'),
+      }
     )
 
     if (!archResult.ok) {
@@ -90,11 +150,18 @@ export async function planCommand(request: string, options: PlanOptions): Promis
     console.log(`Reasoning: ${archResult.value.reasoning}`)
     console.log('Files:')
     for (const file of archResult.value.files) {
-      console.log(`  ${file.operation === 'create' ? '+' : '~'} ${file.path}`)
+      const marker = { create: '+', modify: '~', delete: '-', rename: '>' }[file.operation]
+      const source = file.operation === 'rename' && file.from ? `${file.from} \u2192 ` : ''
+      console.log(`  ${marker} ${source}${file.path}`)
       console.log(`    ${file.description}`)
     }
   }
 
+  const usageSummary = formatUsageSummary(summarizeUsage(callLog.getCalls()))
+  if (usageSummary) {
+    console.log(`\n${usageSummary}`)
+  }
+
   console.log('\n--- Dry Run Complete ---')
   console.log('Use "agent-helper run" to execute this plan.')
 }
@@ -0,0 +1,35 @@
+import { listCheckpoints, loadCheckpointStore } from '../../orchestrator/checkpoint.js'
+import { executeRun, warnCheckpointFailed, type RunOptions } from './run.js'
+
+export async function resumeCommand(runId: string, options: RunOptions): Promise<void> {
+  await executeRun(options, (projectRoot) => {
+    const checkpointResult = loadCheckpointStore(projectRoot, runId, warnCheckpointFailed)
+
+    if (!checkpointResult.ok) {
+      console.error(`Cannot resume: ${checkpointResult.error.message}`)
+
+      const runs = listCheckpoints(projectRoot)
+      if (runs.length > 0) {
+        console.error('\nAvailable runs:')
+        for (const run of runs.slice(0, 10)) {
+          console.error(`  ${run.runId}  ${run.status.padEnd(11)}  ${run.updatedAt}  "${run.request.slice(0, 60)}"`)
+        }
+      }
+      process.exit(1)
+    }
+
+    const checkpoint = checkpointResult.value
+    const state = checkpoint.getState()
+    const finished = Object.values(state.tasks).filter((t) => t.result).length
+    const total = state.plan?.tasks.length
+
+    console.log(`Resuming run ${runId} (${state.status})`)
+    console.log(`Request: "${state.request}"`)
+    if (total !== undefined) {
+      console.log(`Completed tasks: ${finished}/${total}`)
+    }
+
+    checkpoint.setStatus('running')
+    return { request: state.request, checkpoint }
+  })
+}
@@ -1,7 +1,20 @@
 import { createInterface } from 'node:readline'
+import { spawnSync } from 'node:child_process'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { join, resolve } from 'node:path'
+import { tmpdir } from 'node:os'
+import { randomUUID } from 'node:crypto'
 import { loadConfig } from '../../utils/config.js'
 import { createLogger } from '../../utils/logger.js'
-import { createLLMClient } from '../../llm/client.js'
+import { createCallLog, formatCallSummary } from '../../llm/callLog.js'
+import type { LLMCallRecord } from '../../llm/client.js'
+import { createResponseCache } from '../../llm/cache.js'
+import { loadCapabilityProfiles } from '../../llm/capabilities.js'
+import { collectSecrets, createRedactor, createTranscriptWriter, TRANSCRIPT_FILENAME } from '../../llm/transcript.js'
+import { formatUsageSummary, USAGE_FILENAME } from '../../llm/usage.js'
+import { createProgressReporter } from '../progress.js'
+import { createThinkingRecorder, THINKING_FILENAME } from '../thinking.js'
+import { createCommandLLMClients, type CassetteOptions } from '../llmClients.js'
 import { createToolKit } from '../../tools/toolkit.js'
 import { runPipeline } from '../../orchestrator/pipeline.js'
 import { ConsentManager } from '../../consent/index.js'
@@ -10,17 +23,45 @@ import {
   applyChanges,
   formatChangesSummary,
   generateDiff,
+  generatePatch,
+  getDestructiveChanges,
+  getHunks,
+  selectHunks,
+  formatRejectedChanges,
+  type RejectedChange,
+  type StagedChange,
 } from '../../orchestrator/staging.js'
+import { formatHunk, parseEditedHunk, type Hunk } from '../../orchestrator/diff.js'
+import { createCheckpointStore, createFollowUpCheckpointStore, type CheckpointStore } from '../../orchestrator/checkpoint.js'
+import { recordApply } from '../../orchestrator/journal.js'
 
-type RunOptions = {
+export type RunOptions = CassetteOptions & {
   project: string
   yes: boolean
   verbose: boolean
   nonInteractive?: boolean
   autoInstall?: boolean
+  verify?: boolean
+  /** Write the change set to this patch file instead of applying it */
+  outputPatch?: string
+  /** Choose which hunks to apply instead of accepting the whole change set */
+  interactive?: boolean
+  /** False with --no-cache: send every LLM request even when the cache is enabled */
+  cache?: boolean
+  /** Print each agent's <think> reasoning once its call finishes */
+  showThinking?: boolean
 }
 
-async function prompt(question: string): Promise<string> {
+type RunStart = {
+  request: string
+  checkpoint?: CheckpointStore
+  /** Hunks rejected in a previous run of the same request, passed to the coder */
+  rejectedChanges?: string
+  /** Set for a follow-up on rejected hunks: the tasks whose coder runs again, the only changes staged */
+  followUpTasks?: string[]
+}
+
+export async function prompt(question: string): Promise<string> {
   const rl = createInterface({
     input: process.stdin,
     output: process.stdout,
@@ -34,7 +75,169 @@ async function prompt(question: string): Promise<string> {
   })
 }
 
+/**
+ * Report a checkpoint save that failed mid-run; the run carries on but may not resume from its latest step
+ */
+export function warnCheckpointFailed(error: unknown): void {
+  console.warn(`Warning: Failed to save the run checkpoint (${String(error)}). Resuming may repeat finished steps.`)
+}
+
+function startRun(projectRoot: string, request: string): RunStart {
+  const checkpointResult = createCheckpointStore(projectRoot, randomUUID(), request, warnCheckpointFailed)
+  if (!checkpointResult.ok) {
+    console.warn(`Warning: ${checkpointResult.error.message}. This run cannot be resumed.`)
+    return { request }
+  }
+  return { request, checkpoint: checkpointResult.value }
+}
+
+/**
+ * Follow up on `previous` with another coder pass for `taskIds` only; the plan and
+ * every other step are reused from its checkpoint
+ */
+function startFollowUp(projectRoot: string, previous: CheckpointStore, taskIds: string[], rejectedChanges: string): RunStart {
+  const { request } = previous.getState()
+  const checkpointResult = createFollowUpCheckpointStore(
+    projectRoot,
+    randomUUID(),
+    previous.getState(),
+    taskIds,
+    warnCheckpointFailed
+  )
+  if (!checkpointResult.ok) {
+    console.warn(`Warning: ${checkpointResult.error.message}. Running the whole request again instead.`)
+    return { request, rejectedChanges }
+  }
+  return { request, checkpoint: checkpointResult.value, rejectedChanges, followUpTasks: taskIds }
+}
+
 export async function runCommand(request: string, options: RunOptions): Promise<void> {
+  await executeRun(options, (projectRoot) => startRun(projectRoot, request))
+}
+
+const HUNK_HELP = [
+  'y - apply this hunk',
+  'n - do not apply this hunk (can be sent back to the coder afterwards)',
+  'e - edit this hunk in $EDITOR and apply the result',
+  's - skip this hunk without rejecting it',
+  'q - quit; do not apply this hunk or any remaining ones',
+].join('\n')
+
+/**
+ * Let the user edit a hunk in $VISUAL/$EDITOR. Returns null if the editor
+ * failed or the edited hunk is invalid.
+ */
+function editHunk(hunk: Hunk): Hunk | null {
+  const editor = process.env['VISUAL'] ?? process.env['EDITOR'] ?? 'vi'
+  const dir = mkdtempSync(join(tmpdir(), 'agent-helper-hunk-'))
+  const file = join(dir, 'hunk.diff')
+
+  try {
+    writeFileSync(file, [
+      '# Edit the hunk, then save and close the editor.',
+      '# Delete "+" lines you do not want. To keep a "-" line, replace the "-" with a space.',
+      '# Lines starting with # are ignored.',
+      formatHunk(hunk),
+    ].join('\n') + '\n', 'utf-8')
+
+    const result = spawnSync(`${editor} "${file}"`, { stdio: 'inherit', shell: true })
+    if (result.status !== 0) {
+      console.log(`Editor exited with status ${result.status ?? 'unknown'}; hunk unchanged.`)
+      return null
+    }
+
+    const parsed = parseEditedHunk(hunk, readFileSync(file, 'utf-8'))
+    if (!parsed.ok) {
+      console.log(parsed.error)
+      return null
+    }
+    return parsed.value
+  } finally {
+    rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Walk each staged file and hunk, like `git add -p`, and collect what to apply.
+ * Deletes and renames are decided for the whole file.
+ */
+async function chooseHunks(
+  staged: StagedChange[],
+  contextLines: number
+): Promise<{ selected: StagedChange[]; rejected: RejectedChange[] }> {
+  const selected: StagedChange[] = []
+  const rejected: RejectedChange[] = []
+
+  for (const change of staged) {
+    if (change.operation !== 'write') {
+      console.log('\n' + generateDiff(change, contextLines))
+      const question = change.operation === 'delete'
+        ? `Delete ${change.path}? [y,n,s,q,?] `
+        : `Rename ${change.from ?? '?'} to ${change.path}? [y,n,s,q,?] `
+
+      let answer = await prompt(question)
+      while (!['y', 'n', 's', 'q'].includes(answer)) {
+        console.log(HUNK_HELP)
+        answer = await prompt(question)
+      }
+
+      if (answer === 'q') break
+      if (answer === 'y') selected.push(change)
+      if (answer === 'n') rejected.push({ change, hunks: [] })
+      continue
+    }
+
+    const hunks = getHunks(change, contextLines)
+    const accepted: Hunk[] = []
+    const rejectedHunks: Hunk[] = []
+    let quit = false
+
+    console.log(`\n${change.isNew ? 'New file' : 'File'} ${change.path}: ${hunks.length} hunk(s)`)
+    for (const [index, hunk] of hunks.entries()) {
+      let decided = false
+      while (!decided) {
+        console.log('\n' + formatHunk(hunk))
+        const answer = await prompt(`(${index + 1}/${hunks.length}) Apply this hunk? [y,n,e,s,q,?] `)
+
+        decided = true
+        if (answer === 'y') {
+          accepted.push(hunk)
+        } else if (answer === 'n') {
+          rejectedHunks.push(hunk)
+        } else if (answer === 'e') {
+          const edited = editHunk(hunk)
+          if (edited) {
+            accepted.push(edited)
+          } else {
+            decided = false
+          }
+        } else if (answer === 'q') {
+          quit = true
+        } else if (answer !== 's') {
+          console.log(HUNK_HELP)
+          decided = false
+        }
+      }
+      if (quit) break
+    }
+
+    const narrowed = selectHunks(change, accepted)
+    if (narrowed) selected.push(narrowed)
+    if (rejectedHunks.length > 0) rejected.push({ change, hunks: rejectedHunks })
+    if (quit) break
+  }
+
+  return { selected, rejected }
+}
+
+/**
+ * Run the pipeline and present/apply its results.
+ * `openRun` supplies the request and checkpoint, either fresh (run) or loaded (resume).
+ */
+export async function executeRun(
+  options: RunOptions,
+  openRun: (projectRoot: string) => RunStart
+): Promise<void> {
   const logger = createLogger({
     level: options.verbose ? 'debug' : 'info',
   })
@@ -54,35 +257,90 @@ export async function runCommand(request: string, options: RunOptions): Promise<
     config.pipeline.applyChangesAutomatically = true
   }
 
-  const llm = createLLMClient(config.llm)
+  if (options.verify) {
+    config.verification.enabled = true
+  }
+
+  if (options.cache === false) {
+    config.cache.enabled = false
+  }
+
   const tools = createToolKit(options.project)
+  const callLog = createCallLog()
+  const thinking = createThinkingRecorder(logger, options.showThinking ?? false)
+  const capabilities = loadCapabilityProfiles(tools.getProjectRoot())
+  const transcript = createTranscriptWriter(
+    createRedactor(collectSecrets(config, tools.getProjectRoot()), config.transcript.redactPatterns),
+    (e) => log.warn({ error: String(e) }, 'Failed to write the LLM transcript')
+  )
+  const clientOptions = {
+    onProgress: createProgressReporter(),
+    onCall: (call: LLMCallRecord) => {
+      callLog.record(call)
+      thinking.record(call)
+    },
+    cache: config.cache.enabled ? createResponseCache(tools.getProjectRoot(), config.cache) : undefined,
+    capabilities,
+    onTranscript: config.transcript.enabled ? transcript.record : undefined,
+  }
+  const clientsResult = createCommandLLMClients(config, clientOptions, options)
+  if (!clientsResult.ok) {
+    console.error(clientsResult.error)
+    process.exit(1)
+  }
+  const { llm, agentLLMs } = clientsResult.value
+  const { request, checkpoint, rejectedChanges, followUpTasks } = openRun(tools.getProjectRoot())
 
   const nonInteractive = options.nonInteractive ?? process.env['CI'] === 'true'
   const consentManager = new ConsentManager(options.project, { nonInteractive })
 
   const cleanup = () => {
     consentManager.cleanup()
+    process.off('SIGINT', interrupt)
+    process.off('SIGTERM', interrupt)
   }
-  process.on('SIGINT', () => { cleanup(); process.exit(0) })
-  process.on('SIGTERM', () => { cleanup(); process.exit(0) })
+  const interrupt = () => {
+    cleanup()
+    if (checkpoint) {
+      checkpoint.setStatus('interrupted')
+      console.error(`\nRun interrupted. Resume with: agent-helper resume ${checkpoint.runId}`)
+    }
+    process.exit(0)
+  }
+  process.on('SIGINT', interrupt)
+  process.on('SIGTERM', interrupt)
 
   log.info({}, `Running: "${request}"`)
+  if (checkpoint) {
+    log.info({ runId: checkpoint.runId }, 'Checkpointing run')
+    thinking.saveTo(join(checkpoint.directory, THINKING_FILENAME))
+    transcript.saveTo(join(checkpoint.directory, TRANSCRIPT_FILENAME))
+  }
 
   const result = await runPipeline(request, {
     llm,
+    agentLLMs,
     tools,
     config,
     logger,
     consentManager,
     autoInstall: options.autoInstall ?? false,
+    capabilities,
+    callLog,
+    ...(checkpoint && { checkpoint }),
+    ...(rejectedChanges && { rejectedChanges }),
   })
 
   if (!result.ok) {
     console.error(`\nPipeline failed: ${result.error}`)
+    if (checkpoint) {
+      checkpoint.setStatus('interrupted')
+      console.error(`Resume with: agent-helper resume ${checkpoint.runId}`)
+    }
     process.exit(1)
   }
 
-  const { success, results, errors } = result.value
+  const { success, results, errors, usage, tokenBudget } = result.value
 
   // Print errors if any
   if (errors.length > 0) {
@@ -90,10 +348,19 @@ export async function runCommand(request: string, options: RunOptions): Promise<
     for (const error of errors) {
       console.error(`  - ${error}`)
     }
+    if (checkpoint) {
+      console.error(`\nFailed steps can be retried with: agent-helper resume ${checkpoint.runId}`)
+    }
   }
 
   // Print results for each task
   for (const taskResult of results) {
+    if (taskResult.skipped) {
+      console.log(`\n\u23ed\ufe0f  Task skipped: ${taskResult.task.title}`)
+      console.log(`   Reason: ${taskResult.skipped.reason}`)
+      continue
+    }
+
     const statusIcon = taskResult.reviewPassed ? '\u2705' : '\u26a0\ufe0f'
     console.log(`\n${statusIcon} Task: ${taskResult.task.title}`)
 
@@ -111,9 +378,9 @@ export async function runCommand(request: string, options: RunOptions): Promise<
       console.log(`   Review: ${parts.join(', ')}`)
     }
 
-    // Stage changes
-    const staged = stageChanges(taskResult.changes, tools)
-    console.log(`\n${formatChangesSummary(staged)}`)
+    if (taskResult.changes.length > 0) {
+      console.log(`   Files: ${taskResult.changes.map((c) => c.path).join(', ')}`)
+    }
 
     if (!taskResult.reviewPassed && !config.pipeline.applyChangesAutomatically) {
       console.log('\nReview did not pass. Issues:')
@@ -124,40 +391,156 @@ export async function runCommand(request: string, options: RunOptions): Promise<
         }
       }
     }
+  }
 
-    // Apply changes prompt
-    if (config.pipeline.applyChangesAutomatically) {
-      const applyResult = applyChanges(staged, tools)
-      if (!applyResult.ok) {
-        console.error(`\nFailed to apply changes: ${applyResult.error}`)
+  if (tokenBudget) {
+    console.log(`\n\u26d4 Token budget exhausted: ${tokenBudget.used} of ${tokenBudget.limit} tokens used (pipeline.maxTokensPerRun).`)
+    console.log('   No LLM calls were started after that; unfinished tasks are skipped and only finished tasks\' changes are staged.')
+    if (checkpoint) {
+      console.log(`   Continue where it stopped with: agent-helper resume ${checkpoint.runId}`)
+    }
+  }
+
+  const callSummary = formatCallSummary(callLog.getCalls())
+  if (callSummary) {
+    console.log(`\n${callSummary}`)
+  }
+
+  const usageSummary = formatUsageSummary(usage)
+  if (usageSummary) {
+    console.log(`\n${usageSummary}`)
+  }
+
+  if (checkpoint) {
+    try {
+      writeFileSync(join(checkpoint.directory, USAGE_FILENAME), JSON.stringify(usage, null, 2), 'utf-8')
+    } catch (e) {
+      log.warn({ error: (e as Error).message }, 'Failed to save the usage report')
+    }
+  }
+
+  // Stage the merged change set for the whole run; a follow-up only offers its tasks' changes again
+  const changes = followUpTasks
+    ? result.value.changes.filter((change) => change.taskIds.some((taskId) => followUpTasks.includes(taskId)))
+    : result.value.changes
+  const staged = stageChanges(changes, tools)
+
+  // Deletions and renames always need their own confirmation, even with --yes
+  const confirmRemovals = async (): Promise<StagedChange[]> => {
+    const destructive = getDestructiveChanges(staged)
+    if (destructive.length === 0) return staged
+
+    const writesOnly = staged.filter((change) => change.operation === 'write')
+    console.log('\nThe following files will be removed from their current path:')
+    for (const change of destructive) {
+      console.log(change.operation === 'rename'
+        ? `  ${change.from ?? '?'} \u2192 ${change.path} (rename)`
+        : `  ${change.path} (delete)`)
+    }
+
+    if (nonInteractive) {
+      console.log('Skipping deletions and renames in non-interactive mode.')
+      return writesOnly
+    }
+
+    const answer = await prompt('Delete/rename these files? [y/N] ')
+    if (answer === 'y' || answer === 'yes') return staged
+
+    console.log('Deletions and renames skipped.')
+    return writesOnly
+  }
+
+  const applyStaged = (toApply: StagedChange[]): void => {
+    if (toApply.length === 0) {
+      console.log('\nNo changes applied.')
+      return
+    }
+
+    const applyResult = applyChanges(toApply, tools)
+    if (!applyResult.ok) {
+      console.error(`\nFailed to apply changes: ${applyResult.error.message}`)
+      if (applyResult.error.conflicts.length > 0) {
+        console.error('Modified since the run staged its changes (nothing was written):')
+        for (const path of applyResult.error.conflicts) {
+          console.error(`  ${path}`)
+        }
+        console.error('Re-run the request against the current files.')
+      }
+    } else {
+      console.log('\nChanges applied.')
+
+      const runId = checkpoint?.runId ?? randomUUID()
+      const journalResult = recordApply(tools.getProjectRoot(), {
+        runId,
+        request,
+        applied: toApply,
+        packages: result.value.installedPackages,
+      })
+      if (journalResult.ok) {
+        console.log(`Undo with: agent-helper undo ${runId}`)
       } else {
-        console.log('\nChanges applied.')
+        console.warn(`Warning: ${journalResult.error.message}. This run cannot be undone.`)
       }
+    }
+  }
+
+  const apply = async (): Promise<void> => {
+    applyStaged(await confirmRemovals())
+  }
+
+  // Hunks rejected during selection and the tasks that wrote them, if the user wants another coder attempt
+  let followUp: { feedback: string; taskIds: string[] } | undefined
+
+  const applyHunks = async (): Promise<void> => {
+    const { selected, rejected } = await chooseHunks(staged, config.pipeline.diffContextLines)
+    applyStaged(selected)
+
+    if (rejected.length > 0 && !checkpoint) {
+      console.log('\nThis run has no checkpoint, so rejected changes cannot be sent back to the coder.')
+    } else if (rejected.length > 0) {
+      const answer = await prompt(`\nSend the ${rejected.length} rejected change(s) back to the coder for another attempt? [y/N] `)
+      if (answer === 'y' || answer === 'yes') {
+        const taskIds = [...new Set(rejected.flatMap(({ change }) => change.taskIds ?? []))]
+        followUp = { feedback: formatRejectedChanges(rejected), taskIds }
+      }
+    }
+  }
+
+  if (staged.length === 0) {
+    console.log('\nNo changes to apply.')
+  } else {
+    console.log(`\n${formatChangesSummary(staged)}`)
+
+    // Apply changes prompt
+    if (options.outputPatch) {
+      const patchPath = resolve(options.outputPatch)
+      try {
+        writeFileSync(patchPath, generatePatch(staged, config.pipeline.diffContextLines), 'utf-8')
+        console.log(`\nPatch written to ${patchPath}. Apply it with: git apply ${options.outputPatch}`)
+      } catch (e) {
+        console.error(`\nFailed to write patch: ${(e as Error).message}`)
+      }
+    } else if (options.interactive && !nonInteractive) {
+      await applyHunks()
+    } else if (config.pipeline.applyChangesAutomatically) {
+      await apply()
     } else {
-      const answer = await prompt('\nApply changes? [y/N/diff] ')
+      const answer = await prompt('\nApply changes? [y/N/diff/patch] ')
 
       if (answer === 'diff' || answer === 'd') {
         for (const change of staged) {
-          console.log('\n' + generateDiff(change))
+          console.log('\n' + generateDiff(change, config.pipeline.diffContextLines))
         }
         const confirmAnswer = await prompt('\nApply changes? [y/N] ')
         if (confirmAnswer === 'y' || confirmAnswer === 'yes') {
-          const applyResult = applyChanges(staged, tools)
-          if (!applyResult.ok) {
-            console.error(`\nFailed to apply changes: ${applyResult.error}`)
-          } else {
-            console.log('\nChanges applied.')
-          }
+          await apply()
         } else {
           console.log('\nChanges discarded.')
         }
+      } else if (answer === 'p' || answer === 'patch') {
+        await applyHunks()
       } else if (answer === 'y' || answer === 'yes') {
-        const applyResult = applyChanges(staged, tools)
-        if (!applyResult.ok) {
-          console.error(`\nFailed to apply changes: ${applyResult.error}`)
-        } else {
-          console.log('\nChanges applied.')
-        }
+        await apply()
       } else {
         console.log('\nChanges discarded.')
       }
@@ -166,6 +549,13 @@ export async function runCommand(request: string, options: RunOptions): Promise<
 
   cleanup()
 
+  if (followUp !== undefined && checkpoint) {
+    const { feedback, taskIds } = followUp
+    console.log(`\nRunning the coder again for ${taskIds.join(', ')} with the rejected changes as feedback.`)
+    await executeRun(options, (projectRoot) => startFollowUp(projectRoot, checkpoint, taskIds, feedback))
+    return
+  }
+
   if (!success) {
     process.exit(1)
   }
@@ -0,0 +1,88 @@
+import { createToolKit } from '../../tools/toolkit.js'
+import { uninstallPackages } from '../../tools/packageInstaller.js'
+import { applyChanges } from '../../orchestrator/staging.js'
+import { listJournals, loadJournal, markUndone, planUndo } from '../../orchestrator/journal.js'
+import { prompt } from './run.js'
+
+type UndoOptions = {
+  project: string
+  force: boolean
+  nonInteractive?: boolean
+}
+
+export async function undoCommand(runId: string | undefined, options: UndoOptions): Promise<void> {
+  const tools = createToolKit(options.project)
+  const projectRoot = tools.getProjectRoot()
+
+  // Default to the most recent run that has not been undone yet
+  const targetId = runId ?? listJournals(projectRoot).find((j) => !j.undoneAt)?.runId
+  if (!targetId) {
+    console.error('No applied runs to undo.')
+    process.exit(1)
+  }
+
+  const journalResult = loadJournal(projectRoot, targetId)
+  if (!journalResult.ok) {
+    console.error(`Cannot undo: ${journalResult.error.message}`)
+    console.error('Run "agent-helper history" to list applied runs.')
+    process.exit(1)
+  }
+
+  const journal = journalResult.value
+  if (journal.undoneAt) {
+    console.error(`Run ${targetId} was already undone at ${journal.undoneAt}.`)
+    process.exit(1)
+  }
+
+  console.log(`Undoing run ${targetId}`)
+  console.log(`Request: "${journal.request}"`)
+  console.log(`Applied: ${journal.appliedAt}`)
+
+  const plan = planUndo(journal, tools)
+
+  if (plan.modified.length > 0) {
+    console.log('\nThese files were edited after the run changed them:')
+    for (const path of plan.modified) {
+      console.log(`  ${path}`)
+    }
+
+    const nonInteractive = options.nonInteractive ?? process.env['CI'] === 'true'
+    if (!options.force) {
+      if (nonInteractive) {
+        console.error('\nRefusing to overwrite later edits. Pass --force to undo anyway.')
+        process.exit(1)
+      }
+      const answer = await prompt('Undo anyway and discard those edits? [y/N] ')
+      if (answer !== 'y' && answer !== 'yes') {
+        console.log('Undo cancelled.')
+        return
+      }
+    }
+  }
+
+  if (plan.changes.length > 0) {
+    const applyResult = applyChanges(plan.changes, tools)
+    if (!applyResult.ok) {
+      console.error(`\nFailed to restore files: ${applyResult.error.message}`)
+      process.exit(1)
+    }
+  }
+  console.log(`\nRestored ${plan.changes.length} file(s).`)
+
+  const { packageManager, production, dev } = journal.packages
+  const packages = [...production, ...dev]
+  if (packageManager && packages.length > 0) {
+    console.log(`Removing packages installed by the run: ${packages.join(', ')}`)
+    const removal = await uninstallPackages({ packageManager, packages, projectRoot })
+    if (!removal.ok) {
+      console.error(`Failed to remove packages: ${removal.error.message}`)
+    }
+  }
+
+  const marked = markUndone(projectRoot, journal)
+  if (!marked.ok) {
+    console.warn(`Warning: ${marked.error.message}`)
+  }
+
+  console.log('Undo complete.')
+}
@@ -4,6 +4,10 @@ import { Command } from 'commander'
 import { runCommand } from './commands/run.js'
 import { planCommand } from './commands/plan.js'
 import { doctorCommand } from './commands/doctor.js'
+import { resumeCommand } from './commands/resume.js'
+import { undoCommand } from './commands/undo.js'
+import { historyCommand } from './commands/history.js'
+import { cacheClearCommand } from './commands/cache.js'
 
 const program = new Command()
 
@@ -21,16 +25,70 @@ program
   .option('-v, --verbose', 'Enable verbose logging', false)
   .option('--non-interactive', 'Disable interactive prompts (for CI/CD)', false)
   .option('--auto-install', 'Automatically install missing packages without prompting', false)
+  .option('--verify', 'Typecheck and test generated code before review', false)
+  .option('--output-patch <file>', 'Write changes to a patch file instead of applying them')
+  .option('-i, --interactive', 'Choose which hunks to apply, like git add -p', false)
+  .option('--no-cache', 'Send every LLM request even when the response cache is enabled')
+  .option('--record <file>', 'Append every LLM request and response to a JSONL cassette')
+  .option('--replay <file>', 'Answer LLM requests from a recorded cassette instead of the server')
+  .option('--show-thinking', "Print each agent's <think> reasoning once its call finishes", false)
   .action(runCommand)
 
+program
+  .command('resume')
+  .description('Resume an interrupted run from its last checkpoint')
+  .argument('<runId>', 'ID of the run to resume')
+  .option('-p, --project <path>', 'Project directory path', process.cwd())
+  .option('-y, --yes', 'Apply changes automatically without prompting', false)
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .option('--non-interactive', 'Disable interactive prompts (for CI/CD)', false)
+  .option('--auto-install', 'Automatically install missing packages without prompting', false)
+  .option('--verify', 'Typecheck and test generated code before review', false)
+  .option('--output-patch <file>', 'Write changes to a patch file instead of applying them')
+  .option('-i, --interactive', 'Choose which hunks to apply, like git add -p', false)
+  .option('--no-cache', 'Send every LLM request even when the response cache is enabled')
+  .option('--record <file>', 'Append every LLM request and response to a JSONL cassette')
+  .option('--replay <file>', 'Answer LLM requests from a recorded cassette instead of the server')
+  .option('--show-thinking', "Print each agent's <think> reasoning once its call finishes", false)
+  .action(resumeCommand)
+
+program
+  .command('undo')
+  .description('Restore the files a run changed (default: most recent run)')
+  .argument('[runId]', 'ID of the run to undo')
+  .option('-p, --project <path>', 'Project directory path', process.cwd())
+  .option('-f, --force', 'Undo even if files were edited after the run', false)
+  .option('--non-interactive', 'Disable interactive prompts (for CI/CD)', false)
+  .action(undoCommand)
+
+program
+  .command('history')
+  .description('List runs whose changes were applied')
+  .option('-p, --project <path>', 'Project directory path', process.cwd())
+  .action(historyCommand)
+
 program
   .command('plan')
   .description('Plan a task without executing (dry run)')
   .argument('<request>', 'The development request to plan')
   .option('-p, --project <path>', 'Project directory path', process.cwd())
   .option('-v, --verbose', 'Enable verbose logging', false)
+  .option('--no-cache', 'Send every LLM request even when the response cache is enabled')
+  .option('--record <file>', 'Append every LLM request and response to a JSONL cassette')
+  .option('--replay <file>', 'Answer LLM requests from a recorded cassette instead of the server')
+  .option('--show-thinking', "Print each agent's <think> reasoning once its call finishes", false)
   .action(planCommand)
 
+const cache = program
+  .command('cache')
+  .description('Manage the LLM response cache')
+
+cache
+  .command('clear')
+  .description('Delete all cached LLM responses')
+  .option('-p, --project <path>', 'Project directory path', process.cwd())
+  .action(cacheClearCommand)
+
 program
   .command('doctor')
   .description('Check LLM connectivity and configuration')
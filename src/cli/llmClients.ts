@@ -0,0 +1,49 @@
+import { createLLMClient, createAgentLLMClients, type LLMClient, type LLMClientOptions } from '../llm/client.js'
+import { createCassetteRecorder, createReplayLLMClient, loadCassette } from '../llm/cassette.js'
+import type { AgentName, Config } from '../utils/config.js'
+import { type Result, ok, err } from '../utils/result.js'
+
+export type CassetteOptions = {
+  /** Write every LLM request and response to this JSONL cassette */
+  record?: string | undefined
+  /** Answer every LLM request from this cassette instead of a server */
+  replay?: string | undefined
+}
+
+export type CommandLLMClients = {
+  llm: LLMClient
+  agentLLMs: Partial<Record<AgentName, LLMClient>>
+}
+
+/**
+ * The shared and per-agent LLM clients for a command, recording to or replaying
+ * from a cassette when asked
+ */
+export function createCommandLLMClients(
+  config: Config,
+  clientOptions: LLMClientOptions,
+  options: CassetteOptions
+): Result<CommandLLMClients, string> {
+  if (options.record && options.replay) {
+    return err('--record and --replay cannot be used together')
+  }
+
+  if (options.replay) {
+    const cassette = loadCassette(options.replay)
+    if (!cassette.ok) return err(cassette.error.message)
+    // Requests are matched by agent label, so one replay client serves every agent
+    return ok({ llm: createReplayLLMClient(cassette.value), agentLLMs: {} })
+  }
+
+  const llm = createLLMClient(config.llm, clientOptions)
+  const agentLLMs = createAgentLLMClients(config, clientOptions)
+  if (!options.record) return ok({ llm, agentLLMs })
+
+  const record = createCassetteRecorder(options.record)
+  return ok({
+    llm: record(llm),
+    agentLLMs: Object.fromEntries(
+      Object.entries(agentLLMs).map(([agent, client]) => [agent, record(client)])
+    ),
+  })
+}
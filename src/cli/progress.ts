@@ -0,0 +1,51 @@
+import type { LLMProgress, ProgressCallback } from '../llm/client.js'
+
+const RENDER_INTERVAL_MS = 100
+
+function formatProgress(progress: LLMProgress, elapsedMs: number): string {
+  const label = progress.label ?? 'llm'
+  const seconds = Math.floor(elapsedMs / 1000)
+  const elapsed = seconds >= 60 ? `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`
+  return `⏳ ${label}: ${progress.tokens} tokens, ${elapsed}`
+}
+
+/**
+ * Live one-line status for streamed LLM calls, redrawn in place on stderr.
+ * Returns undefined when stderr is not a terminal, so CI logs stay clean.
+ */
+export function createProgressReporter(
+  output: NodeJS.WriteStream = process.stderr
+): ProgressCallback | undefined {
+  if (!output.isTTY) return undefined
+
+  let current: LLMProgress | undefined
+  let startedAt = 0
+  let lastRender = 0
+  let ticker: NodeJS.Timeout | undefined
+
+  const render = () => {
+    if (!current) return
+    lastRender = Date.now()
+    output.write(`\r\x1b[K${formatProgress(current, Date.now() - startedAt)}`)
+  }
+
+  return (progress) => {
+    if (progress.done) {
+      clearInterval(ticker)
+      ticker = undefined
+      current = undefined
+      output.write('\r\x1b[K')
+      return
+    }
+
+    current = progress
+    startedAt = Date.now() - progress.elapsedMs
+
+    // Keep the clock moving while the model is silent (e.g. long prompt processing)
+    if (!ticker) {
+      ticker = setInterval(render, 1000)
+      ticker.unref()
+    }
+    if (Date.now() - lastRender >= RENDER_INTERVAL_MS) render()
+  }
+}
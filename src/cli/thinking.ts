@@ -0,0 +1,55 @@
+import { appendFileSync } from 'node:fs'
+import type { LLMCallRecord } from '../llm/client.js'
+import type { Logger } from '../utils/logger.js'
+
+/**
+ * File in the run directory collecting each agent's reasoning
+ */
+export const THINKING_FILENAME = 'thinking.md'
+
+export type ThinkingRecorder = {
+  /** Pass as (part of) LLMClientOptions.onCall */
+  record: (call: LLMCallRecord) => void
+  /** Append reasoning to this file from now on, starting with anything recorded so far */
+  saveTo: (file: string) => void
+}
+
+const formatEntry = (call: LLMCallRecord, thinking: string) =>
+  `## ${call.label ?? 'llm'} (${call.model})\n\n${thinking}\n\n`
+
+/**
+ * Surfaces the <think> reasoning of structured calls: always in the debug log,
+ * on stdout with --show-thinking, and in the run's artifacts once saveTo is called
+ */
+export function createThinkingRecorder(logger: Logger, show: boolean): ThinkingRecorder {
+  let file: string | undefined
+  const pending: string[] = []
+
+  const save = (path: string, entry: string): void => {
+    try {
+      appendFileSync(path, entry, 'utf-8')
+    } catch (e) {
+      logger.warn('cli', { file: path, error: String(e) }, 'Failed to save model reasoning')
+    }
+  }
+
+  return {
+    record: (call) => {
+      if (call.thinking === undefined) return
+      const label = call.label ?? 'llm'
+
+      logger.debug(label, { model: call.model, thinking: call.thinking }, 'Model reasoning')
+      if (show) {
+        console.log(`\n\u{1f4ad} ${label} thinking:\n${call.thinking}\n`)
+      }
+
+      const entry = formatEntry(call, call.thinking)
+      if (file === undefined) pending.push(entry)
+      else save(file, entry)
+    },
+    saveTo: (path) => {
+      file = path
+      for (const entry of pending.splice(0)) save(path, entry)
+    },
+  }
+}
@@ -0,0 +1,128 @@
+import { createHash } from 'node:crypto'
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync, readdirSync, statSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { z } from 'zod'
+import type { CacheConfig } from '../utils/config.js'
+
+/**
+ * Directory (relative to the project root) holding one file per cached response
+ */
+export const CACHE_DIRECTORY = join('.agent-helper', 'cache')
+
+const CacheEntrySchema = z.object({
+  version: z.literal(1),
+  createdAt: z.number(),
+  model: z.string(),
+  text: z.string(),
+})
+
+type CacheEntry = z.infer<typeof CacheEntrySchema>
+
+/**
+ * LLM responses stored on disk by request hash. Failures to read or write are
+ * treated as misses: the cache only ever saves work, it never breaks a run.
+ */
+export type ResponseCache = {
+  get: (key: string) => string | undefined
+  set: (key: string, model: string, text: string) => void
+}
+
+/**
+ * Everything that determines the model's answer: model, sampling settings, messages,
+ * and for structured requests the schema and whether it was sent as response_format
+ */
+export function responseCacheKey(request: {
+  baseUrl: string
+  model: string
+  temperature: number
+  maxTokens: number
+  messages: unknown[]
+  /** `json_schema` when the schema constrains decoding, `text` when the prompt alone asks for it */
+  output: 'text' | 'json_schema'
+  /** JSON Schema of the expected response, if any */
+  schema?: unknown
+}): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex')
+}
+
+export function getCacheDirectory(projectRoot: string): string {
+  return join(projectRoot, CACHE_DIRECTORY)
+}
+
+function listEntries(directory: string): { path: string; size: number; mtimeMs: number }[] {
+  if (!existsSync(directory)) return []
+  return readdirSync(directory)
+    .filter((name) => name.endsWith('.json'))
+    .map((name) => {
+      const path = join(directory, name)
+      const stats = statSync(path)
+      return { path, size: stats.size, mtimeMs: stats.mtimeMs }
+    })
+}
+
+export function createResponseCache(
+  projectRoot: string,
+  config: Pick<CacheConfig, 'ttlMs' | 'maxSizeBytes'>
+): ResponseCache {
+  const directory = getCacheDirectory(projectRoot)
+  const entryPath = (key: string) => join(directory, `${key}.json`)
+
+  // Drop expired entries, then the oldest until the cache fits in maxSizeBytes
+  const prune = (): void => {
+    const expiredBefore = Date.now() - config.ttlMs
+    let total = 0
+    const kept = []
+    for (const entry of listEntries(directory)) {
+      if (entry.mtimeMs < expiredBefore) {
+        rmSync(entry.path, { force: true })
+      } else {
+        total += entry.size
+        kept.push(entry)
+      }
+    }
+
+    kept.sort((a, b) => a.mtimeMs - b.mtimeMs)
+    for (const entry of kept) {
+      if (total <= config.maxSizeBytes) break
+      rmSync(entry.path, { force: true })
+      total -= entry.size
+    }
+  }
+
+  return {
+    get: (key) => {
+      try {
+        const path = entryPath(key)
+        if (!existsSync(path)) return undefined
+        const parsed = CacheEntrySchema.safeParse(JSON.parse(readFileSync(path, 'utf-8')))
+        if (!parsed.success || Date.now() - parsed.data.createdAt > config.ttlMs) return undefined
+        return parsed.data.text
+      } catch {
+        return undefined
+      }
+    },
+
+    set: (key, model, text) => {
+      try {
+        mkdirSync(directory, { recursive: true })
+        const entry: CacheEntry = { version: 1, createdAt: Date.now(), model, text }
+        const path = entryPath(key)
+        const tempPath = `${path}.tmp`
+        writeFileSync(tempPath, JSON.stringify(entry), 'utf-8')
+        renameSync(tempPath, path)
+        prune()
+      } catch {
+        // A cache that can't be written just stays cold
+      }
+    },
+  }
+}
+
+/**
+ * Delete every cached response. Returns how many were removed.
+ */
+export function clearResponseCache(projectRoot: string): number {
+  const entries = listEntries(getCacheDirectory(projectRoot))
+  rmSync(getCacheDirectory(projectRoot), { recursive: true, force: true })
+  return entries.length
+}
@@ -0,0 +1,63 @@
+import type { LLMCallRecord } from './client.js'
+
+export type CallLog = {
+  record: (call: LLMCallRecord) => void
+  getCalls: () => LLMCallRecord[]
+}
+
+/**
+ * Collects the calls reported through LLMClientOptions.onCall
+ */
+export function createCallLog(): CallLog {
+  const calls: LLMCallRecord[] = []
+
+  return {
+    record: (call) => {
+      calls.push(call)
+    },
+    getCalls: () => [...calls],
+  }
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+/**
+ * Which model served each agent, every failover on the way, and any output that needed repair
+ */
+export function formatCallSummary(calls: LLMCallRecord[]): string {
+  if (calls.length === 0) return ''
+
+  // label -> model -> calls, in first-seen order
+  const models = new Map<string, Map<string, number>>()
+  for (const call of calls.filter((call) => !call.failed)) {
+    const label = call.label ?? 'llm'
+    const counts = models.get(label) ?? new Map<string, number>()
+    counts.set(call.model, (counts.get(call.model) ?? 0) + 1)
+    models.set(label, counts)
+  }
+
+  const lines = ['Models used:']
+  for (const [label, counts] of models) {
+    const served = [...counts].map(([model, count]) => `${model} (${plural(count, 'call')})`)
+    lines.push(`  ${label}: ${served.join(', ')}`)
+  }
+
+  const failovers = calls.filter((call) => call.failedOver.length > 0)
+  if (failovers.length > 0) {
+    lines.push('Fallbacks:')
+    for (const call of failovers) {
+      const skipped = call.failedOver.map((f) => `${f.model} at ${f.baseUrl} (${f.reason})`).join(' → ')
+      lines.push(`  ${call.label ?? 'llm'}: ${skipped} → ${call.model}`)
+    }
+  }
+
+  const repaired = calls.filter((call) => call.repairs !== undefined && call.repairs.length > 0)
+  if (repaired.length > 0) {
+    lines.push('Repaired output:')
+    for (const call of repaired) {
+      lines.push(`  ${call.label ?? 'llm'}: ${call.repairs?.join(', ')}`)
+    }
+  }
+
+  return lines.join('\n')
+}
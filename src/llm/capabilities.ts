@@ -0,0 +1,93 @@
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { z } from 'zod'
+import { type Result, tryCatch } from '../utils/result.js'
+import type { LLMEndpointConfig } from '../utils/config.js'
+
+/**
+ * File (relative to the project root) holding the profiles `doctor` probed
+ */
+export const CAPABILITIES_FILE = join('.agent-helper', 'capabilities.json')
+
+const CapabilityProfileSchema = z.object({
+  baseUrl: z.string(),
+  model: z.string(),
+  probedAt: z.string(),
+  /** Context length the server reported; undefined when it doesn't say */
+  contextWindow: z.number().int().positive().optional(),
+  /** The server accepts a JSON schema as response_format */
+  jsonSchema: z.boolean(),
+  /** The model calls tools through the OpenAI tool-calling protocol */
+  toolCalling: z.boolean(),
+  streaming: z.boolean(),
+  /** The model wraps reasoning in <think> blocks unless told not to */
+  thinking: z.boolean(),
+})
+
+export type CapabilityProfile = z.infer<typeof CapabilityProfileSchema>
+
+const CapabilitiesFileSchema = z.object({
+  version: z.literal(1),
+  profiles: z.array(CapabilityProfileSchema),
+})
+
+export type CapabilityError = {
+  type: 'write_failed'
+  message: string
+  details?: unknown
+}
+
+/**
+ * Profiles saved in the project. A missing or unreadable file means none were probed.
+ */
+export function loadCapabilityProfiles(projectRoot: string): CapabilityProfile[] {
+  const path = join(projectRoot, CAPABILITIES_FILE)
+  if (!existsSync(path)) return []
+
+  const parsed = tryCatch(() => CapabilitiesFileSchema.parse(JSON.parse(readFileSync(path, 'utf-8'))), (e) => e)
+  return parsed.ok ? parsed.value.profiles : []
+}
+
+/**
+ * Save a profile, replacing any earlier one for the same endpoint and model
+ */
+export function saveCapabilityProfile(projectRoot: string, profile: CapabilityProfile): Result<void, CapabilityError> {
+  const path = join(projectRoot, CAPABILITIES_FILE)
+  const profiles = [
+    ...loadCapabilityProfiles(projectRoot).filter((saved) => saved.baseUrl !== profile.baseUrl || saved.model !== profile.model),
+    profile,
+  ]
+
+  return tryCatch(
+    () => {
+      mkdirSync(join(projectRoot, '.agent-helper'), { recursive: true })
+      const tempPath = `${path}.tmp`
+      writeFileSync(tempPath, JSON.stringify({ version: 1, profiles }, null, 2), 'utf-8')
+      renameSync(tempPath, path)
+    },
+    (e): CapabilityError => ({ type: 'write_failed', message: `Failed to save capability profile to ${path}`, details: e })
+  )
+}
+
+export function findCapabilityProfile(
+  profiles: CapabilityProfile[],
+  endpoint: Pick<LLMEndpointConfig, 'baseUrl' | 'model'>
+): CapabilityProfile | undefined {
+  return profiles.find((profile) => profile.baseUrl === endpoint.baseUrl && profile.model === endpoint.model)
+}
+
+/**
+ * Fill in what the config leaves to detection: the context window when it is unset, and
+ * `structuredOutput: auto` becomes `off` for servers that don't accept a JSON schema,
+ * saving the rejected request auto mode would otherwise spend finding out
+ */
+export function withCapabilities<T extends LLMEndpointConfig>(config: T, profiles: CapabilityProfile[]): T {
+  const profile = findCapabilityProfile(profiles, config)
+  if (!profile) return config
+
+  return {
+    ...config,
+    contextWindow: config.contextWindow ?? profile.contextWindow,
+    structuredOutput: config.structuredOutput === 'auto' && !profile.jsonSchema ? 'off' : config.structuredOutput,
+  }
+}
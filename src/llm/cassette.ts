@@ -0,0 +1,166 @@
+import { appendFileSync, readFileSync } from 'node:fs'
+import { isDeepStrictEqual } from 'node:util'
+import { z } from 'zod'
+import { LLMErrorSchema, type LLMError } from '../schemas/common.js'
+import { type Result, ok, err, tryCatch } from '../utils/result.js'
+import type { LLMClient, Message, TokenUsage, UsageCallback } from './client.js'
+
+const MessageSchema = z.object({
+  role: z.enum(['system', 'user', 'assistant']),
+  content: z.string(),
+})
+
+const CassetteEntrySchema = z.object({
+  method: z.enum(['generate', 'stream', 'generateStructured']),
+  label: z.string().optional(),
+  /** Omitted in hand-written cassettes to match the next request with this method and label */
+  messages: z.array(MessageSchema).optional(),
+  result: z.discriminatedUnion('ok', [
+    z.object({ ok: z.literal(true), value: z.unknown() }),
+    z.object({ ok: z.literal(false), error: LLMErrorSchema }),
+  ]),
+  /** Tokens the recorded call used, reported again on replay so token budgets still apply */
+  usage: z.object({ promptTokens: z.number(), completionTokens: z.number() }).optional(),
+})
+
+export type CassetteEntry = z.infer<typeof CassetteEntrySchema>
+
+export type CassetteError = {
+  type: 'file_read' | 'parse'
+  message: string
+  details?: unknown
+}
+
+type Method = CassetteEntry['method']
+
+/**
+ * Return a wrapper that appends every request made through a client, with its result,
+ * to the JSONL cassette at `path`. Existing entries are kept, so a run that starts a
+ * follow-up run records both into the same cassette.
+ */
+export function createCassetteRecorder(path: string): (llm: LLMClient) => LLMClient {
+  const record = async <T>(
+    method: Method,
+    label: string | undefined,
+    messages: Message[],
+    onUsage: UsageCallback | undefined,
+    send: (onUsage: UsageCallback) => Promise<Result<T, LLMError>>
+  ) => {
+    let usage: TokenUsage | undefined
+    const result = await send((callUsage) => {
+      usage = callUsage
+      onUsage?.(callUsage)
+    })
+
+    const entry: CassetteEntry = {
+      method,
+      ...(label !== undefined && { label }),
+      messages,
+      result: result.ok ? { ok: true, value: result.value } : { ok: false, error: result.error },
+      ...(usage && { usage }),
+    }
+    appendFileSync(path, `${JSON.stringify(entry)}\n`, 'utf-8')
+    return result
+  }
+
+  return (llm) => ({
+    generate: (messages, options) =>
+      record('generate', undefined, messages, options?.onUsage, (onUsage) =>
+        llm.generate(messages, { ...options, onUsage })),
+    stream: (messages, options) =>
+      record('stream', options?.label, messages, options?.onUsage, (onUsage) =>
+        llm.stream(messages, { ...options, onUsage })),
+    generateStructured: (messages, schema, options) =>
+      record('generateStructured', options?.label, messages, options?.onUsage, (onUsage) =>
+        llm.generateStructured(messages, schema, { ...options, onUsage })),
+  })
+}
+
+export function loadCassette(path: string): Result<CassetteEntry[], CassetteError> {
+  const readResult = tryCatch(
+    () => readFileSync(path, 'utf-8'),
+    (e): CassetteError => ({ type: 'file_read', message: `Failed to read cassette: ${path}`, details: e })
+  )
+  if (!readResult.ok) return readResult
+
+  const entries: CassetteEntry[] = []
+  const lines = readResult.value.split('\n')
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue
+
+    const parsed = tryCatch(() => CassetteEntrySchema.parse(JSON.parse(line)), (e) => e)
+    if (!parsed.ok) {
+      return err({ type: 'parse', message: `Invalid cassette entry on line ${index + 1} of ${path}`, details: parsed.error })
+    }
+    entries.push(parsed.value)
+  }
+
+  return ok(entries)
+}
+
+/**
+ * An LLMClient that answers from recorded entries instead of a server. Each entry is
+ * served once, to the first request with the same method, label and messages.
+ * A request with no matching entry fails with an error naming it, so a replay
+ * never silently diverges from the recording.
+ */
+export function createReplayLLMClient(entries: CassetteEntry[]): LLMClient {
+  const remaining = [...entries]
+
+  const replay = (
+    method: Method,
+    label: string | undefined,
+    messages: Message[],
+    onUsage: UsageCallback | undefined
+  ): Result<unknown, LLMError> => {
+    const index = remaining.findIndex((entry) =>
+      entry.method === method &&
+      entry.label === label &&
+      (entry.messages === undefined || isDeepStrictEqual(entry.messages, messages))
+    )
+
+    const entry = remaining[index]
+    if (!entry) {
+      const lastMessage = messages.at(-1)?.content.slice(0, 200) ?? ''
+      return err({
+        type: 'invalid_response',
+        message: `Replay: no recorded ${method} response${label ? ` for ${label}` : ''} matches this request`,
+        details: `Last message: ${lastMessage}`,
+      })
+    }
+
+    remaining.splice(index, 1)
+    if (entry.usage) onUsage?.(entry.usage)
+    return entry.result.ok ? ok(entry.result.value) : err(entry.result.error)
+  }
+
+  const replayText = (
+    method: Method,
+    label: string | undefined,
+    messages: Message[],
+    onUsage: UsageCallback | undefined
+  ): Result<string, LLMError> => {
+    const result = replay(method, label, messages, onUsage)
+    if (!result.ok) return result
+    if (typeof result.value === 'string') return ok(result.value)
+    return err({ type: 'invalid_response', message: `Replay: recorded ${method} response is not text` })
+  }
+
+  return {
+    generate: async (messages, options) => replayText('generate', undefined, messages, options?.onUsage),
+    stream: async (messages, options) => replayText('stream', options?.label, messages, options?.onUsage),
+    generateStructured: async (messages, schema, options) => {
+      const result = replay('generateStructured', options?.label, messages, options?.onUsage)
+      if (!result.ok) return result
+
+      const validated = schema.safeParse(result.value)
+      return validated.success
+        ? ok(validated.data)
+        : err({
+          type: 'schema_validation',
+          message: 'Replay: recorded response does not match the requested schema',
+          details: validated.error.message,
+        })
+    },
+  }
+}
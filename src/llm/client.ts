@@ -1,146 +1,663 @@
 import { createOpenAI } from '@ai-sdk/openai'
-import { generateText } from 'ai'
+import { generateText, streamText, Output, tool, zodSchema } from 'ai'
 import type { z } from 'zod'
 import { type Result, ok, err } from '../utils/result.js'
 import type { LLMError } from '../schemas/common.js'
-import type { Config } from '../utils/config.js'
+import {
+  resolveAgentLLMConfig,
+  resolveLLMEndpoints,
+  type AgentName,
+  type Config,
+  type LLMEndpointConfig,
+} from '../utils/config.js'
+import { responseCacheKey, type ResponseCache } from './cache.js'
+import { findCapabilityProfile, withCapabilities, type CapabilityProfile } from './capabilities.js'
+import { parseModelJSON, extractThinking, type JSONRepair } from './jsonRepair.js'
+import type { TranscriptCallback } from './transcript.js'
 
 export type LLMClient = {
-  generate: (messages: Message[]) => Promise<Result<string, LLMError>>
+  generate: (messages: Message[], options?: GenerateOptions | undefined) => Promise<Result<string, LLMError>>
+  /** Like generate, but streams the completion and reports progress as it arrives */
+  stream: (messages: Message[], options?: StreamOptions | undefined) => Promise<Result<string, LLMError>>
   generateStructured: <Output, Def extends z.ZodTypeDef = z.ZodTypeDef, Input = Output>(
     messages: Message[],
     schema: z.ZodType<Output, Def, Input>,
-    options?: { retries?: number } | undefined
+    options?: StructuredOptions | undefined
   ) => Promise<Result<Output, LLMError>>
 }
 
+/**
+ * A function the model may call. Returns text that is sent back to the model.
+ */
+export type LLMTool = {
+  description: string
+  parameters: z.ZodTypeAny
+  execute: (args: unknown) => Promise<string>
+}
+
+export type LLMTools = Record<string, LLMTool>
+
+/**
+ * Progress of one streamed completion
+ */
+export type LLMProgress = {
+  /** Who the request is for, usually the agent name */
+  label?: string | undefined
+  /** Tokens generated so far (exact once done, when the server reports usage) */
+  tokens: number
+  elapsedMs: number
+  done: boolean
+}
+
+export type ProgressCallback = (progress: LLMProgress) => void
+
+export type UsageCallback = (usage: TokenUsage) => void
+
+export type GenerateOptions = {
+  /** Who the request is for, usually the agent name */
+  label?: string | undefined
+  /** The pipeline task the request is for, when there is one */
+  task?: string | undefined
+  /** Constrain the response to this schema via response_format (JSON Schema) */
+  responseSchema?: z.ZodTypeAny | undefined
+  /** Tools the model may call before giving its final answer */
+  tools?: LLMTools | undefined
+  /** Most model round trips when tools are given (default 5) */
+  maxSteps?: number | undefined
+  /** Receives the call's usage once it finishes, when the server reported any */
+  onUsage?: UsageCallback | undefined
+}
+
+export type StreamOptions = GenerateOptions & {
+  /** Overrides the client's progress callback for this request */
+  onProgress?: ProgressCallback | undefined
+}
+
+export type StructuredOptions = {
+  retries?: number | undefined
+  label?: string | undefined
+  task?: string | undefined
+  tools?: LLMTools | undefined
+  maxSteps?: number | undefined
+  onUsage?: UsageCallback | undefined
+  /** Receives the model's <think> reasoning, removed from the output before parsing, when it gave any */
+  onThinking?: ((thinking: string) => void) | undefined
+}
+
+/**
+ * An endpoint that was skipped because its request failed
+ */
+export type FailoverRecord = {
+  model: string
+  baseUrl: string
+  reason: string
+}
+
+/**
+ * How a structured response was salvaged: a JSON repair, or `continuation` when the
+ * response hit maxTokens and the model was asked to carry on
+ */
+export type OutputRepair = JSONRepair | 'continuation'
+
+/**
+ * Which endpoint served a call and what it cost, reported once per call.
+ * A failed call reports the last endpoint it tried.
+ */
+export type LLMCallRecord = {
+  label?: string | undefined
+  task?: string | undefined
+  model: string
+  baseUrl: string
+  /** Endpoints tried first, in order */
+  failedOver: FailoverRecord[]
+  /** No endpoint produced a usable response */
+  failed?: boolean | undefined
+  /**
+   * Tokens of every request the call sent: retries, continuations and endpoints failed over
+   * from included. Undefined when the server reported none; cache hits cost nothing.
+   */
+  usage?: TokenUsage | undefined
+  /** Wall time of the whole call */
+  durationMs: number
+  /** Structured requests only: fixes needed to get valid output */
+  repairs?: OutputRepair[] | undefined
+  /** Structured requests only: the model's <think> reasoning, removed from the output before parsing */
+  thinking?: string | undefined
+}
+
+export type LLMClientOptions = {
+  /** When set, structured requests are streamed and report progress here */
+  onProgress?: ProgressCallback | undefined
+  onCall?: ((record: LLMCallRecord) => void) | undefined
+  /** Replay identical requests from here instead of sending them */
+  cache?: ResponseCache | undefined
+  /** Probed by `doctor`; endpoints with a profile skip strategies their server doesn't support */
+  capabilities?: CapabilityProfile[] | undefined
+  /** Receives every request sent, with its raw response, and every structured output that failed to parse */
+  onTranscript?: TranscriptCallback | undefined
+}
+
 export type Message = {
   role: 'system' | 'user' | 'assistant'
   content: string
 }
 
+function formatZodError(error: z.ZodError): string {
+  return error.errors
+    .map((e) => `${e.path.join('.')}: ${e.message}`)
+    .join('\n')
+}
+
+const DEFAULT_MAX_STEPS = 5
+
+// Follow-up requests allowed for one structured response that keeps hitting maxTokens
+const MAX_CONTINUATIONS = 3
+
+const CONTINUE_PROMPT = 'Your response was cut off. Continue exactly where it stopped. Do not repeat anything or start over.'
+
+export type TokenUsage = {
+  promptTokens: number
+  completionTokens: number
+}
+
 /**
- * Try to parse JSON from LLM response, handling common issues
+ * A response's text, and whether it stopped at maxTokens instead of finishing
  */
-function tryParseJSON(text: string): unknown {
-  let cleaned = text.trim()
-
-  // Remove <think>...</think> blocks (Qwen3 thinking mode)
-  cleaned = cleaned.replace(/<think>[\s\S]*?<\/think>/g, '').trim()
+type Completion = {
+  text: string
+  truncated: boolean
+  /** Undefined when the server doesn't report usage */
+  usage?: TokenUsage | undefined
+}
 
-  // Handle ```json ... ``` or ``` ... ```
-  const fenceMatch = cleaned.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/)
-  if (fenceMatch?.[1]) {
-    cleaned = fenceMatch[1].trim()
-  }
+function toTokenUsage(usage: { promptTokens: number; completionTokens: number } | undefined): TokenUsage | undefined {
+  if (!usage || !Number.isFinite(usage.promptTokens) || !Number.isFinite(usage.completionTokens)) return undefined
+  return { promptTokens: usage.promptTokens, completionTokens: usage.completionTokens }
+}
 
-  // Find the outermost JSON object by matching balanced braces
-  const startIdx = cleaned.indexOf('{')
-  if (startIdx !== -1) {
-    let depth = 0
-    let endIdx = -1
-    let inString = false
-    let escape = false
+/**
+ * Adds up the usage of every completion one call receives
+ */
+type UsageMeter = {
+  add: (completion: Result<Completion, LLMError>) => void
+  total: () => TokenUsage | undefined
+}
 
-    for (let i = startIdx; i < cleaned.length; i++) {
-      const char = cleaned[i]
+function createUsageMeter(): UsageMeter {
+  let total: TokenUsage | undefined
 
-      if (escape) {
-        escape = false
-        continue
+  return {
+    add: (completion) => {
+      const usage = completion.ok ? completion.value.usage : undefined
+      if (!usage) return
+      total = {
+        promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+        completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
       }
+    },
+    total: () => total,
+  }
+}
 
-      if (char === '\\' && inString) {
-        escape = true
-        continue
-      }
+/**
+ * Define a tool with typed arguments, validated against `parameters` before `execute` runs
+ */
+export function defineTool<Parameters extends z.ZodTypeAny>(definition: {
+  description: string
+  parameters: Parameters
+  execute: (args: z.infer<Parameters>) => string | Promise<string>
+}): LLMTool {
+  return {
+    description: definition.description,
+    parameters: definition.parameters,
+    execute: async (args) => definition.execute(definition.parameters.parse(args)),
+  }
+}
 
-      if (char === '"') {
-        inString = !inString
-        continue
-      }
+function toSdkTools(tools: LLMTools) {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, definition]) => [
+      name,
+      tool({
+        description: definition.description,
+        parameters: definition.parameters,
+        execute: (args: unknown) => definition.execute(args),
+      }),
+    ])
+  )
+}
 
-      if (!inString) {
-        if (char === '{') depth++
-        else if (char === '}') {
-          depth--
-          if (depth === 0) {
-            endIdx = i
-            break
-          }
-        }
-      }
-    }
+/**
+ * Tag every request made through `llm` with a label for progress reporting,
+ * and the task it is for in call records
+ */
+export function labelLLMClient(llm: LLMClient, label: string, task?: string): LLMClient {
+  return {
+    generate: (messages, options = {}) => llm.generate(messages, { label, task, ...options }),
+    stream: (messages, options = {}) => llm.stream(messages, { label, task, ...options }),
+    generateStructured: (messages, schema, options = {}) =>
+      llm.generateStructured(messages, schema, { label, task, ...options }),
+  }
+}
+
+/**
+ * Clients for agents with their own `agents.<name>.llm` settings. Agents without
+ * overrides are left out and use the shared client.
+ */
+export function createAgentLLMClients(
+  config: Config,
+  clientOptions: LLMClientOptions = {}
+): Partial<Record<AgentName, LLMClient>> {
+  const clients: Partial<Record<AgentName, LLMClient>> = {}
 
-    if (endIdx !== -1) {
-      cleaned = cleaned.slice(startIdx, endIdx + 1)
+  for (const agent of Object.keys(config.agents) as AgentName[]) {
+    if (config.agents[agent].llm) {
+      clients[agent] = createLLMClient(resolveAgentLLMConfig(config, agent), clientOptions)
     }
   }
 
-  return JSON.parse(cleaned)
+  return clients
 }
 
-function formatZodError(error: z.ZodError): string {
-  return error.errors
-    .map((e) => `${e.path.join('.')}: ${e.message}`)
-    .join('\n')
+type Endpoint = {
+  config: LLMEndpointConfig
+  model: ReturnType<ReturnType<typeof createOpenAI>>
+  /** Cleared in auto mode once the server rejects a schema-constrained request */
+  sendSchema: boolean
+  /** False when the capability profile says the server can't stream */
+  streaming: boolean
 }
 
-export function createLLMClient(config: Config['llm']): LLMClient {
+function createEndpoint(config: LLMEndpointConfig, profiles: CapabilityProfile[]): Endpoint {
   const provider = createOpenAI({
     baseURL: config.baseUrl,
     apiKey: config.apiKey || 'not-needed',
   })
 
-  const model = provider(config.model)
+  // structuredOutputs makes the provider send the full JSON schema instead of plain json_object
+  const sendSchema = config.structuredOutput !== 'off'
+  return {
+    config,
+    model: provider(config.model, { structuredOutputs: sendSchema }),
+    sendSchema,
+    streaming: findCapabilityProfile(profiles, config)?.streaming ?? true,
+  }
+}
+
+/**
+ * Errors that say nothing about the request itself (the server is down, too slow or
+ * overloaded), so another endpoint, or the same one later, may succeed
+ */
+export const isUnavailable = (error: LLMError) =>
+  error.type === 'connection' || error.type === 'timeout' || error.type === 'rate_limit' || error.type === 'server_error'
+
+// The server refused the response_format itself (no guided decoding), not the request as a whole
+const rejectsSchema = (error: LLMError) =>
+  error.type === 'invalid_response' && /response_format|json_schema|guided/i.test(String(error.details))
+
+// Worth re-sending to the same endpoint after a pause
+const isTransient = (error: LLMError) => error.type === 'rate_limit' || error.type === 'server_error'
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * How long to wait before retry number `attempt` (0-based): the server's Retry-After
+ * when it sent one, otherwise exponential backoff; either way capped at retryMaxDelayMs
+ */
+export function retryDelay(
+  config: Pick<LLMEndpointConfig, 'retryBaseDelayMs' | 'retryMaxDelayMs'>,
+  attempt: number,
+  retryAfterMs?: number | undefined,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, config.retryMaxDelayMs)
+  const backoff = Math.min(config.retryMaxDelayMs, config.retryBaseDelayMs * 2 ** attempt)
+  // Randomize half of the delay so concurrent tasks don't retry in lockstep
+  return backoff / 2 + (random() * backoff) / 2
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const THINKING_SWITCHES = { on: '/think', off: '/no_think' } as const
+
+/**
+ * Add the Qwen3 soft switch for the endpoint's thinking mode to the end of the system prompt
+ */
+function applyThinkingMode(mode: LLMEndpointConfig['thinking'], messages: Message[]): Message[] {
+  if (mode === 'default') return messages
+
+  const command = THINKING_SWITCHES[mode]
+  const index = messages.findIndex((message) => message.role === 'system')
+  if (index === -1) return [{ role: 'system', content: command }, ...messages]
+  return messages.map((message, i) => (i === index ? { ...message, content: `${message.content}\n${command}` } : message))
+}
+
+export function createLLMClient(config: Config['llm'], clientOptions: LLMClientOptions = {}): LLMClient {
+  const profiles = clientOptions.capabilities ?? []
+  const endpoints = resolveLLMEndpoints(config).map((endpoint) => createEndpoint(withCapabilities(endpoint, profiles), profiles))
+
+  // The SDK converts the zod schema to JSON Schema; the text is still parsed and validated below
+  const outputFor = (endpoint: Endpoint, schema: z.ZodTypeAny | undefined) =>
+    schema && endpoint.sendSchema ? { experimental_output: Output.object({ schema }) } : {}
+
+  // Guided decoding on most local servers suppresses tool calls, so tool requests
+  // leave the output format to the prompt
+  const requestOptions = (endpoint: Endpoint, options: GenerateOptions) => options.tools
+    ? { tools: toSdkTools(options.tools), maxSteps: options.maxSteps ?? DEFAULT_MAX_STEPS }
+    : outputFor(endpoint, options.responseSchema)
+
+  const toLLMError = (e: unknown, endpoint: Endpoint): LLMError => {
+    // The SDK's APICallError carries the HTTP status and response headers
+    const error = e as Error & {
+      cause?: unknown
+      code?: string
+      status?: number
+      statusCode?: number
+      responseHeaders?: Record<string, string>
+    }
+    const errorMsg = error.message || String(e)
+    const status = error.statusCode ?? error.status
+    const errorDetails = [
+      errorMsg,
+      error.cause ? `Cause: ${String(error.cause)}` : '',
+      error.code ? `Code: ${error.code}` : '',
+      status ? `Status: ${status}` : '',
+    ].filter(Boolean).join('; ')
+
+    // Raised by the abort signal set from requestTimeoutMs
+    if (error.name === 'TimeoutError') {
+      return {
+        type: 'timeout',
+        message: `LLM request timed out after ${endpoint.config.requestTimeoutMs}ms`,
+        details: errorDetails,
+      }
+    }
+    if (errorMsg.includes('ECONNREFUSED') || errorMsg.includes('fetch failed') || errorMsg.includes('Cannot connect to API')) {
+      return {
+        type: 'connection',
+        message: `Failed to connect to LLM server at ${endpoint.config.baseUrl}`,
+        details: errorDetails,
+      }
+    }
+    if (status === 429 || (status !== undefined && status >= 500)) {
+      const retryAfterMs = parseRetryAfter(error.responseHeaders?.['retry-after'])
+      return {
+        type: status === 429 ? 'rate_limit' : 'server_error',
+        message: status === 429 ? 'LLM server rate limit exceeded' : `LLM server error (${status})`,
+        details: errorDetails,
+        ...(retryAfterMs !== undefined && { retryAfterMs }),
+      }
+    }
+    return {
+      type: 'invalid_response',
+      message: 'Unexpected LLM error',
+      details: errorDetails || 'No error details available',
+    }
+  }
+
+  /**
+   * Re-send after rate limits and server errors, up to the endpoint's maxRetries
+   */
+  const withRetries = async <T>(
+    endpoint: Endpoint,
+    send: (attempt: number) => Promise<Result<T, LLMError>>
+  ): Promise<Result<T, LLMError>> => {
+    for (let attempt = 0; ; attempt++) {
+      const result = await send(attempt)
+      if (result.ok || !isTransient(result.error)) return result
+      if (attempt >= endpoint.config.maxRetries) {
+        return err({ ...result.error, attempt: attempt + 1 })
+      }
+      await sleep(retryDelay(endpoint.config, attempt, result.error.retryAfterMs))
+    }
+  }
+
+  // The SDK's own retries are disabled so withRetries alone decides when to re-send
+  const requestLimits = (endpoint: Endpoint) => ({
+    maxRetries: 0,
+    abortSignal: AbortSignal.timeout(endpoint.config.requestTimeoutMs),
+  })
+
+  /**
+   * Send a request to each endpoint in turn until one succeeds or fails in a way
+   * `canFailOver` says another endpoint won't fix
+   */
+  const withFailover = async <T>(
+    options: Pick<GenerateOptions, 'label' | 'task' | 'onUsage'>,
+    canFailOver: (error: LLMError) => boolean,
+    request: (endpoint: Endpoint, meter: UsageMeter) => Promise<Result<T, LLMError>>,
+    describe: (value: T) => Pick<LLMCallRecord, 'repairs' | 'thinking'> = () => ({})
+  ): Promise<Result<T, LLMError>> => {
+    const failedOver: FailoverRecord[] = []
+    const meter = createUsageMeter()
+    const startedAt = Date.now()
+    let result: Result<T, LLMError> = err({ type: 'connection', message: 'No LLM endpoints configured' })
+
+    const report = (endpoint: Endpoint, outcome: Partial<LLMCallRecord>) => {
+      const usage = meter.total()
+      if (usage) options.onUsage?.(usage)
+      clientOptions.onCall?.({
+        label: options.label,
+        task: options.task,
+        model: endpoint.config.model,
+        baseUrl: endpoint.config.baseUrl,
+        failedOver,
+        usage,
+        durationMs: Date.now() - startedAt,
+        ...outcome,
+      })
+    }
+
+    for (const [index, endpoint] of endpoints.entries()) {
+      result = await request(endpoint, meter)
+      if (result.ok) {
+        report(endpoint, describe(result.value))
+        return result
+      }
+      if (!canFailOver(result.error) || index === endpoints.length - 1) {
+        report(endpoint, { failed: true })
+        break
+      }
+      failedOver.push({ model: endpoint.config.model, baseUrl: endpoint.config.baseUrl, reason: result.error.message })
+    }
+
+    return result
+  }
 
-  const generate = async (messages: Message[]): Promise<Result<string, LLMError>> => {
+  const generateOnce = async (
+    endpoint: Endpoint,
+    messages: Message[],
+    options: GenerateOptions
+  ): Promise<Result<Completion, LLMError>> => {
     try {
       const response = await generateText({
-        model,
+        model: endpoint.model,
         messages,
-        maxTokens: config.maxTokens,
-        temperature: config.temperature,
+        maxTokens: endpoint.config.maxTokens,
+        temperature: endpoint.config.temperature,
+        ...requestLimits(endpoint),
+        ...requestOptions(endpoint, options),
       })
 
-      return ok(response.text)
+      // With tools, the answer is the text of the final step
+      return ok({ text: response.text, truncated: response.finishReason === 'length', usage: toTokenUsage(response.usage) })
     } catch (e) {
-      const error = e as Error & { cause?: unknown; code?: string; status?: number }
-      const errorMsg = error.message || String(e)
-      const errorDetails = [
-        errorMsg,
-        error.cause ? `Cause: ${String(error.cause)}` : '',
-        error.code ? `Code: ${error.code}` : '',
-        error.status ? `Status: ${error.status}` : '',
-      ].filter(Boolean).join('; ')
-
-      if (errorMsg.includes('ECONNREFUSED') || errorMsg.includes('fetch failed')) {
-        return err({
-          type: 'connection',
-          message: `Failed to connect to LLM server at ${config.baseUrl}`,
-          details: errorDetails,
-        })
-      }
-      if (errorMsg.includes('timeout')) {
-        return err({
-          type: 'timeout',
-          message: 'LLM request timed out',
-          details: errorDetails,
-        })
+      return err(toLLMError(e, endpoint))
+    }
+  }
+
+  const streamOnce = async (
+    endpoint: Endpoint,
+    messages: Message[],
+    options: StreamOptions
+  ): Promise<Result<Completion, LLMError>> => {
+    const onProgress = options.onProgress ?? clientOptions.onProgress
+    const startedAt = Date.now()
+    let text = ''
+    let tokens = 0
+    let truncated = false
+    let usage: TokenUsage | undefined
+
+    onProgress?.({ label: options.label, tokens, elapsedMs: 0, done: false })
+    try {
+      const response = streamText({
+        model: endpoint.model,
+        messages,
+        maxTokens: endpoint.config.maxTokens,
+        temperature: endpoint.config.temperature,
+        ...requestLimits(endpoint),
+        ...requestOptions(endpoint, options),
+        // Errors arrive as stream parts below; don't let the SDK log them too
+        onError: () => {},
+      })
+
+      for await (const part of response.fullStream) {
+        if (part.type === 'step-start') {
+          // Only the final step's text is the answer; earlier steps end in tool calls
+          text = ''
+        } else if (part.type === 'text-delta') {
+          text += part.textDelta
+          // Servers send roughly one token per delta
+          tokens++
+          onProgress?.({ label: options.label, tokens, elapsedMs: Date.now() - startedAt, done: false })
+        } else if (part.type === 'finish') {
+          truncated = part.finishReason === 'length'
+          usage = toTokenUsage(part.usage)
+          if (Number.isFinite(part.usage.completionTokens)) {
+            tokens = part.usage.completionTokens
+          }
+        } else if (part.type === 'error') {
+          throw part.error
+        }
       }
-      return err({
-        type: 'invalid_response',
-        message: 'Unexpected LLM error',
-        details: errorDetails || 'No error details available',
+
+      return ok({ text, truncated, usage })
+    } catch (e) {
+      return err(toLLMError(e, endpoint))
+    } finally {
+      onProgress?.({ label: options.label, tokens, elapsedMs: Date.now() - startedAt, done: true })
+    }
+  }
+
+  // Tool requests depend on what the model reads from the repository, so they are never cached,
+  // and neither are cut-off responses
+  const withCache = async (
+    endpoint: Endpoint,
+    messages: Message[],
+    options: GenerateOptions,
+    send: () => Promise<Result<Completion, LLMError>>
+  ): Promise<Result<Completion, LLMError>> => {
+    const cache = clientOptions.cache
+    if (!cache || options.tools) return send()
+
+    const { baseUrl, model, temperature, maxTokens } = endpoint.config
+    const schema = options.responseSchema
+    const key = responseCacheKey({
+      baseUrl,
+      model,
+      temperature,
+      maxTokens,
+      messages,
+      output: schema && endpoint.sendSchema ? 'json_schema' : 'text',
+      schema: schema && zodSchema(schema).jsonSchema,
+    })
+    const hit = cache.get(key)
+    if (hit !== undefined) {
+      clientOptions.onTranscript?.({
+        type: 'request',
+        timestamp: new Date().toISOString(),
+        label: options.label,
+        model,
+        baseUrl,
+        attempt: 0,
+        stream: false,
+        messages,
+        latencyMs: 0,
+        response: hit,
+        cached: true,
       })
+      return ok({ text: hit, truncated: false })
     }
+
+    const result = await send()
+    if (result.ok && !result.value.truncated) cache.set(key, model, result.value.text)
+    return result
   }
 
-  const generateStructured = async <Output, Def extends z.ZodTypeDef = z.ZodTypeDef, Input = Output>(
+  // Report one request with its raw response, timing and usage to the transcript
+  const transcribe = async (
+    endpoint: Endpoint,
+    messages: Message[],
+    options: GenerateOptions,
+    request: { attempt: number; stream: boolean },
+    send: () => Promise<Result<Completion, LLMError>>
+  ): Promise<Result<Completion, LLMError>> => {
+    if (!clientOptions.onTranscript) return send()
+
+    const startedAt = Date.now()
+    const result = await send()
+    clientOptions.onTranscript({
+      type: 'request',
+      timestamp: new Date(startedAt).toISOString(),
+      label: options.label,
+      model: endpoint.config.model,
+      baseUrl: endpoint.config.baseUrl,
+      ...request,
+      messages,
+      latencyMs: Date.now() - startedAt,
+      ...(result.ok
+        ? { response: result.value.text, truncated: result.value.truncated, usage: result.value.usage }
+        : { error: result.error }),
+    })
+    return result
+  }
+
+  const generateOn = async (endpoint: Endpoint, meter: UsageMeter, messages: Message[], options: GenerateOptions = {}) => {
+    const prepared = applyThinkingMode(endpoint.config.thinking, messages)
+    const result = await withCache(endpoint, prepared, options, () =>
+      withRetries(endpoint, (attempt) => transcribe(endpoint, prepared, options, { attempt, stream: false }, () =>
+        generateOnce(endpoint, prepared, options))))
+    meter.add(result)
+    return result
+  }
+
+  const streamOn = async (endpoint: Endpoint, meter: UsageMeter, messages: Message[], options: StreamOptions = {}) => {
+    const prepared = applyThinkingMode(endpoint.config.thinking, messages)
+    const result = await withCache(endpoint, prepared, options, () =>
+      withRetries(endpoint, (attempt) => transcribe(endpoint, prepared, options, { attempt, stream: true }, () =>
+        streamOnce(endpoint, prepared, options))))
+    meter.add(result)
+    return result
+  }
+
+  const textOf = async (completion: Promise<Result<Completion, LLMError>>): Promise<Result<string, LLMError>> => {
+    const result = await completion
+    return result.ok ? ok(result.value.text) : result
+  }
+
+  const generate = (messages: Message[], options: GenerateOptions = {}) =>
+    withFailover(options, isUnavailable, (endpoint, meter) => textOf(generateOn(endpoint, meter, messages, options)))
+
+  const stream = (messages: Message[], options: StreamOptions = {}) =>
+    withFailover(options, isUnavailable, (endpoint, meter) =>
+      textOf(endpoint.streaming ? streamOn(endpoint, meter, messages, options) : generateOn(endpoint, meter, messages, options)))
+
+  const structuredOn = async <Output, Def extends z.ZodTypeDef = z.ZodTypeDef, Input = Output>(
+    endpoint: Endpoint,
+    meter: UsageMeter,
     messages: Message[],
     schema: z.ZodType<Output, Def, Input>,
-    options: { retries?: number } = {}
-  ): Promise<Result<Output, LLMError>> => {
+    options: StructuredOptions = {}
+  ): Promise<Result<{ value: Output; repairs: OutputRepair[]; thinking: string | undefined }, LLMError>> => {
     const maxRetries = options.retries ?? 3
     let lastError: string | undefined
 
@@ -155,11 +672,25 @@ export function createLLMClient(config: Config['llm']): LLMClient {
         })
       }
 
-      const result = await generate(currentMessages)
+      // Stream when someone is watching progress; the final text is validated either way
+      const send = (sendMessages: Message[], sendOptions: GenerateOptions) =>
+        clientOptions.onProgress && endpoint.streaming
+          ? streamOn(endpoint, meter, sendMessages, { label: options.label, ...sendOptions })
+          : generateOn(endpoint, meter, sendMessages, { label: options.label, ...sendOptions })
+
+      const toolOptions = { tools: options.tools, maxSteps: options.maxSteps }
+      const constrained = endpoint.sendSchema && !options.tools
+      let result = await send(currentMessages, { responseSchema: schema, ...toolOptions })
+
+      // Servers without guided decoding reject response_format; fall back to parsing the prompt-guided text
+      if (!result.ok && constrained && endpoint.config.structuredOutput === 'auto' && rejectsSchema(result.error)) {
+        endpoint.sendSchema = false
+        result = await send(currentMessages, toolOptions)
+      }
 
       if (!result.ok) {
-        // Don't retry on connection errors
-        if (result.error.type === 'connection') {
+        // The endpoint is down, overloaded or too slow (rate limits were already retried); the next one may answer
+        if (isUnavailable(result.error)) {
           return result
         }
         // Preserve the actual error details, not just the generic message
@@ -168,18 +699,44 @@ export function createLLMClient(config: Config['llm']): LLMClient {
         continue
       }
 
+      // A response cut off at maxTokens is mostly good; ask for the rest instead of starting over.
+      // The follow-ups go out without the schema, which would make the model open a new object.
+      let { text, truncated } = result.value
+      const repairs: OutputRepair[] = []
+      for (let continuation = 0; truncated && continuation < MAX_CONTINUATIONS; continuation++) {
+        const next = await send([
+          ...currentMessages,
+          { role: 'assistant', content: text },
+          { role: 'user', content: CONTINUE_PROMPT },
+        ], {})
+        if (!next.ok) break
+        text += next.value.text
+        truncated = next.value.truncated
+        if (!repairs.includes('continuation')) repairs.push('continuation')
+      }
+
       try {
-        const parsed = tryParseJSON(result.value)
-        const validated = schema.safeParse(parsed)
+        const parsed = parseModelJSON(text)
+        const validated = schema.safeParse(parsed.value)
 
         if (validated.success) {
-          return ok(validated.data)
+          return ok({ value: validated.data, repairs: [...repairs, ...parsed.repairs], thinking: extractThinking(text) })
         }
 
         lastError = formatZodError(validated.error)
       } catch (e) {
         lastError = `JSON parse error: ${(e as Error).message}`
       }
+
+      clientOptions.onTranscript?.({
+        type: 'parse_error',
+        timestamp: new Date().toISOString(),
+        label: options.label,
+        model: endpoint.config.model,
+        baseUrl: endpoint.config.baseUrl,
+        attempt,
+        error: lastError,
+      })
     }
 
     return err({
@@ -190,5 +747,26 @@ export function createLLMClient(config: Config['llm']): LLMClient {
     })
   }
 
-  return { generate, generateStructured }
+  // A model that keeps producing invalid output is worth swapping for the next one too
+  const generateStructured = async <Output, Def extends z.ZodTypeDef = z.ZodTypeDef, Input = Output>(
+    messages: Message[],
+    schema: z.ZodType<Output, Def, Input>,
+    options: StructuredOptions = {}
+  ): Promise<Result<Output, LLMError>> => {
+    const result = await withFailover(
+      options,
+      (error) => isUnavailable(error) || error.type === 'schema_validation',
+      (endpoint, meter) => structuredOn(endpoint, meter, messages, schema, options),
+      ({ repairs, thinking }) => ({
+        ...(repairs.length > 0 && { repairs }),
+        ...(thinking !== undefined && { thinking }),
+      })
+    )
+    if (!result.ok) return result
+
+    if (result.value.thinking !== undefined) options.onThinking?.(result.value.thinking)
+    return ok(result.value.value)
+  }
+
+  return { generate, stream, generateStructured }
 }
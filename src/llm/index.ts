@@ -1 +1,9 @@
 export * from './client.js'
+export * from './callLog.js'
+export * from './cache.js'
+export * from './cassette.js'
+export * from './jsonRepair.js'
+export * from './capabilities.js'
+export * from './probe.js'
+export * from './transcript.js'
+export * from './usage.js'
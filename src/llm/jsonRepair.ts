@@ -0,0 +1,156 @@
+/**
+ * Fixes applied to model output before it parsed as JSON
+ */
+export type JSONRepair = 'trailing_commas' | 'control_characters_in_strings' | 'single_quotes'
+
+export type ParsedJSON = {
+  value: unknown
+  /** Empty when the text parsed as-is */
+  repairs: JSONRepair[]
+}
+
+/**
+ * The reasoning in a response's <think> blocks, or undefined when it has none
+ */
+export function extractThinking(text: string): string | undefined {
+  const blocks = [...text.matchAll(/<think>([\s\S]*?)<\/think>/g)]
+    .map((match) => match[1]?.trim() ?? '')
+    .filter((block) => block.length > 0)
+  return blocks.length > 0 ? blocks.join('\n\n') : undefined
+}
+
+/**
+ * Cut the JSON object out of a model response: drop <think> blocks and
+ * markdown fences, then keep the outermost balanced braces
+ */
+export function extractJSON(text: string): string {
+  let cleaned = text.trim()
+
+  // Remove <think>...</think> blocks (Qwen3 thinking mode)
+  cleaned = cleaned.replace(/<think>[\s\S]*?<\/think>/g, '').trim()
+
+  // Handle ```json ... ``` or ``` ... ```
+  const fenceMatch = cleaned.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/)
+  if (fenceMatch?.[1]) {
+    cleaned = fenceMatch[1].trim()
+  }
+
+  // Find the outermost JSON object by matching balanced braces
+  const startIdx = cleaned.indexOf('{')
+  if (startIdx !== -1) {
+    let depth = 0
+    let endIdx = -1
+    let inString = false
+    let escape = false
+
+    for (let i = startIdx; i < cleaned.length; i++) {
+      const char = cleaned[i]
+
+      if (escape) {
+        escape = false
+        continue
+      }
+
+      if (char === '\\' && inString) {
+        escape = true
+        continue
+      }
+
+      if (char === '"') {
+        inString = !inString
+        continue
+      }
+
+      if (!inString) {
+        if (char === '{') depth++
+        else if (char === '}') {
+          depth--
+          if (depth === 0) {
+            endIdx = i
+            break
+          }
+        }
+      }
+    }
+
+    if (endIdx !== -1) {
+      cleaned = cleaned.slice(startIdx, endIdx + 1)
+    }
+  }
+
+  return cleaned
+}
+
+// Sticky: matches only at lastIndex, so checking after each comma stays linear
+const CLOSING_BRACKET = /\s*[}\]]/y
+
+const CONTROL_ESCAPES: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\t': '\\t' }
+
+/**
+ * Rewrite the JSON-like mistakes models commonly make: trailing commas, raw newlines
+ * and other control characters inside strings, and single-quoted strings or keys
+ */
+function normalizeJSON(text: string): { text: string; repairs: Set<JSONRepair> } {
+  const repairs = new Set<JSONRepair>()
+  let output = ''
+  let quote: '"' | "'" | undefined
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] ?? ''
+
+    if (quote) {
+      if (char === '\\') {
+        const next = text[i + 1] ?? ''
+        // \' is not a JSON escape; inside a converted string the quote needs none
+        output += quote === "'" && next === "'" ? "'" : `${char}${next}`
+        i++
+      } else if (char === quote) {
+        output += '"'
+        quote = undefined
+      } else if (quote === "'" && char === '"') {
+        output += '\\"'
+      } else if (char < ' ') {
+        output += CONTROL_ESCAPES[char] ?? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+        repairs.add('control_characters_in_strings')
+      } else {
+        output += char
+      }
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char
+      output += '"'
+      if (char === "'") repairs.add('single_quotes')
+      continue
+    }
+
+    if (char === ',') {
+      CLOSING_BRACKET.lastIndex = i + 1
+      if (CLOSING_BRACKET.test(text)) {
+        repairs.add('trailing_commas')
+        continue
+      }
+    }
+
+    output += char
+  }
+
+  return { text: output, repairs }
+}
+
+/**
+ * Parse JSON from a model response, repairing common defects when the text
+ * doesn't parse as-is. Throws a SyntaxError when it can't be repaired.
+ */
+export function parseModelJSON(text: string): ParsedJSON {
+  const extracted = extractJSON(text)
+
+  try {
+    return { value: JSON.parse(extracted), repairs: [] }
+  } catch (e) {
+    const normalized = normalizeJSON(extracted)
+    if (normalized.repairs.size === 0) throw e
+    return { value: JSON.parse(normalized.text), repairs: [...normalized.repairs] }
+  }
+}
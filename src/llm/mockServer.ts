@@ -0,0 +1,253 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { AgentName } from '../utils/config.js'
+import type { Message } from './client.js'
+
+/**
+ * Failures a rule can inject instead of answering:
+ * - `timeout`: never respond, so the client's requestTimeoutMs fires
+ * - `rate_limit`: HTTP 429 with a Retry-After header
+ * - `server_error`: HTTP 500
+ * - `malformed_json`: a 200 response whose content is cut-off JSON
+ */
+export type MockFault = 'timeout' | 'rate_limit' | 'server_error' | 'malformed_json'
+
+export type MockRule = {
+  /** Only answer this agent's requests, recognized by its system prompt */
+  agent?: AgentName | undefined
+  /** Only answer requests whose messages contain this text or match this pattern */
+  match?: string | RegExp | undefined
+  /** Sent as the message content: strings as-is, anything else as JSON */
+  response?: unknown
+  fault?: MockFault | undefined
+  /** Answer at most this many requests, then let later rules match; unlimited by default */
+  times?: number | undefined
+  /** Wait this long before answering */
+  delayMs?: number | undefined
+}
+
+export type MockRequest = {
+  agent: AgentName | undefined
+  messages: Message[]
+  stream: boolean
+  /** Index of the rule that answered, undefined when none matched */
+  rule: number | undefined
+}
+
+export type MockLLMServer = {
+  /** OpenAI-style base URL ending in /v1, for `llm.baseUrl` */
+  baseUrl: string
+  /** Every chat completion request received, in order */
+  requests: MockRequest[]
+  close: () => Promise<void>
+}
+
+export type MockLLMServerOptions = {
+  /** Checked in order; the first matching rule with uses left answers */
+  rules: MockRule[]
+  /** 0 picks a free port */
+  port?: number | undefined
+  /** Model name reported by /v1/models and in responses */
+  model?: string | undefined
+  /** Retry-After sent with `rate_limit` faults */
+  retryAfterSeconds?: number | undefined
+  /** Reported as the model's max_model_len by /v1/models, like vLLM */
+  contextWindow?: number | undefined
+}
+
+// The opening line of each agent's system prompt in src/prompts
+const AGENT_SIGNATURES: [AgentName, string][] = [
+  ['planner', 'You are a software planning agent'],
+  ['architect', 'You are a software architect agent'],
+  ['coder', 'You are a software coder agent'],
+  ['reviewer', 'You are a code reviewer agent'],
+]
+
+function detectAgent(messages: Message[]): AgentName | undefined {
+  const system = messages.find((message) => message.role === 'system')?.content ?? ''
+  return AGENT_SIGNATURES.find(([, signature]) => system.startsWith(signature))?.[0]
+}
+
+function matches(rule: MockRule, agent: AgentName | undefined, messages: Message[]): boolean {
+  if (rule.agent !== undefined && rule.agent !== agent) return false
+  if (rule.match === undefined) return true
+
+  const text = messages.map((message) => message.content).join('\n')
+  return typeof rule.match === 'string' ? text.includes(rule.match) : rule.match.test(text)
+}
+
+/**
+ * Responses for a one-task run that creates `path` with `content` and passes review
+ */
+export function cannedPipelineRules(path = 'src/example.ts', content = 'export const example = true\n'): MockRule[] {
+  return [
+    {
+      agent: 'planner',
+      response: {
+        tasks: [{ id: 'task-1', title: `Create ${path}`, description: `Create ${path}`, dependsOn: [], estimatedFiles: [path] }],
+      },
+    },
+    {
+      agent: 'architect',
+      response: { files: [{ path, operation: 'create', description: `Create ${path}` }], reasoning: 'New file' },
+    },
+    { agent: 'coder', response: { changes: [{ path, content }] } },
+    { agent: 'reviewer', response: { passed: true, issues: [], summary: 'Looks good' } },
+  ]
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    request.setEncoding('utf-8')
+    request.on('data', (chunk: string) => {
+      body += chunk
+    })
+    request.on('end', () => resolve(body))
+    request.on('error', reject)
+  })
+}
+
+function sendJSON(response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  response.writeHead(status, { 'content-type': 'application/json', ...headers })
+  response.end(JSON.stringify(body))
+}
+
+function sendError(response: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  sendJSON(response, status, { error: { message, type: status === 429 ? 'rate_limit_error' : 'invalid_request_error' } }, headers)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * A scripted stand-in for an OpenAI-compatible server: answers `/v1/chat/completions`
+ * (plain and streaming) and `/v1/models` from the given rules, so the pipeline can run
+ * end to end without a model. A request no rule matches gets HTTP 400 naming its agent.
+ */
+export function startMockLLMServer(options: MockLLMServerOptions): Promise<MockLLMServer> {
+  const model = options.model ?? 'mock-model'
+  const uses = options.rules.map(() => 0)
+  const requests: MockRequest[] = []
+
+  const complete = (response: ServerResponse, content: string, stream: boolean): void => {
+    const id = `chatcmpl-mock-${requests.length}`
+    const created = Math.floor(Date.now() / 1000)
+    // Rough counts are enough for progress reporting
+    const usage = { prompt_tokens: 0, completion_tokens: Math.ceil(content.length / 4), total_tokens: Math.ceil(content.length / 4) }
+
+    if (!stream) {
+      sendJSON(response, 200, {
+        id,
+        object: 'chat.completion',
+        created,
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage,
+      })
+      return
+    }
+
+    const chunk = (delta: Record<string, string>, finishReason: string | null, extra: Record<string, unknown> = {}) =>
+      `data: ${JSON.stringify({
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...extra,
+      })}\n\n`
+
+    response.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' })
+    response.write(chunk({ role: 'assistant', content: '' }, null))
+    // A few pieces, so clients see more than one delta
+    const size = Math.max(1, Math.ceil(content.length / 4))
+    for (let i = 0; i < content.length; i += size) {
+      response.write(chunk({ content: content.slice(i, i + size) }, null))
+    }
+    response.write(chunk({}, 'stop', { usage }))
+    response.end('data: [DONE]\n\n')
+  }
+
+  const handleCompletion = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    let body: { messages?: Message[]; stream?: boolean }
+    try {
+      body = JSON.parse(await readBody(request)) as typeof body
+    } catch {
+      sendError(response, 400, 'Request body is not JSON')
+      return
+    }
+
+    // Assistant messages that only carry tool calls have no text content
+    const messages = (body.messages ?? []).map((message) => ({
+      role: message.role,
+      content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? ''),
+    }))
+    const stream = body.stream === true
+    const agent = detectAgent(messages)
+    const index = options.rules.findIndex((rule, i) =>
+      (rule.times === undefined || (uses[i] ?? 0) < rule.times) && matches(rule, agent, messages)
+    )
+    const rule = options.rules[index]
+    requests.push({ agent, messages, stream, rule: rule ? index : undefined })
+
+    if (!rule) {
+      sendError(response, 400, `Mock LLM server: no rule matches this ${agent ?? 'unrecognized'} request`)
+      return
+    }
+    uses[index] = (uses[index] ?? 0) + 1
+
+    if (rule.delayMs) await sleep(rule.delayMs)
+
+    switch (rule.fault) {
+      case 'timeout':
+        // Leave the request open; the client gives up, or close() drops the connection
+        return
+      case 'rate_limit':
+        sendError(response, 429, 'Mock LLM server: rate limited', { 'retry-after': String(options.retryAfterSeconds ?? 0) })
+        return
+      case 'server_error':
+        sendError(response, 500, 'Mock LLM server: internal error')
+        return
+      case 'malformed_json': {
+        const text = typeof rule.response === 'string' ? rule.response : JSON.stringify(rule.response ?? { status: 'ok' })
+        complete(response, text.slice(0, Math.max(1, Math.floor(text.length / 2))), stream)
+        return
+      }
+      default:
+        complete(response, typeof rule.response === 'string' ? rule.response : JSON.stringify(rule.response ?? null), stream)
+    }
+  }
+
+  const server = createServer((request, response) => {
+    const path = request.url?.split('?')[0] ?? ''
+
+    if (request.method === 'GET' && path === '/v1/models') {
+      sendJSON(response, 200, {
+        object: 'list',
+        data: [{ id: model, object: 'model', owned_by: 'mock', ...(options.contextWindow && { max_model_len: options.contextWindow }) }],
+      })
+    } else if (request.method === 'POST' && path === '/v1/chat/completions') {
+      handleCompletion(request, response).catch((e: unknown) => {
+        if (!response.headersSent) sendError(response, 500, `Mock LLM server: ${(e as Error).message}`)
+      })
+    } else {
+      sendError(response, 404, `Mock LLM server: no route for ${request.method} ${path}`)
+    }
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () => new Promise<void>((resolveClose) => {
+          // Requests held open by `timeout` faults would otherwise keep the server alive
+          server.closeAllConnections()
+          server.close(() => resolveClose())
+        }),
+      })
+    })
+  })
+}
@@ -0,0 +1,130 @@
+import { z } from 'zod'
+import type { LLMEndpointConfig } from '../utils/config.js'
+import type { LLMError } from '../schemas/common.js'
+import { type Result, ok, err } from '../utils/result.js'
+import type { CapabilityProfile } from './capabilities.js'
+import { createLLMClient, defineTool, isUnavailable } from './client.js'
+
+const PROBE_CODE = 'probe-7319'
+
+// Fields servers use to report a model's context length in /v1/models: vLLM, then LM Studio and others
+const CONTEXT_LENGTH_FIELDS = ['max_model_len', 'context_length', 'context_window'] as const
+
+const ModelsResponseSchema = z.object({
+  data: z.array(z.record(z.unknown())),
+})
+
+// llama.cpp reports the slot context size on /props, outside the OpenAI API
+const LlamaCppPropsSchema = z.object({
+  default_generation_settings: z.object({ n_ctx: z.number().int().positive() }),
+})
+
+async function fetchJSON(url: string, config: LLMEndpointConfig): Promise<unknown> {
+  try {
+    const response = await fetch(url, {
+      headers: config.apiKey ? { authorization: `Bearer ${config.apiKey}` } : {},
+      signal: AbortSignal.timeout(Math.min(config.requestTimeoutMs, 10000)),
+    })
+    return response.ok ? await response.json() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The context length the server reports for the model, if it reports one
+ */
+export async function probeContextWindow(config: LLMEndpointConfig): Promise<number | undefined> {
+  const models = ModelsResponseSchema.safeParse(await fetchJSON(`${config.baseUrl}/models`, config))
+  const entry = models.success ? models.data.data.find((model) => model['id'] === config.model) : undefined
+  for (const field of CONTEXT_LENGTH_FIELDS) {
+    const value = entry?.[field]
+    if (typeof value === 'number' && Number.isInteger(value) && value > 0) return value
+  }
+
+  const props = LlamaCppPropsSchema.safeParse(await fetchJSON(`${config.baseUrl.replace(/\/v1\/?$/, '')}/props`, config))
+  return props.success ? props.data.default_generation_settings.n_ctx : undefined
+}
+
+export type ProbeError = {
+  type: 'unavailable'
+  message: string
+  details?: LLMError
+}
+
+/**
+ * Send one small request per capability and record which ones worked. Each probe is
+ * independent, so a server that fails one (e.g. rejects response_format) is still
+ * checked for the rest. A connection error, timeout or server error says nothing about
+ * what the model supports, so it fails the whole probe instead of reading as "no".
+ */
+export async function probeCapabilities(
+  config: LLMEndpointConfig,
+  now = new Date()
+): Promise<Result<CapabilityProfile, ProbeError>> {
+  // Probe this endpoint alone, with nothing left to auto-detection
+  const probeConfig = { ...config, fallbacks: [], thinking: 'default' as const }
+  const llm = createLLMClient({ ...probeConfig, structuredOutput: 'off' })
+  const schemaLLM = createLLMClient({ ...probeConfig, structuredOutput: 'json_schema' })
+
+  const unavailable = (result: Result<unknown, LLMError>): ProbeError | undefined =>
+    !result.ok && isUnavailable(result.error)
+      ? { type: 'unavailable', message: result.error.message, details: result.error }
+      : undefined
+
+  const streamed = await llm.stream([
+    { role: 'system', content: 'You are a helpful assistant.' },
+    { role: 'user', content: 'Say "hello" and nothing else.' },
+  ])
+  // Checked before the other probes so a server that is down fails fast
+  const down = unavailable(streamed)
+  if (down) return err(down)
+
+  const structured = await schemaLLM.generateStructured(
+    [
+      { role: 'system', content: 'Respond ONLY with valid JSON.' },
+      { role: 'user', content: 'Reply with {"status": "ok"}.' },
+    ],
+    z.object({ status: z.literal('ok') }),
+    { retries: 1 }
+  )
+
+  let toolCalled = false
+  const toolResult = await llm.generate(
+    [
+      { role: 'system', content: 'You are a helpful assistant. Use the tools you are given.' },
+      { role: 'user', content: 'Call getProbeCode and reply with the code it returns.' },
+    ],
+    {
+      tools: {
+        getProbeCode: defineTool({
+          description: 'Returns the probe code',
+          parameters: z.object({}),
+          execute: () => {
+            toolCalled = true
+            return PROBE_CODE
+          },
+        }),
+      },
+      maxSteps: 2,
+    }
+  )
+
+  const answer = await llm.generate([
+    { role: 'user', content: 'What is 17 + 25? Answer with the number only.' },
+  ])
+
+  const failed = [structured, toolResult, answer].map(unavailable).find((error) => error !== undefined)
+  if (failed) return err(failed)
+
+  return ok({
+    baseUrl: config.baseUrl,
+    model: config.model,
+    probedAt: now.toISOString(),
+    contextWindow: await probeContextWindow(config),
+    jsonSchema: structured.ok,
+    toolCalling: toolResult.ok && toolCalled,
+    streaming: streamed.ok && streamed.value.trim().length > 0,
+    thinking: answer.ok && answer.value.includes('<think>'),
+  })
+}
@@ -0,0 +1,184 @@
+import { appendFileSync, existsSync, readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type { LLMError } from '../schemas/common.js'
+import { resolveAgentLLMConfig, resolveLLMEndpoints, type AgentName, type Config } from '../utils/config.js'
+import type { Message, TokenUsage } from './client.js'
+
+/**
+ * File in the run directory holding every LLM request of the run
+ */
+export const TRANSCRIPT_FILENAME = 'transcript.jsonl'
+
+/**
+ * One line of a transcript: a request sent to a model (one per retry, or a cache hit),
+ * or structured output that failed to parse or validate
+ */
+export type TranscriptEntry =
+  | {
+    type: 'request'
+    timestamp: string
+    label?: string | undefined
+    model: string
+    baseUrl: string
+    /** 0 for the first send, n for the nth retry after a rate limit or server error */
+    attempt: number
+    stream: boolean
+    messages: Message[]
+    latencyMs: number
+    /** The raw text, before <think> blocks or fences are stripped */
+    response?: string | undefined
+    truncated?: boolean | undefined
+    usage?: TokenUsage | undefined
+    error?: LLMError | undefined
+    /** Answered from the response cache without a request */
+    cached?: boolean | undefined
+  }
+  | {
+    type: 'parse_error'
+    timestamp: string
+    label?: string | undefined
+    model: string
+    baseUrl: string
+    /** Structured output attempt, counting from 0 */
+    attempt: number
+    error: string
+  }
+
+export type TranscriptCallback = (entry: TranscriptEntry) => void
+
+const REDACTED = '[REDACTED]'
+
+// Values shorter than this (true, 1, dev) would redact ordinary words all over the transcript
+const MIN_SECRET_LENGTH = 6
+
+// .env-style lines whose name says it's a secret: OPENAI_API_KEY=..., export DB_PASSWORD="..."
+const ENV_SECRET_LINE = /^(\s*(?:export\s+)?[A-Z0-9_]*(?:API_?KEY|SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIALS?)[A-Z0-9_]*\s*=\s*["']?)([^\s"']+)/gm
+
+// String literals assigned to secret-sounding names in code or config: apiKey: "...", "token": '...'.
+// Only random-looking values are redacted, so code like `password: z.string()` stays readable.
+const QUOTED_SECRET = /((?<![A-Za-z])(?:api[_-]?key|secret|token|password|passwd|credentials?)[\w-]*["']?\s*[=:]\s*["'])([^"'\s]+)(?=["'])/gi
+
+// Token formats that are secrets wherever they appear
+const SECRET_TOKENS = [
+  /\bsk-[A-Za-z0-9_-]{16,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{20,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bBearer\s+[A-Za-z0-9._~+/-]{16,}=*/g,
+]
+
+// Long strings mixing letters and digits, like generated keys and passwords
+const looksRandom = (value: string) => value.length >= 16 && !/\s/.test(value) && /\d/.test(value) && /[A-Za-z]/.test(value)
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Replace known secret values, secret-looking assignments and tokens, and anything
+ * matching the user's patterns with [REDACTED]
+ */
+export function createRedactor(secrets: string[], patterns: string[] = []): (text: string) => string {
+  // Longest first, so a secret containing another is replaced whole
+  const known = [...new Set(secrets)]
+    .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length)
+  const knownPattern = known.length > 0 ? new RegExp(known.map(escapeRegExp).join('|'), 'g') : undefined
+  const userPatterns = patterns.map((pattern) => new RegExp(pattern, 'g'))
+
+  return (text) => {
+    let redacted = knownPattern ? text.replace(knownPattern, REDACTED) : text
+    redacted = redacted.replace(ENV_SECRET_LINE, (match, name: string, value: string) =>
+      value === REDACTED ? match : `${name}${REDACTED}`)
+    redacted = redacted.replace(QUOTED_SECRET, (match, name: string, value: string) =>
+      looksRandom(value) ? `${name}${REDACTED}` : match)
+    for (const pattern of [...SECRET_TOKENS, ...userPatterns]) {
+      redacted = redacted.replace(pattern, REDACTED)
+    }
+    return redacted
+  }
+}
+
+function redactValue(value: unknown, redact: (text: string) => string): unknown {
+  if (typeof value === 'string') return redact(value)
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, redact))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item, redact)]))
+  }
+  return value
+}
+
+// .env entries worth redacting: secret-sounding names, or long random-looking values.
+// Ordinary settings like NODE_ENV=production would otherwise be redacted from every prompt.
+const SECRET_ENV_NAME = /key|secret|token|passw|credential|private|auth|dsn|url/i
+
+/**
+ * Secret values assigned in the project's .env files (.env, .env.local, ...)
+ */
+function readEnvFileSecrets(projectRoot: string): string[] {
+  if (!existsSync(projectRoot)) return []
+
+  const values: string[] = []
+  for (const name of readdirSync(projectRoot).filter((file) => /^\.env(\..+)?$/.test(file))) {
+    try {
+      for (const line of readFileSync(join(projectRoot, name), 'utf-8').split('\n')) {
+        const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/)
+        const name = match?.[1] ?? ''
+        const value = match?.[2]?.trim().replace(/^(["'])(.*)\1$/, '$2')
+        if (value && (SECRET_ENV_NAME.test(name) || looksRandom(value))) values.push(value)
+      }
+    } catch {
+      // An unreadable .env file can't leak into prompts either
+    }
+  }
+  return values
+}
+
+/**
+ * Secrets a transcript must not contain: every configured API key and the project's .env secrets
+ */
+export function collectSecrets(config: Config, projectRoot: string): string[] {
+  const endpoints = [
+    ...resolveLLMEndpoints(config.llm),
+    ...(Object.keys(config.agents) as AgentName[]).flatMap((agent) => resolveLLMEndpoints(resolveAgentLLMConfig(config, agent))),
+  ]
+  return [...new Set([...endpoints.map((endpoint) => endpoint.apiKey), ...readEnvFileSecrets(projectRoot)])].filter(Boolean)
+}
+
+export type TranscriptWriter = {
+  /** Pass as LLMClientOptions.onTranscript */
+  record: TranscriptCallback
+  /** Append entries to this file from now on, starting with anything recorded so far */
+  saveTo: (file: string) => void
+}
+
+/**
+ * Writes redacted transcript entries as JSONL. A failed write is reported once
+ * through `onError` and never interrupts the run.
+ */
+export function createTranscriptWriter(
+  redact: (text: string) => string,
+  onError: (error: unknown) => void = () => {}
+): TranscriptWriter {
+  let file: string | undefined
+  let failed = false
+  const pending: string[] = []
+
+  const save = (path: string, line: string): void => {
+    try {
+      appendFileSync(path, line, 'utf-8')
+    } catch (e) {
+      if (!failed) onError(e)
+      failed = true
+    }
+  }
+
+  return {
+    record: (entry) => {
+      const line = `${JSON.stringify(redactValue(entry, redact))}\n`
+      if (file === undefined) pending.push(line)
+      else save(file, line)
+    },
+    saveTo: (path) => {
+      file = path
+      for (const line of pending.splice(0)) save(path, line)
+    },
+  }
+}
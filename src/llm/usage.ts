@@ -0,0 +1,94 @@
+import type { LLMCallRecord, TokenUsage } from './client.js'
+
+/**
+ * File in the run directory holding the run's usage report
+ */
+export const USAGE_FILENAME = 'usage.json'
+
+export type UsageTotals = TokenUsage & {
+  calls: number
+  /** Calls whose server reported no usage; their tokens are missing from the totals */
+  unreported: number
+  durationMs: number
+}
+
+export type UsageReport = {
+  total: UsageTotals
+  /** Keyed by agent, in first-seen order */
+  byAgent: Record<string, UsageTotals>
+  /** Keyed by task ID; calls made outside a task (the planner) are only in the other totals */
+  byTask: Record<string, UsageTotals>
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, unreported: 0, promptTokens: 0, completionTokens: 0, durationMs: 0 })
+
+function addCall(totals: UsageTotals, call: LLMCallRecord): void {
+  totals.calls++
+  totals.durationMs += call.durationMs
+  if (call.usage) {
+    totals.promptTokens += call.usage.promptTokens
+    totals.completionTokens += call.usage.completionTokens
+  } else {
+    totals.unreported++
+  }
+}
+
+/**
+ * Prompt plus completion tokens
+ */
+export function totalTokens(usage: TokenUsage): number {
+  return usage.promptTokens + usage.completionTokens
+}
+
+/**
+ * Add up tokens and wall time for the run, each agent and each task
+ */
+export function summarizeUsage(calls: LLMCallRecord[]): UsageReport {
+  const report: UsageReport = { total: emptyTotals(), byAgent: {}, byTask: {} }
+
+  const addTo = (group: Record<string, UsageTotals>, key: string, call: LLMCallRecord) => {
+    const totals = group[key] ?? emptyTotals()
+    addCall(totals, call)
+    group[key] = totals
+  }
+
+  for (const call of calls) {
+    addCall(report.total, call)
+    addTo(report.byAgent, call.label ?? 'llm', call)
+    if (call.task !== undefined) addTo(report.byTask, call.task, call)
+  }
+
+  return report
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+function formatTotals(totals: UsageTotals): string {
+  const calls = `${totals.calls} call${totals.calls === 1 ? '' : 's'}`
+  const unreported = totals.unreported > 0 ? `, ${totals.unreported} without usage` : ''
+  return `${totalTokens(totals).toLocaleString('en-US')} tokens ` +
+    `(${totals.promptTokens.toLocaleString('en-US')} prompt + ${totals.completionTokens.toLocaleString('en-US')} completion), ` +
+    `${calls}${unreported}, ${seconds(totals.durationMs)}`
+}
+
+/**
+ * Token usage and wall time for the run, broken down by agent and by task
+ */
+export function formatUsageSummary(report: UsageReport): string {
+  if (report.total.calls === 0) return ''
+
+  const lines = [`Token usage: ${formatTotals(report.total)}`]
+  for (const [agent, totals] of Object.entries(report.byAgent)) {
+    lines.push(`  ${agent}: ${formatTotals(totals)}`)
+  }
+
+  const tasks = Object.entries(report.byTask)
+  if (tasks.length > 0) {
+    lines.push('By task:')
+    for (const [task, totals] of tasks) {
+      lines.push(`  ${task}: ${formatTotals(totals)}`)
+    }
+  }
+
+  return lines.join('\n')
+}
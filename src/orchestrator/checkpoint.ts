@@ -0,0 +1,302 @@
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { z } from 'zod'
+import { PlannerOutputSchema, type PlannerOutput } from '../schemas/planner.js'
+import { ArchitectOutputSchema, type ArchitectOutput } from '../schemas/architect.js'
+import { CoderOutputSchema, FileChangeSchema, type CoderOutput, type FileChange } from '../schemas/coder.js'
+import { ReviewerOutputSchema, ReviewIssueSchema, type ReviewerOutput, type ReviewIssue } from '../schemas/reviewer.js'
+import { type Result, ok, err, tryCatch } from '../utils/result.js'
+
+/**
+ * Directory (relative to the project root) holding one subdirectory per run
+ */
+export const RUNS_DIRECTORY = join('.agent-helper', 'runs')
+
+const CHECKPOINT_FILENAME = 'checkpoint.json'
+
+const TaskCheckpointSchema = z.object({
+  architect: ArchitectOutputSchema.optional(),
+  /** Coder outputs by revision: 0 is the initial output, n the rewrite after review n */
+  code: z.array(CoderOutputSchema).default([]),
+  /** Review verdicts by attempt */
+  reviews: z.array(ReviewerOutputSchema).default([]),
+  /** Final outcome once the task finished */
+  result: z.object({
+    changes: z.array(FileChangeSchema),
+    reviewPassed: z.boolean(),
+    reviewIssues: z.array(ReviewIssueSchema),
+  }).optional(),
+})
+
+export type TaskCheckpoint = z.output<typeof TaskCheckpointSchema>
+
+const RunCheckpointSchema = z.object({
+  version: z.literal(1),
+  runId: z.string(),
+  request: z.string(),
+  status: z.enum(['running', 'completed', 'interrupted']),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  plan: PlannerOutputSchema.optional(),
+  tasks: z.record(TaskCheckpointSchema).default({}),
+  /** Tokens the run's LLM calls used across every session, counted against pipeline.maxTokensPerRun */
+  tokensUsed: z.number().default(0),
+})
+
+export type RunCheckpoint = z.output<typeof RunCheckpointSchema>
+
+export type RunStatus = RunCheckpoint['status']
+
+export type CheckpointError = {
+  type: 'not_found' | 'invalid' | 'write_failed'
+  message: string
+  details?: unknown
+}
+
+/**
+ * Persists pipeline progress after every LLM step so an interrupted run
+ * can be resumed without repeating finished work
+ */
+export type CheckpointStore = {
+  runId: string
+  directory: string
+  getState: () => RunCheckpoint
+  getPlan: () => PlannerOutput | undefined
+  savePlan: (plan: PlannerOutput) => void
+  getTask: (taskId: string) => TaskCheckpoint
+  saveArchitect: (taskId: string, output: ArchitectOutput) => void
+  saveCode: (taskId: string, revision: number, output: CoderOutput) => void
+  saveReview: (taskId: string, attempt: number, output: ReviewerOutput) => void
+  saveTaskResult: (
+    taskId: string,
+    result: { changes: FileChange[]; reviewPassed: boolean; reviewIssues: ReviewIssue[] }
+  ) => void
+  /** Forget a task's code, reviews and result so the next attempt redoes them */
+  reopenTask: (taskId: string) => void
+  setStatus: (status: RunStatus) => void
+  saveTokensUsed: (tokens: number) => void
+}
+
+/**
+ * Get the directory holding a run's checkpoint and artifacts
+ */
+export function getRunDirectory(projectRoot: string, runId: string): string {
+  return join(projectRoot, RUNS_DIRECTORY, runId)
+}
+
+function emptyTask(): TaskCheckpoint {
+  return { code: [], reviews: [] }
+}
+
+function createStore(directory: string, initial: RunCheckpoint, onError: (error: unknown) => void): CheckpointStore {
+  const state = initial
+  const filePath = join(directory, CHECKPOINT_FILENAME)
+  let failed = false
+
+  // Write to a temp file and rename so a crash mid-write never corrupts the checkpoint
+  const write = (): void => {
+    state.updatedAt = new Date().toISOString()
+    mkdirSync(directory, { recursive: true })
+    const tempPath = `${filePath}.tmp`
+    writeFileSync(tempPath, JSON.stringify(state, null, 2), 'utf-8')
+    renameSync(tempPath, filePath)
+  }
+
+  // A failed checkpoint write must not abort the run it is protecting; report it once
+  const persist = (): void => {
+    try {
+      write()
+    } catch (e) {
+      if (!failed) onError(e)
+      failed = true
+    }
+  }
+
+  const task = (taskId: string): TaskCheckpoint => {
+    let entry = state.tasks[taskId]
+    if (!entry) {
+      entry = emptyTask()
+      state.tasks[taskId] = entry
+    }
+    return entry
+  }
+
+  return {
+    runId: state.runId,
+    directory,
+    getState: () => state,
+    getPlan: () => state.plan,
+    savePlan: (plan) => {
+      state.plan = plan
+      persist()
+    },
+    getTask: (taskId) => state.tasks[taskId] ?? emptyTask(),
+    saveArchitect: (taskId, output) => {
+      task(taskId).architect = output
+      persist()
+    },
+    saveCode: (taskId, revision, output) => {
+      const entry = task(taskId)
+      // A new revision invalidates anything recorded after it
+      entry.code = [...entry.code.slice(0, revision), output]
+      entry.reviews = entry.reviews.slice(0, revision)
+      persist()
+    },
+    saveReview: (taskId, attempt, output) => {
+      const entry = task(taskId)
+      entry.reviews = [...entry.reviews.slice(0, attempt), output]
+      persist()
+    },
+    saveTaskResult: (taskId, result) => {
+      task(taskId).result = result
+      persist()
+    },
+    reopenTask: (taskId) => {
+      const { architect } = task(taskId)
+      state.tasks[taskId] = { ...(architect && { architect }), code: [], reviews: [] }
+      persist()
+    },
+    setStatus: (status) => {
+      state.status = status
+      persist()
+    },
+    saveTokensUsed: (tokens) => {
+      state.tokensUsed = tokens
+      persist()
+    },
+  }
+}
+
+// Fail up front if the run directory is not writable
+function initializeStore(
+  projectRoot: string,
+  state: RunCheckpoint,
+  onError: (error: unknown) => void
+): Result<CheckpointStore, CheckpointError> {
+  const directory = getRunDirectory(projectRoot, state.runId)
+  const initialWrite = tryCatch(
+    () => {
+      mkdirSync(directory, { recursive: true })
+      writeFileSync(join(directory, CHECKPOINT_FILENAME), JSON.stringify(state, null, 2), 'utf-8')
+    },
+    (e): CheckpointError => ({
+      type: 'write_failed',
+      message: `Failed to create checkpoint for run ${state.runId}`,
+      details: e,
+    })
+  )
+
+  if (!initialWrite.ok) {
+    return initialWrite
+  }
+
+  return ok(createStore(directory, state, onError))
+}
+
+/**
+ * Start checkpointing a new run. Saves that fail later on are reported through
+ * `onError` (once) and never interrupt the run.
+ */
+export function createCheckpointStore(
+  projectRoot: string,
+  runId: string,
+  request: string,
+  onError: (error: unknown) => void = () => {}
+): Result<CheckpointStore, CheckpointError> {
+  const now = new Date().toISOString()
+  return initializeStore(projectRoot, {
+    version: 1,
+    runId,
+    request,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    tasks: {},
+    tokensUsed: 0,
+  }, onError)
+}
+
+/**
+ * Start a new run from a finished one: its plan and steps are reused, except that
+ * the coder and reviewer of `taskIds` run again
+ */
+export function createFollowUpCheckpointStore(
+  projectRoot: string,
+  runId: string,
+  source: RunCheckpoint,
+  taskIds: string[],
+  onError: (error: unknown) => void = () => {}
+): Result<CheckpointStore, CheckpointError> {
+  const now = new Date().toISOString()
+  const tasks: Record<string, TaskCheckpoint> = {}
+  for (const [taskId, task] of Object.entries(source.tasks)) {
+    tasks[taskId] = taskIds.includes(taskId)
+      ? { ...(task.architect && { architect: task.architect }), code: [], reviews: [] }
+      : task
+  }
+
+  return initializeStore(projectRoot, {
+    ...source,
+    runId,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+    tasks,
+    tokensUsed: 0,
+  }, onError)
+}
+
+/**
+ * Load an existing run's checkpoint for resuming; failed saves go to `onError` as
+ * for a new run
+ */
+export function loadCheckpointStore(
+  projectRoot: string,
+  runId: string,
+  onError: (error: unknown) => void = () => {}
+): Result<CheckpointStore, CheckpointError> {
+  const directory = getRunDirectory(projectRoot, runId)
+  const filePath = join(directory, CHECKPOINT_FILENAME)
+
+  if (!existsSync(filePath)) {
+    return err({
+      type: 'not_found',
+      message: `No checkpoint found for run ${runId}`,
+    })
+  }
+
+  const parsed = tryCatch(
+    () => RunCheckpointSchema.parse(JSON.parse(readFileSync(filePath, 'utf-8'))),
+    (e): CheckpointError => ({
+      type: 'invalid',
+      message: `Checkpoint for run ${runId} is corrupt or from an incompatible version`,
+      details: e,
+    })
+  )
+
+  if (!parsed.ok) {
+    return parsed
+  }
+
+  return ok(createStore(directory, parsed.value, onError))
+}
+
+/**
+ * List checkpointed runs in the project, most recently updated first
+ */
+export function listCheckpoints(projectRoot: string): RunCheckpoint[] {
+  const runsDir = join(projectRoot, RUNS_DIRECTORY)
+  if (!existsSync(runsDir)) {
+    return []
+  }
+
+  const runs: RunCheckpoint[] = []
+  for (const entry of readdirSync(runsDir)) {
+    const loaded = loadCheckpointStore(projectRoot, entry)
+    if (loaded.ok) {
+      runs.push(loaded.value.getState())
+    }
+  }
+
+  return runs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
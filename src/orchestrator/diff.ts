@@ -0,0 +1,329 @@
+/**
+ * Line-based diffing (Myers) and unified diff / patch formatting
+ */
+
+import { type Result, ok, err } from '../utils/result.js'
+
+export type DiffLine = {
+  type: 'context' | 'add' | 'remove'
+  /** Line text without its newline */
+  text: string
+  /** False for a final line that has no trailing newline */
+  newline: boolean
+}
+
+export type Hunk = {
+  /** 1-based first line in the old file (the line before, when oldLines is 0) */
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export type PatchFile = {
+  /** null for a created file */
+  oldPath: string | null
+  /** null for a deleted file */
+  newPath: string | null
+  oldContent: string
+  newContent: string
+}
+
+export const DEFAULT_CONTEXT_LINES = 3
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file'
+
+/**
+ * Split text into lines that keep their terminator, so a missing final newline
+ * is a difference like any other
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? []
+}
+
+function toDiffLine(type: DiffLine['type'], raw: string): DiffLine {
+  const newline = raw.endsWith('\n')
+  return { type, text: newline ? raw.slice(0, -1) : raw, newline }
+}
+
+// Edits beyond which the search gives up and shows the whole old text replaced by the new.
+// The trace grows with the square of the edit count; a diff that large isn't read line by line anyway.
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * Shortest edit script between two texts, by line
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  // Unchanged lines at either end never need the search
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  return [
+    ...a.slice(0, prefix).map((line) => toDiffLine('context', line)),
+    ...editScript(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map((line) => toDiffLine('context', line)),
+  ]
+}
+
+/**
+ * Myers' O(ND) algorithm, falling back to remove-all/add-all past MAX_EDIT_DISTANCE
+ */
+function editScript(a: string[], b: string[]): DiffLine[] {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const offset = max + 1
+  const v = new Array<number>(2 * max + 2).fill(0)
+  // trace[d] is v[-(d-1)..d-1] before step d, the only diagonals step d reads
+  const trace: number[][] = []
+  let found = false
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d + 1, offset + d))
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && (v[offset + k - 1] ?? 0) < (v[offset + k + 1] ?? 0))
+      let x = down ? (v[offset + k + 1] ?? 0) : (v[offset + k - 1] ?? 0) + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break outer
+      }
+    }
+  }
+
+  if (!found) {
+    return [...a.map((line) => toDiffLine('remove', line)), ...b.map((line) => toDiffLine('add', line))]
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const result: DiffLine[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d] ?? []
+    const at = (k: number) => snapshot[k + d - 1] ?? 0
+    const k = x - y
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1))
+    const prevK = down ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      result.push(toDiffLine('context', a[x - 1] ?? ''))
+      x--
+      y--
+    }
+
+    if (d > 0) {
+      if (down) {
+        result.push(toDiffLine('add', b[y - 1] ?? ''))
+      } else {
+        result.push(toDiffLine('remove', a[x - 1] ?? ''))
+      }
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  return result.reverse()
+}
+
+/**
+ * Group a diff into hunks with up to `context` unchanged lines around each change
+ */
+export function computeHunks(
+  oldText: string,
+  newText: string,
+  context: number = DEFAULT_CONTEXT_LINES
+): Hunk[] {
+  const lines = diffLines(oldText, newText)
+  const hunks: Hunk[] = []
+
+  // Old/new line numbers (0-based) before each diff line
+  const positions: Array<{ old: number; new: number }> = []
+  let oldLine = 0
+  let newLine = 0
+  for (const line of lines) {
+    positions.push({ old: oldLine, new: newLine })
+    if (line.type !== 'add') oldLine++
+    if (line.type !== 'remove') newLine++
+  }
+
+  let i = 0
+  while (i < lines.length) {
+    if (lines[i]?.type === 'context') {
+      i++
+      continue
+    }
+
+    // Extend the hunk while the next change is within 2 * context lines
+    const start = Math.max(0, i - context)
+    let end = i
+    let gap = 0
+    for (let j = i; j < lines.length; j++) {
+      if (lines[j]?.type === 'context') {
+        gap++
+        if (gap > 2 * context) break
+      } else {
+        gap = 0
+        end = j
+      }
+    }
+    const stop = Math.min(lines.length, end + context + 1)
+
+    const hunkLines = lines.slice(start, stop)
+    const first = positions[start] ?? { old: 0, new: 0 }
+    const oldLines = hunkLines.filter((l) => l.type !== 'add').length
+    const newLines = hunkLines.filter((l) => l.type !== 'remove').length
+
+    hunks.push({
+      oldStart: oldLines === 0 ? first.old : first.old + 1,
+      oldLines,
+      newStart: newLines === 0 ? first.new : first.new + 1,
+      newLines,
+      lines: hunkLines,
+    })
+
+    i = stop
+  }
+
+  return hunks
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`
+}
+
+/**
+ * Format one hunk in unified diff syntax
+ */
+export function formatHunk(hunk: Hunk): string {
+  const out = [`@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`]
+  const prefix = { context: ' ', add: '+', remove: '-' }
+
+  for (const line of hunk.lines) {
+    out.push(`${prefix[line.type]}${line.text}`)
+    if (!line.newline) out.push(NO_NEWLINE_MARKER)
+  }
+
+  return out.join('\n')
+}
+
+/**
+ * Format a file's change as a git-style unified diff section.
+ * Paths get a/ and b/ prefixes so the output works with `git apply`.
+ */
+export function formatFilePatch(file: PatchFile, context: number = DEFAULT_CONTEXT_LINES): string {
+  const oldName = file.oldPath ?? file.newPath ?? ''
+  const newName = file.newPath ?? file.oldPath ?? ''
+  const out = [`diff --git a/${oldName} b/${newName}`]
+
+  if (file.oldPath === null) {
+    out.push('new file mode 100644')
+  } else if (file.newPath === null) {
+    out.push('deleted file mode 100644')
+  } else if (file.oldPath !== file.newPath) {
+    out.push(`rename from ${file.oldPath}`, `rename to ${file.newPath}`)
+  }
+
+  const hunks = computeHunks(file.oldContent, file.newContent, context)
+  if (hunks.length > 0) {
+    out.push(file.oldPath === null ? '--- /dev/null' : `--- a/${file.oldPath}`)
+    out.push(file.newPath === null ? '+++ /dev/null' : `+++ b/${file.newPath}`)
+    for (const hunk of hunks) {
+      out.push(formatHunk(hunk))
+    }
+  }
+
+  return out.join('\n')
+}
+
+/**
+ * Format several file changes as one patch, ending with a newline as git expects
+ */
+export function formatPatch(files: PatchFile[], context: number = DEFAULT_CONTEXT_LINES): string {
+  if (files.length === 0) return ''
+  return `${files.map((file) => formatFilePatch(file, context)).join('\n')}\n`
+}
+
+/**
+ * Rebuild the new content from `oldText` and a subset of the hunks computed
+ * against it. Lines outside the given hunks keep their old content.
+ */
+export function applyHunks(oldText: string, hunks: Hunk[]): string {
+  const oldLines = splitLines(oldText)
+  const out: string[] = []
+  let index = 0
+
+  for (const hunk of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+    // A pure insertion starts after oldStart; anything else starts at it
+    const start = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1
+    out.push(...oldLines.slice(index, start))
+    for (const line of hunk.lines) {
+      if (line.type !== 'remove') out.push(line.newline ? `${line.text}\n` : line.text)
+    }
+    index = start + hunk.oldLines
+  }
+
+  out.push(...oldLines.slice(index))
+  return out.join('')
+}
+
+/**
+ * Parse a hunk body the user edited (as printed by formatHunk, header optional)
+ * back into a hunk at the original position. Lines starting with # are ignored.
+ * The old side must be unchanged: only + lines may be added, dropped or edited,
+ * and - lines may be turned into context.
+ */
+export function parseEditedHunk(original: Hunk, text: string): Result<Hunk, string> {
+  const lines: DiffLine[] = []
+  const prefixes: Record<string, DiffLine['type']> = { ' ': 'context', '+': 'add', '-': 'remove' }
+
+  for (const raw of text.replace(/\r?\n$/, '').split(/\r?\n/)) {
+    if (raw.startsWith('#') || raw.startsWith('@@')) continue
+    if (raw.startsWith('\\')) {
+      const last = lines[lines.length - 1]
+      if (last) last.newline = false
+      continue
+    }
+    // Editors often strip the trailing space of empty context lines
+    const type = raw === '' ? 'context' : prefixes[raw[0] ?? '']
+    if (!type) {
+      return err(`Unexpected line in edited hunk: "${raw}". Lines must start with " ", "+" or "-".`)
+    }
+    lines.push({ type, text: raw.slice(1), newline: true })
+  }
+
+  const oldSide = (hunkLines: DiffLine[]) =>
+    hunkLines.filter((l) => l.type !== 'add').map((l) => `${l.text}${l.newline ? '\n' : ''}`).join('')
+  if (oldSide(lines) !== oldSide(original.lines)) {
+    return err('Edited hunk changes the existing lines. Only edit "+" lines, or turn "-" lines into context.')
+  }
+
+  const newLines = lines.filter((l) => l.type !== 'remove').length
+  return ok({
+    oldStart: original.oldStart,
+    oldLines: original.oldLines,
+    newStart: original.newStart,
+    newLines,
+    lines,
+  })
+}
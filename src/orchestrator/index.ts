@@ -1,2 +1,5 @@
 export * from './pipeline.js'
 export * from './staging.js'
+export * from './taskGraph.js'
+export * from './checkpoint.js'
+export * from './journal.js'
@@ -0,0 +1,212 @@
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync, readdirSync } from 'node:fs'
+import { join } from 'node:path'
+import { z } from 'zod'
+import type { ToolKit } from '../tools/toolkit.js'
+import { type Result, ok, err, tryCatch } from '../utils/result.js'
+import { getRunDirectory, RUNS_DIRECTORY } from './checkpoint.js'
+import { hashContent, type StagedChange } from './staging.js'
+
+const JOURNAL_FILENAME = 'applied.json'
+
+const JournalFileSchema = z.object({
+  path: z.string(),
+  /** Whether the run created the file */
+  isNew: z.boolean(),
+  /** Content before the run touched the file; absent for created files */
+  priorContent: z.string().optional(),
+  /** sha256 of the content the run left behind; absent when the run removed the file */
+  appliedHash: z.string().optional(),
+})
+
+export type JournalFile = z.infer<typeof JournalFileSchema>
+
+const ApplyJournalSchema = z.object({
+  version: z.literal(1),
+  runId: z.string(),
+  request: z.string(),
+  appliedAt: z.string(),
+  undoneAt: z.string().optional(),
+  files: z.array(JournalFileSchema),
+  packages: z.object({
+    packageManager: z.enum(['npm', 'pnpm', 'yarn']).nullable(),
+    production: z.array(z.string()),
+    dev: z.array(z.string()),
+  }),
+})
+
+export type ApplyJournal = z.infer<typeof ApplyJournalSchema>
+
+export type JournalError = {
+  type: 'not_found' | 'invalid' | 'write_failed'
+  message: string
+  details?: unknown
+}
+
+/**
+ * How to put the project back the way it was before a run's changes were applied
+ */
+export type UndoPlan = {
+  /** Restorations, in the shape `applyChanges` expects */
+  changes: StagedChange[]
+  /** Paths edited since the run applied its changes */
+  modified: string[]
+}
+
+function journalPath(projectRoot: string, runId: string): string {
+  return join(getRunDirectory(projectRoot, runId), JOURNAL_FILENAME)
+}
+
+function writeJournal(projectRoot: string, journal: ApplyJournal): Result<void, JournalError> {
+  const filePath = journalPath(projectRoot, journal.runId)
+  return tryCatch(
+    () => {
+      mkdirSync(getRunDirectory(projectRoot, journal.runId), { recursive: true })
+      const tempPath = `${filePath}.tmp`
+      writeFileSync(tempPath, JSON.stringify(journal, null, 2), 'utf-8')
+      renameSync(tempPath, filePath)
+    },
+    (e): JournalError => ({
+      type: 'write_failed',
+      message: `Failed to write apply journal for run ${journal.runId}`,
+      details: e,
+    })
+  )
+}
+
+/**
+ * Journal entries for applied changes: one per path the run touched
+ */
+export function journalFilesFor(applied: StagedChange[]): JournalFile[] {
+  return applied.flatMap((change): JournalFile[] => {
+    if (change.operation === 'delete') {
+      return [{ path: change.path, isNew: false, priorContent: change.originalContent }]
+    }
+
+    if (change.operation === 'rename') {
+      // A rename onto an existing file overwrote it, so undo puts that file back
+      const targetExisted = change.targetContent !== undefined && change.from !== change.path
+      return [
+        {
+          path: change.path,
+          isNew: !targetExisted,
+          priorContent: targetExisted ? change.targetContent : undefined,
+          appliedHash: hashContent(change.content),
+        },
+        { path: change.from ?? change.path, isNew: false, priorContent: change.originalContent },
+      ]
+    }
+
+    return [{
+      path: change.path,
+      isNew: change.isNew,
+      priorContent: change.isNew ? undefined : change.originalContent,
+      appliedHash: hashContent(change.content),
+    }]
+  })
+}
+
+/**
+ * Record a change set that was just applied so it can be undone later
+ */
+export function recordApply(
+  projectRoot: string,
+  entry: {
+    runId: string
+    request: string
+    applied: StagedChange[]
+    packages: ApplyJournal['packages']
+  }
+): Result<ApplyJournal, JournalError> {
+  const journal: ApplyJournal = {
+    version: 1,
+    runId: entry.runId,
+    request: entry.request,
+    appliedAt: new Date().toISOString(),
+    files: journalFilesFor(entry.applied),
+    packages: entry.packages,
+  }
+
+  const written = writeJournal(projectRoot, journal)
+  return written.ok ? ok(journal) : written
+}
+
+export function loadJournal(projectRoot: string, runId: string): Result<ApplyJournal, JournalError> {
+  const filePath = journalPath(projectRoot, runId)
+
+  if (!existsSync(filePath)) {
+    return err({
+      type: 'not_found',
+      message: `No applied changes recorded for run ${runId}`,
+    })
+  }
+
+  return tryCatch(
+    () => ApplyJournalSchema.parse(JSON.parse(readFileSync(filePath, 'utf-8'))),
+    (e): JournalError => ({
+      type: 'invalid',
+      message: `Apply journal for run ${runId} is corrupt or from an incompatible version`,
+      details: e,
+    })
+  )
+}
+
+/**
+ * List runs whose changes were applied, most recent first
+ */
+export function listJournals(projectRoot: string): ApplyJournal[] {
+  const runsDir = join(projectRoot, RUNS_DIRECTORY)
+  if (!existsSync(runsDir)) {
+    return []
+  }
+
+  const journals: ApplyJournal[] = []
+  for (const entry of readdirSync(runsDir)) {
+    const loaded = loadJournal(projectRoot, entry)
+    if (loaded.ok) {
+      journals.push(loaded.value)
+    }
+  }
+
+  return journals.sort((a, b) => b.appliedAt.localeCompare(a.appliedAt))
+}
+
+export function markUndone(projectRoot: string, journal: ApplyJournal): Result<void, JournalError> {
+  return writeJournal(projectRoot, { ...journal, undoneAt: new Date().toISOString() })
+}
+
+/**
+ * Work out the restorations for an undo and which files were edited after the run
+ */
+export function planUndo(journal: ApplyJournal, tools: ToolKit): UndoPlan {
+  const changes: StagedChange[] = []
+  const modified: string[] = []
+
+  for (const file of journal.files) {
+    const current = tools.readFile(file.path)
+    const currentContent = current.ok ? current.value : undefined
+
+    const untouched = file.appliedHash === undefined
+      ? currentContent === undefined
+      : currentContent !== undefined && hashContent(currentContent) === file.appliedHash
+    if (!untouched) {
+      modified.push(file.path)
+    }
+
+    const base = {
+      path: file.path,
+      originalContent: currentContent,
+      originalHash: currentContent !== undefined ? hashContent(currentContent) : undefined,
+    }
+
+    if (file.isNew || file.priorContent === undefined) {
+      // The run created this file: undo removes it
+      if (currentContent !== undefined) {
+        changes.push({ ...base, content: '', isNew: false, operation: 'delete' })
+      }
+    } else if (currentContent !== file.priorContent) {
+      changes.push({ ...base, content: file.priorContent, isNew: currentContent === undefined, operation: 'write' })
+    }
+  }
+
+  return { changes, modified }
+}
@@ -1,15 +1,20 @@
 import { randomUUID } from 'node:crypto'
-import type { AgentContext } from '../agents/types.js'
+import type { Agent, AgentContext } from '../agents/types.js'
+import type { AgentError, LLMError } from '../schemas/common.js'
 import { plannerAgent } from '../agents/planner.js'
 import { architectAgent } from '../agents/architect.js'
 import { coderAgent } from '../agents/coder.js'
 import { reviewerAgent } from '../agents/reviewer.js'
 import type { Task } from '../schemas/planner.js'
-import type { FileChange } from '../schemas/coder.js'
-import type { ReviewIssue } from '../schemas/reviewer.js'
-import type { LLMClient } from '../llm/client.js'
+import type { FileChange, CoderInput, CoderOutput } from '../schemas/coder.js'
+import type { ReviewIssue, ReviewerOutput } from '../schemas/reviewer.js'
+import { labelLLMClient, type LLMClient, type TokenUsage, type UsageCallback } from '../llm/client.js'
+import type { CallLog } from '../llm/callLog.js'
+import { summarizeUsage, totalTokens, type UsageReport } from '../llm/usage.js'
+import { withCapabilities, type CapabilityProfile } from '../llm/capabilities.js'
 import type { ToolKit } from '../tools/toolkit.js'
 import { gatherProjectContext, formatProjectContext } from '../tools/context.js'
+import { createOverlayToolKit, type MergedChange } from '../tools/overlay.js'
 import { buildDependencyContext } from '../tools/dependencyContext.js'
 import { ImportValidator, type AlternativeInfo } from '../tools/importValidator.js'
 import { detectPackageManager, type PackageManager } from '../tools/packageManager.js'
@@ -17,10 +22,23 @@ import { validatePackagesBatch } from '../tools/packageRegistry.js'
 import { installPackages } from '../tools/packageInstaller.js'
 import { categorizePackages } from '../tools/dependencyCategorizer.js'
 import { createBackup, restoreBackup, cleanupBackup, formatInstallFailureFeedback } from '../tools/installationBackup.js'
+import {
+  detectVerificationCommands,
+  createScratchWorkspace,
+  runVerificationCommands,
+  compareWithBaseline,
+  formatVerificationDiagnostics,
+  type CommandVerification,
+  type VerificationResult,
+} from '../tools/verification.js'
 import type { ConsentManager } from '../consent/index.js'
-import type { Config } from '../utils/config.js'
+import { resolveAgentLLMConfig, type AgentName, type Config } from '../utils/config.js'
+import { createPromptBudget } from '../prompts/budget.js'
 import { createLogger, type Logger } from '../utils/logger.js'
 import { type Result, ok, err } from '../utils/result.js'
+import { buildTaskGraph, executeTaskGraph, type TaskOutcome } from './taskGraph.js'
+import type { CheckpointStore } from './checkpoint.js'
+import { resolveEditBlocks, formatEditBlockErrors } from './staging.js'
 
 export type TaskResult = {
   task: Task
@@ -30,12 +48,28 @@ export type TaskResult = {
   skipped?: { reason: string }
 }
 
+export type InstalledPackages = {
+  packageManager: PackageManager | null
+  production: string[]
+  dev: string[]
+}
+
 export type PipelineResult = {
   success: boolean
   results: TaskResult[]
+  /** All task changes merged into one change set, one entry per path */
+  changes: MergedChange[]
+  /** Packages installed into the project during the run */
+  installedPackages: InstalledPackages
   errors: string[]
+  /** Tokens and wall time of the calls in `callLog`, by agent and task */
+  usage: UsageReport
+  /** Set when pipeline.maxTokensPerRun stopped LLM calls before the run finished */
+  tokenBudget?: { limit: number; used: number }
 }
 
+type CoderResult = Result<CoderOutput, AgentError>
+
 export type PipelineOptions = {
   llm: LLMClient
   tools: ToolKit
@@ -43,15 +77,25 @@ export type PipelineOptions = {
   logger?: Logger
   consentManager?: ConsentManager
   autoInstall?: boolean
+  /** Records every finished step; steps already recorded are replayed instead of re-run */
+  checkpoint?: CheckpointStore
+  /** Clients for agents configured with their own model; others use `llm` */
+  agentLLMs?: Partial<Record<AgentName, LLMClient>>
+  /** Hunks rejected when applying a previous run, fed to every coder call */
+  rejectedChanges?: string
+  /** Probed by `doctor`; fills in each agent's context window when the config leaves it unset */
+  capabilities?: CapabilityProfile[]
+  /** Records the calls made through the clients above for the usage report */
+  callLog?: CallLog
 }
 
 export async function runPipeline(
   request: string,
   options: PipelineOptions
 ): Promise<Result<PipelineResult, string>> {
-  const { llm, tools, config } = options
+  const { llm, tools, config, checkpoint } = options
   const logger = options.logger ?? createLogger({ level: 'info' })
-  const conversationId = randomUUID()
+  const conversationId = checkpoint?.runId ?? randomUUID()
 
   const pipelineLogger = logger.child('pipeline')
   pipelineLogger.info({ conversationId }, 'Starting pipeline')
@@ -85,18 +129,90 @@ export async function runPipeline(
     ? new ImportValidator(projectContext.dependencies, projectContext.devDependencies)
     : null
 
-  // Create agent context factory
-  const createAgentContext = (scope: string): AgentContext => ({
-    llm,
-    tools,
-    logger: logger.child(scope),
-    conversationId,
-  })
+  // Completed tasks layer their changes here so later tasks read the in-progress state
+  const workspace = createOverlayToolKit(tools)
+
+  // Once the run has used pipeline.maxTokensPerRun, calls already in flight finish but no new
+  // ones start: agents get a budget_exceeded error and tasks not yet started are skipped.
+  // Usage is saved in the checkpoint, so a resumed run continues from what it already used.
+  const maxTokens = config.pipeline.maxTokensPerRun
+  let tokensUsed = checkpoint?.getState().tokensUsed ?? 0
+  let budgetExceeded = false
+
+  const recordUsage = (usage: TokenUsage) => {
+    tokensUsed += totalTokens(usage)
+    checkpoint?.saveTokensUsed(tokensUsed)
+  }
+
+  const checkBudget = (): LLMError | undefined => {
+    if (maxTokens === undefined || tokensUsed < maxTokens) return undefined
+    if (!budgetExceeded) {
+      pipelineLogger.warn({ used: tokensUsed, limit: maxTokens }, 'Token budget exhausted, starting no more LLM calls')
+    }
+    budgetExceeded = true
+    return { type: 'budget_exceeded', message: `Token budget exhausted: ${tokensUsed} of ${maxTokens} tokens used (pipeline.maxTokensPerRun)` }
+  }
+
+  const withTokenBudget = (client: LLMClient): LLMClient => {
+    const refuse = (error: LLMError) => Promise.resolve(err(error))
+    const metered = <T extends { onUsage?: UsageCallback | undefined }>(callOptions: T | undefined) => ({
+      ...callOptions,
+      onUsage: (usage: TokenUsage) => {
+        recordUsage(usage)
+        callOptions?.onUsage?.(usage)
+      },
+    })
+    return {
+      generate: (messages, callOptions) => {
+        const exceeded = checkBudget()
+        return exceeded ? refuse(exceeded) : client.generate(messages, metered(callOptions))
+      },
+      stream: (messages, callOptions) => {
+        const exceeded = checkBudget()
+        return exceeded ? refuse(exceeded) : client.stream(messages, metered(callOptions))
+      },
+      generateStructured: (messages, schema, callOptions) => {
+        const exceeded = checkBudget()
+        return exceeded ? refuse(exceeded) : client.generateStructured(messages, schema, metered(callOptions))
+      },
+    }
+  }
+
+  // Create agent context factory; calls made for a task are attributed to it in usage reports
+  const createAgentContext = (scope: AgentName, taskId?: string): AgentContext => {
+    const agentConfig = config.agents[scope]
+    const agentLogger = logger.child(scope)
+    return {
+      llm: withTokenBudget(labelLLMClient(options.agentLLMs?.[scope] ?? llm, scope, taskId)),
+      tools: workspace,
+      logger: agentLogger,
+      conversationId,
+      toolBudget: 'maxToolCalls' in agentConfig ? agentConfig.maxToolCalls : 0,
+      promptBudget: createPromptBudget(
+        withCapabilities(resolveAgentLLMConfig(config, scope), options.capabilities ?? []),
+        agentLogger
+      ),
+    }
+  }
+
+  // Serve a step from the checkpoint when an earlier attempt of this run finished it,
+  // otherwise run it and record the output
+  const replayStep = async <T>(
+    saved: T | undefined,
+    run: () => Promise<Result<T, AgentError>>,
+    save: (value: T) => void
+  ): Promise<Result<T, AgentError>> => {
+    if (saved !== undefined) return ok(saved)
+    const result = await run()
+    if (result.ok) save(result.value)
+    return result
+  }
 
   // Step 1: Run planner
-  const planResult = await plannerAgent(
-    { request, projectContext: formattedContext },
-    createAgentContext('planner')
+  const planResult = await replayStep(
+    checkpoint?.getPlan(),
+    () => plannerAgent({ request, projectContext: formattedContext }, createAgentContext('planner')),
+    (plan) => checkpoint?.savePlan(plan)
   )
 
   if (!planResult.ok) {
@@ -106,353 +222,323 @@ export async function runPipeline(
   const tasks = planResult.value.tasks
   pipelineLogger.info({ taskCount: tasks.length }, 'Planning complete')
 
-  const results: TaskResult[] = []
-  const errors: string[] = []
-
-  // Step 2: Process each task
-  for (const task of tasks) {
-    pipelineLogger.info({ taskId: task.id, title: task.title }, 'Processing task')
+  const graphResult = buildTaskGraph(tasks)
+  if (!graphResult.ok) {
+    return err(`Invalid task plan: ${graphResult.error.message}`)
+  }
 
-    // Step 2a: Run architect
-    const archResult = await architectAgent(
-      {
-        task: { id: task.id, title: task.title, description: task.description },
-        projectContext: formattedContext,
-        existingFiles: task.estimatedFiles,
-      },
-      createAgentContext('architect')
-    )
+  const graph = graphResult.value
+  for (const unknown of graph.unknownDependencies) {
+    pipelineLogger.warn(unknown, 'Task depends on unknown task, ignoring dependency')
+  }
+  pipelineLogger.info({ levels: graph.levels }, 'Resolved task execution order')
 
-    if (!archResult.ok) {
-      const reason = `Architect failed: ${archResult.error.message}`
-      errors.push(`Architect failed for task ${task.id}: ${archResult.error.message}`)
-      results.push({
-        task,
-        changes: [],
-        reviewPassed: false,
-        reviewIssues: [],
-        skipped: { reason },
-      })
-      continue
-    }
+  const taskResults = new Map<string, TaskResult>()
+  const errors: string[] = []
 
-    const plan = archResult.value
+  // Installs and consent prompts touch shared project state (package.json,
+  // lock files, stdin), so concurrent tasks take turns through this queue
+  let installQueue: Promise<unknown> = Promise.resolve()
+  const withInstallLock = <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = installQueue.then(fn)
+    installQueue = run.catch(() => undefined)
+    return run
+  }
 
-    // Gather relevant file contents
-    const relevantFiles: Array<{ path: string; content: string }> = []
-    for (const file of plan.files) {
-      if (file.operation === 'modify') {
-        const readResult = tools.readFile(file.path)
-        if (readResult.ok) {
-          relevantFiles.push({ path: file.path, content: readResult.value })
-        }
+  // Coder whose edit blocks are resolved into full file contents against the
+  // workspace, re-prompting with the failing anchors when a block does not match
+  const runCoder: Agent<CoderInput, CoderOutput> = async (input, context) => {
+    let attemptInput = input
+    for (let attempt = 0; ; attempt++) {
+      const result = await coderAgent(attemptInput, context)
+      if (!result.ok) return result
+
+      const resolved = resolveEditBlocks(result.value.changes, workspace)
+      if (resolved.ok) {
+        return ok({ ...result.value, changes: resolved.value })
       }
-    }
 
-    // Step 2b: Run coder with retry loop
-    const coderInput = {
-      task: { id: task.id, title: task.title, description: task.description },
-      plan: {
-        files: plan.files.map((f) => ({
-          path: f.path,
-          operation: f.operation,
-          description: f.description,
-        })),
-        reasoning: plan.reasoning,
-      },
-      relevantFiles,
-      dependencyContext,
-    }
+      const feedback = formatEditBlockErrors(resolved.error)
+      pipelineLogger.info(
+        { taskId: input.task.id, attempt: attempt + 1, failedBlocks: resolved.error.length },
+        'Coder edit blocks did not match'
+      )
 
-    let codeResult = await coderAgent(coderInput, createAgentContext('coder'))
+      if (attempt >= config.pipeline.maxEditRetries) {
+        return err({
+          type: 'tool_error',
+          message: `Edit blocks could not be applied:\n${feedback}`,
+          details: resolved.error,
+          retryable: false,
+        })
+      }
 
-    if (!codeResult.ok) {
-      const reason = `Coder failed: ${codeResult.error.message}`
-      errors.push(`Coder failed for task ${task.id}: ${codeResult.error.message}`)
-      results.push({
-        task,
-        changes: [],
-        reviewPassed: false,
-        reviewIssues: [],
-        skipped: { reason },
-      })
-      continue
+      attemptInput = { ...input, editFeedback: feedback }
     }
+  }
 
-    // Step 2b-2: Import validation + dependency installation loop (before review)
-    if (importValidator) {
-      const jsExtensions = /\.(ts|js|tsx|jsx|mjs|cjs)$/
-
-      for (let importAttempt = 0; importAttempt < config.pipeline.maxImportRetries; importAttempt++) {
-        const allMissing: string[] = []
-        const allSuggestions: string[] = []
-        // Track which files import each package for categorization
-        const packageFileMap = new Map<string, string[]>()
-        // Collect structured alternatives for consent UX
-        const allAlternatives = new Map<string, AlternativeInfo>()
-
-        for (const change of codeResult.value.changes) {
-          if (!jsExtensions.test(change.path)) continue
-          const result = importValidator.validate(change.content)
-          if (!result.valid) {
-            allMissing.push(...result.missingPackages)
-            allSuggestions.push(...result.suggestedFixes)
-            for (const pkg of result.missingPackages) {
-              const files = packageFileMap.get(pkg) ?? []
-              files.push(change.path)
-              packageFileMap.set(pkg, files)
-            }
-            for (const [pkg, altInfo] of result.alternatives) {
-              allAlternatives.set(pkg, altInfo)
-            }
+  // Import validation + dependency installation loop, run before review
+  const resolveImports = async (
+    task: Task,
+    coderInput: CoderInput,
+    initial: CoderResult
+  ): Promise<CoderResult> => {
+    let codeResult = initial
+    if (!codeResult.ok || !importValidator) return codeResult
+
+    const jsExtensions = /\.(ts|js|tsx|jsx|mjs|cjs)$/
+
+    for (let importAttempt = 0; importAttempt < config.pipeline.maxImportRetries; importAttempt++) {
+      const allMissing: string[] = []
+      const allSuggestions: string[] = []
+      // Track which files import each package for categorization
+      const packageFileMap = new Map<string, string[]>()
+      // Collect structured alternatives for consent UX
+      const allAlternatives = new Map<string, AlternativeInfo>()
+
+      for (const change of codeResult.value.changes) {
+        if (!jsExtensions.test(change.path)) continue
+        const result = importValidator.validate(change.content)
+        if (!result.valid) {
+          allMissing.push(...result.missingPackages)
+          allSuggestions.push(...result.suggestedFixes)
+          for (const pkg of result.missingPackages) {
+            const files = packageFileMap.get(pkg) ?? []
+            files.push(change.path)
+            packageFileMap.set(pkg, files)
+          }
+          for (const [pkg, altInfo] of result.alternatives) {
+            allAlternatives.set(pkg, altInfo)
           }
         }
+      }
 
-        if (allMissing.length === 0) break
+      if (allMissing.length === 0) break
 
-        const uniqueMissing = [...new Set(allMissing)]
-        const uniqueSuggestions = [...new Set(allSuggestions)]
+      const uniqueMissing = [...new Set(allMissing)]
+      const uniqueSuggestions = [...new Set(allSuggestions)]
 
-        pipelineLogger.info(
-          { taskId: task.id, attempt: importAttempt + 1, missingPackages: uniqueMissing },
-          'Import validation found missing packages'
-        )
+      pipelineLogger.info(
+        { taskId: task.id, attempt: importAttempt + 1, missingPackages: uniqueMissing },
+        'Import validation found missing packages'
+      )
 
-        // Try installing missing packages if PM is detected
-        if (detectedPM) {
-          // Registry validation: check which packages actually exist on npm
-          const registryResults = await validatePackagesBatch(uniqueMissing)
-          const registryValid: string[] = []
-          const registryInvalid: string[] = []
-
-          for (const [pkg, result] of registryResults) {
-            if (result.exists) {
-              registryValid.push(pkg)
-            } else {
-              registryInvalid.push(pkg)
-              pipelineLogger.warn({ package: pkg, error: result.error }, 'Package not found on registry')
-            }
+      // Try installing missing packages if PM is detected
+      if (detectedPM) {
+        // Registry validation: check which packages actually exist on npm
+        const registryResults = await validatePackagesBatch(uniqueMissing)
+        const registryValid: string[] = []
+        const registryInvalid: string[] = []
+
+        for (const [pkg, result] of registryResults) {
+          if (result.exists) {
+            registryValid.push(pkg)
+          } else {
+            registryInvalid.push(pkg)
+            pipelineLogger.warn({ package: pkg, error: result.error }, 'Package not found on registry')
           }
+        }
 
-          // Consent for valid packages
-          let approved: string[] = []
-          let rejected: string[] = []
-          // Track packages where user chose a built-in alternative
-          let selectedAlternatives = new Map<string, string>()
-
-          if (registryValid.length > 0) {
-
-            if (options.autoInstall) {
-              // --auto-install flag: skip consent
-              approved = registryValid
-              pipelineLogger.info({ packages: approved }, 'Auto-installing packages')
-            } else if (options.consentManager) {
-              const batchResult = await options.consentManager.checkBatchApprovalWithAlternatives(
-                registryValid,
-                {
-                  alternatives: allAlternatives,
-                  fileContext: packageFileMap,
-                }
-              )
-              approved = batchResult.approved
-              rejected = [...batchResult.rejected]
-              selectedAlternatives = batchResult.alternatives
-            } else {
-              // No consent manager and no auto-install — can't install
-              approved = []
-              rejected = registryValid
-            }
+        // Consent for valid packages
+        let approved: string[] = []
+        let rejected: string[] = []
+        // Track packages where user chose a built-in alternative
+        let selectedAlternatives = new Map<string, string>()
+
+        if (registryValid.length > 0) {
+
+          if (options.autoInstall) {
+            // --auto-install flag: skip consent
+            approved = registryValid
+            pipelineLogger.info({ packages: approved }, 'Auto-installing packages')
+          } else if (options.consentManager) {
+            const batchResult = await options.consentManager.checkBatchApprovalWithAlternatives(
+              registryValid,
+              {
+                alternatives: allAlternatives,
+                fileContext: packageFileMap,
+              }
+            )
+            approved = batchResult.approved
+            rejected = [...batchResult.rejected]
+            selectedAlternatives = batchResult.alternatives
+          } else {
+            // No consent manager and no auto-install — can't install
+            approved = []
+            rejected = registryValid
+          }
 
-            // Categorize and install approved packages
-            if (approved.length > 0) {
-              const entries = approved.map((pkg) => ({
-                name: pkg,
-                files: packageFileMap.get(pkg) ?? [],
-              }))
-              const categorized = categorizePackages(entries)
+          // Categorize and install approved packages
+          if (approved.length > 0) {
+            const entries = approved.map((pkg) => ({
+              name: pkg,
+              files: packageFileMap.get(pkg) ?? [],
+            }))
+            const categorized = categorizePackages(entries)
 
-              pipelineLogger.info(
-                { prod: categorized.production, dev: categorized.dev, pm: detectedPM },
-                'Installing categorized packages'
-              )
+            pipelineLogger.info(
+              { prod: categorized.production, dev: categorized.dev, pm: detectedPM },
+              'Installing categorized packages'
+            )
 
-              const allInstalled: string[] = []
-              let installFailed = false
-              let lastInstallError: import('../tools/packageInstaller.js').InstallError | null = null
-
-              // Install production packages first
-              if (categorized.production.length > 0) {
-                const prodBackup = createBackup(tools.getProjectRoot(), detectedPM)
-
-                const prodResult = await installPackages({
-                  packageManager: detectedPM,
-                  packages: categorized.production,
-                  projectRoot: tools.getProjectRoot(),
-                  category: 'prod',
-                })
-
-                if (prodResult.ok) {
-                  allInstalled.push(...categorized.production)
-                  installedProd.push(...categorized.production)
-                  cleanupBackup(prodBackup)
-                } else {
-                  restoreBackup(prodBackup)
-                  lastInstallError = prodResult.error
-                  pipelineLogger.warn(
-                    { error: prodResult.error.message },
-                    'Production install failed, rolled back project state'
-                  )
-                  registryInvalid.push(...categorized.production)
-                  installFailed = true
-                }
+            const allInstalled: string[] = []
+            let installFailed = false
+            let lastInstallError: import('../tools/packageInstaller.js').InstallError | null = null
+
+            // Install production packages first
+            if (categorized.production.length > 0) {
+              const prodBackup = createBackup(tools.getProjectRoot(), detectedPM)
+
+              const prodResult = await installPackages({
+                packageManager: detectedPM,
+                packages: categorized.production,
+                projectRoot: tools.getProjectRoot(),
+                category: 'prod',
+              })
+
+              if (prodResult.ok) {
+                allInstalled.push(...categorized.production)
+                installedProd.push(...categorized.production)
+                cleanupBackup(prodBackup)
+              } else {
+                restoreBackup(prodBackup)
+                lastInstallError = prodResult.error
+                pipelineLogger.warn(
+                  { error: prodResult.error.message },
+                  'Production install failed, rolled back project state'
+                )
+                registryInvalid.push(...categorized.production)
+                installFailed = true
               }
+            }
 
-              // Install dev packages
-              if (categorized.dev.length > 0) {
-                const devBackup = createBackup(tools.getProjectRoot(), detectedPM)
-
-                const devResult = await installPackages({
-                  packageManager: detectedPM,
-                  packages: categorized.dev,
-                  projectRoot: tools.getProjectRoot(),
-                  category: 'dev',
-                })
-
-                if (devResult.ok) {
-                  allInstalled.push(...categorized.dev)
-                  installedDev.push(...categorized.dev)
-                  cleanupBackup(devBackup)
-                } else {
-                  restoreBackup(devBackup)
-                  lastInstallError = devResult.error
-                  pipelineLogger.warn(
-                    { error: devResult.error.message },
-                    'Dev install failed, rolled back project state'
-                  )
-                  registryInvalid.push(...categorized.dev)
-                  installFailed = true
-                }
+            // Install dev packages
+            if (categorized.dev.length > 0) {
+              const devBackup = createBackup(tools.getProjectRoot(), detectedPM)
+
+              const devResult = await installPackages({
+                packageManager: detectedPM,
+                packages: categorized.dev,
+                projectRoot: tools.getProjectRoot(),
+                category: 'dev',
+              })
+
+              if (devResult.ok) {
+                allInstalled.push(...categorized.dev)
+                installedDev.push(...categorized.dev)
+                cleanupBackup(devBackup)
+              } else {
+                restoreBackup(devBackup)
+                lastInstallError = devResult.error
+                pipelineLogger.warn(
+                  { error: devResult.error.message },
+                  'Dev install failed, rolled back project state'
+                )
+                registryInvalid.push(...categorized.dev)
+                installFailed = true
               }
+            }
 
-              if (allInstalled.length > 0) {
-                pipelineLogger.info({ packages: allInstalled }, 'Packages installed successfully')
-
-                // Rebuild ImportValidator with separate prod/dev tracking
-                importValidator = new ImportValidator(
-                  [...projectContext.dependencies, ...installedProd],
-                  [...projectContext.devDependencies, ...installedDev]
-                )
+            if (allInstalled.length > 0) {
+              pipelineLogger.info({ packages: allInstalled }, 'Packages installed successfully')
 
-                // Re-validate imports after installation
-                let allResolved = true
-                for (const change of codeResult.value.changes) {
-                  if (!jsExtensions.test(change.path)) continue
-                  const recheck = importValidator.validate(change.content)
-                  if (!recheck.valid) {
-                    allResolved = false
-                    break
-                  }
-                }
+              // Rebuild ImportValidator with separate prod/dev tracking
+              importValidator = new ImportValidator(
+                [...projectContext.dependencies, ...installedProd],
+                [...projectContext.devDependencies, ...installedDev]
+              )
 
-                if (allResolved) {
-                  pipelineLogger.info({}, 'All imports resolved after installation')
-                  break // No need to re-run coder
+              // Re-validate imports after installation
+              let allResolved = true
+              for (const change of codeResult.value.changes) {
+                if (!jsExtensions.test(change.path)) continue
+                const recheck = importValidator.validate(change.content)
+                if (!recheck.valid) {
+                  allResolved = false
+                  break
                 }
               }
 
-              if (installFailed && allInstalled.length === 0) {
-                // All installations failed — send structured feedback to coder
-                const failedPkgs = [...categorized.production, ...categorized.dev]
-                const feedback = formatInstallFailureFeedback(failedPkgs, lastInstallError!, detectedPM)
+              if (allResolved) {
+                pipelineLogger.info({}, 'All imports resolved after installation')
+                break // No need to re-run coder
+              }
+            }
 
-                pipelineLogger.info(
-                  { taskId: task.id, failedPackages: failedPkgs },
-                  'Retrying coder with install failure feedback'
-                )
+            if (installFailed && allInstalled.length === 0) {
+              // All installations failed — send structured feedback to coder
+              const failedPkgs = [...categorized.production, ...categorized.dev]
+              const feedback = formatInstallFailureFeedback(failedPkgs, lastInstallError!, detectedPM)
 
-                codeResult = await coderAgent(
-                  { ...coderInput, importValidationFeedback: feedback },
-                  createAgentContext('coder')
-                )
+              pipelineLogger.info(
+                { taskId: task.id, failedPackages: failedPkgs },
+                'Retrying coder with install failure feedback'
+              )
 
-                if (!codeResult.ok) {
-                  errors.push(`Coder failed after install rollback for task ${task.id}: ${codeResult.error.message}`)
-                  break
-                }
+              codeResult = await runCoder(
+                { ...coderInput, importValidationFeedback: feedback },
+                createAgentContext('coder', task.id)
+              )
 
-                // Coder rewrote without failed packages - exit import validation loop
+              if (!codeResult.ok) {
+                errors.push(`Coder failed after install rollback for task ${task.id}: ${codeResult.error.message}`)
                 break
               }
+
+              // Coder rewrote without failed packages - exit import validation loop
+              break
             }
           }
+        }
 
-          // Handle alternative selections: trigger coder retry with built-in replacement instructions
-          if (selectedAlternatives.size > 0) {
-            const altFeedbackLines: string[] = []
-            for (const [pkg, altModule] of selectedAlternatives) {
-              const altInfo = allAlternatives.get(pkg)
-              altFeedbackLines.push(
-                `User chose built-in alternative for "${pkg}". Replace all imports of "${pkg}" with "${altModule}".`
-              )
-              if (altInfo?.example) {
-                altFeedbackLines.push(`  Example: ${altInfo.example}`)
-              }
+        // Handle alternative selections: trigger coder retry with built-in replacement instructions
+        if (selectedAlternatives.size > 0) {
+          const altFeedbackLines: string[] = []
+          for (const [pkg, altModule] of selectedAlternatives) {
+            const altInfo = allAlternatives.get(pkg)
+            altFeedbackLines.push(
+              `User chose built-in alternative for "${pkg}". Replace all imports of "${pkg}" with "${altModule}".`
+            )
+            if (altInfo?.example) {
+              altFeedbackLines.push(`  Example: ${altInfo.example}`)
             }
+          }
 
-            pipelineLogger.info(
-              { taskId: task.id, alternatives: [...selectedAlternatives.keys()] },
-              'Rewriting code with built-in alternatives'
-            )
+          pipelineLogger.info(
+            { taskId: task.id, alternatives: [...selectedAlternatives.keys()] },
+            'Rewriting code with built-in alternatives'
+          )
 
-            codeResult = await coderAgent(
-              { ...coderInput, importValidationFeedback: altFeedbackLines.join('\n') },
-              createAgentContext('coder')
-            )
+          codeResult = await runCoder(
+            { ...coderInput, importValidationFeedback: altFeedbackLines.join('\n') },
+            createAgentContext('coder', task.id)
+          )
 
-            if (!codeResult.ok) {
-              errors.push(`Coder alternative-rewrite failed for task ${task.id}: ${codeResult.error.message}`)
-              break
-            }
+          if (!codeResult.ok) {
+            errors.push(`Coder alternative-rewrite failed for task ${task.id}: ${codeResult.error.message}`)
+            break
           }
+        }
 
-          // Build feedback for packages that couldn't be installed
-          const unresolvable = [...registryInvalid, ...rejected]
-          if (unresolvable.length > 0) {
-            const feedbackLines: string[] = []
-            for (const pkg of registryInvalid) {
-              const suggestion = uniqueSuggestions.find((s) => s.startsWith(`${pkg}:`))
-              feedbackLines.push(
-                `Package "${pkg}" does not exist on npm registry. ${suggestion ?? 'Remove this import or implement manually.'}`
-              )
-            }
-            for (const pkg of rejected) {
-              feedbackLines.push(
-                `Package "${pkg}" was rejected by user. Rewrite without using this package.`
-              )
-            }
-
-            codeResult = await coderAgent(
-              { ...coderInput, importValidationFeedback: feedbackLines.join('\n') },
-              createAgentContext('coder')
+        // Build feedback for packages that couldn't be installed
+        const unresolvable = [...registryInvalid, ...rejected]
+        if (unresolvable.length > 0) {
+          const feedbackLines: string[] = []
+          for (const pkg of registryInvalid) {
+            const suggestion = uniqueSuggestions.find((s) => s.startsWith(`${pkg}:`))
+            feedbackLines.push(
+              `Package "${pkg}" does not exist on npm registry. ${suggestion ?? 'Remove this import or implement manually.'}`
+            )
+          }
+          for (const pkg of rejected) {
+            feedbackLines.push(
+              `Package "${pkg}" was rejected by user. Rewrite without using this package.`
             )
-
-            if (!codeResult.ok) {
-              errors.push(`Coder import-fix retry failed for task ${task.id}: ${codeResult.error.message}`)
-              break
-            }
           }
-        } else {
-          // No PM detected — fall back to original behavior (tell coder to rewrite)
-          const feedbackLines = [
-            `The following packages are NOT installed and MUST NOT be imported: ${uniqueMissing.join(', ')}`,
-            '',
-            'Suggested alternatives:',
-            ...uniqueSuggestions.map((s) => `- ${s}`),
-          ]
-
-          codeResult = await coderAgent(
+
+          codeResult = await runCoder(
             { ...coderInput, importValidationFeedback: feedbackLines.join('\n') },
-            createAgentContext('coder')
+            createAgentContext('coder', task.id)
           )
 
           if (!codeResult.ok) {
@@ -460,34 +546,275 @@ export async function runPipeline(
             break
           }
         }
+      } else {
+        // No PM detected — fall back to original behavior (tell coder to rewrite)
+        const feedbackLines = [
+          `The following packages are NOT installed and MUST NOT be imported: ${uniqueMissing.join(', ')}`,
+          '',
+          'Suggested alternatives:',
+          ...uniqueSuggestions.map((s) => `- ${s}`),
+        ]
+
+        codeResult = await runCoder(
+          { ...coderInput, importValidationFeedback: feedbackLines.join('\n') },
+          createAgentContext('coder', task.id)
+        )
+
+        if (!codeResult.ok) {
+          errors.push(`Coder import-fix retry failed for task ${task.id}: ${codeResult.error.message}`)
+          break
+        }
+      }
+    }
+
+    return codeResult
+  }
+
+  // Typecheck/test commands run against a scratch copy of the project with changes applied
+  const verificationCommands = config.verification.enabled
+    ? config.verification.commands ?? detectVerificationCommands(tools, detectedPM ?? 'npm')
+    : []
+  if (config.verification.enabled && verificationCommands.length === 0) {
+    pipelineLogger.warn({}, 'Verification enabled but no typecheck or test command detected')
+  }
+
+  // Results for the unmodified project, computed on first use so diagnostics that
+  // already existed before this run are not attributed to the coder. Concurrent tasks
+  // share the one pending run.
+  let verificationBaseline: Promise<Result<CommandVerification[], string>> | null = null
+
+  const runBaseline = async (): Promise<Result<CommandVerification[], string>> => {
+    const pristine = createScratchWorkspace(tools.getProjectRoot(), [])
+    if (!pristine.ok) return err(pristine.error.message)
+    try {
+      return ok(await runVerificationCommands(
+        pristine.value.tools,
+        verificationCommands,
+        config.verification.timeoutMs
+      ))
+    } finally {
+      pristine.value.cleanup()
+    }
+  }
+
+  const verifyChanges = async (changes: FileChange[]): Promise<Result<VerificationResult, string>> => {
+    verificationBaseline ??= runBaseline()
+    const baseline = await verificationBaseline
+    if (!baseline.ok) {
+      // Not cached, so the next verification tries the baseline again
+      verificationBaseline = null
+      return baseline
+    }
+
+    const scratch = createScratchWorkspace(tools.getProjectRoot(), changes)
+    if (!scratch.ok) return err(scratch.error.message)
+    try {
+      const current = await runVerificationCommands(
+        scratch.value.tools,
+        verificationCommands,
+        config.verification.timeoutMs
+      )
+      return ok(compareWithBaseline(current, baseline.value))
+    } finally {
+      scratch.value.cleanup()
+    }
+  }
+
+  // Verification loop, run after import validation and before review
+  const verifyCode = async (
+    task: Task,
+    coderInput: CoderInput,
+    initial: CoderResult
+  ): Promise<CoderResult> => {
+    let codeResult = initial
+    if (!codeResult.ok || verificationCommands.length === 0) return codeResult
+
+    for (let attempt = 0; ; attempt++) {
+      // Earlier tasks' changes are part of the tree this task's code must compile against
+      const taskPaths = new Set(codeResult.value.changes.map((c) => c.path))
+      const changes = [
+        ...workspace.getMergedChanges().filter((c) => !taskPaths.has(c.path)),
+        ...codeResult.value.changes,
+      ]
+
+      const verified = await verifyChanges(changes)
+      if (!verified.ok) {
+        pipelineLogger.warn({ taskId: task.id, error: verified.error }, 'Verification could not run, skipping')
+        return codeResult
+      }
+
+      const { diagnostics } = verified.value
+      if (verified.value.passed) {
+        pipelineLogger.info({ taskId: task.id }, 'Verification passed')
+        return codeResult
+      }
+
+      pipelineLogger.info(
+        { taskId: task.id, attempt: attempt + 1, diagnosticCount: diagnostics.length },
+        'Verification found problems'
+      )
+
+      if (attempt >= config.verification.maxRetries) {
+        errors.push(
+          `Verification failed for task ${task.id}:\n${formatVerificationDiagnostics(diagnostics)}`
+        )
+        return codeResult
+      }
+
+      codeResult = await runCoder(
+        { ...coderInput, verificationFeedback: diagnostics },
+        createAgentContext('coder', task.id)
+      )
+
+      if (!codeResult.ok) {
+        errors.push(`Coder verification-fix retry failed for task ${task.id}: ${codeResult.error.message}`)
+        return codeResult
+      }
+    }
+  }
+
+  // Step 2: Process a single task (architect -> coder -> imports -> verification -> review)
+  const processTask = async (task: Task): Promise<TaskResult | null> => {
+    pipelineLogger.info({ taskId: task.id, title: task.title }, 'Processing task')
+
+    const saved = checkpoint?.getTask(task.id)
+    if (saved?.result) {
+      pipelineLogger.info({ taskId: task.id }, 'Task already completed in checkpoint, reusing result')
+      return { task, ...saved.result }
+    }
+
+    // Re-gather context once earlier tasks have produced files so the tree includes them
+    const taskContext = workspace.getMergedChanges().length > 0
+      ? formatProjectContext(gatherProjectContext(workspace, config.context))
+      : formattedContext
+
+    // Step 2a: Run architect
+    const archResult = await replayStep(
+      saved?.architect,
+      () => architectAgent(
+        {
+          task: { id: task.id, title: task.title, description: task.description },
+          projectContext: taskContext,
+          existingFiles: task.estimatedFiles,
+        },
+        createAgentContext('architect', task.id)
+      ),
+      (output) => checkpoint?.saveArchitect(task.id, output)
+    )
+
+    if (!archResult.ok) {
+      const reason = `Architect failed: ${archResult.error.message}`
+      errors.push(`Architect failed for task ${task.id}: ${archResult.error.message}`)
+      return {
+        task,
+        changes: [],
+        reviewPassed: false,
+        reviewIssues: [],
+        skipped: { reason },
+      }
+    }
+
+    const plan = archResult.value
+
+    // Gather relevant file contents
+    const relevantFiles: Array<{ path: string; content: string }> = []
+    for (const file of plan.files) {
+      // Renamed files are read from their current location
+      const source = file.operation === 'modify' ? file.path : file.operation === 'rename' ? file.from : undefined
+      if (source !== undefined) {
+        const readResult = workspace.readFile(source)
+        if (readResult.ok) {
+          relevantFiles.push({ path: source, content: readResult.value })
+        }
+      }
+    }
+
+    // Step 2b: Run coder with retry loop
+    const coderInput = {
+      task: { id: task.id, title: task.title, description: task.description },
+      plan: {
+        files: plan.files.map((f) => ({
+          path: f.path,
+          operation: f.operation,
+          from: f.from,
+          description: f.description,
+        })),
+        reasoning: plan.reasoning,
+      },
+      relevantFiles,
+      dependencyContext,
+      ...(options.rejectedChanges && { rejectedChanges: options.rejectedChanges }),
+    }
+
+    let codeResult: CoderResult
+    const savedCode = saved?.code[0]
+
+    if (savedCode) {
+      codeResult = ok(savedCode)
+    } else {
+      const initialCode = await runCoder(coderInput, createAgentContext('coder', task.id))
+
+      if (!initialCode.ok) {
+        const reason = `Coder failed: ${initialCode.error.message}`
+        errors.push(`Coder failed for task ${task.id}: ${initialCode.error.message}`)
+        return {
+          task,
+          changes: [],
+          reviewPassed: false,
+          reviewIssues: [],
+          skipped: { reason },
+        }
+      }
+
+      codeResult = initialCode
+
+      // Step 2b-2: Import validation + dependency installation loop (before review)
+      if (importValidator) {
+        codeResult = await withInstallLock(() => resolveImports(task, coderInput, initialCode))
       }
 
-      if (!codeResult.ok) continue
+      // Step 2b-3: Typecheck/test verification (before review)
+      codeResult = await verifyCode(task, coderInput, codeResult)
+    }
+
+    if (!codeResult.ok) return null
+    if (!savedCode) {
+      checkpoint?.saveCode(task.id, 0, codeResult.value)
     }
 
     let reviewPassed = false
     let reviewIssues: ReviewIssue[] = []
+    // Left unset when the reviewer errored so a resumed run retries the review
+    let reviewSettled = true
 
     // Step 2c: Review loop
     for (let attempt = 0; attempt <= config.pipeline.maxReviewRetries; attempt++) {
-      const reviewResult = await reviewerAgent(
-        {
-          originalRequest: request,
-          task: { id: task.id, title: task.title, description: task.description },
-          changes: codeResult.value.changes.map((c) => ({
-            path: c.path,
-            content: c.content,
-          })),
-          projectDependencies: [
-            ...projectContext.dependencies,
-            ...projectContext.devDependencies,
-          ],
-        },
-        createAgentContext('reviewer')
+      const reviewed: CoderOutput = codeResult.value
+      const reviewResult: Result<ReviewerOutput, AgentError> = await replayStep(
+        saved?.reviews[attempt],
+        () => reviewerAgent(
+          {
+            originalRequest: request,
+            task: { id: task.id, title: task.title, description: task.description },
+            changes: reviewed.changes.map((c) => ({
+              path: c.path,
+              content: c.content,
+              operation: c.operation,
+              from: c.from,
+            })),
+            projectDependencies: [
+              ...projectContext.dependencies,
+              ...projectContext.devDependencies,
+            ],
+          },
+          createAgentContext('reviewer', task.id)
+        ),
+        (review) => checkpoint?.saveReview(task.id, attempt, review)
       )
 
       if (!reviewResult.ok) {
         errors.push(`Reviewer failed for task ${task.id}: ${reviewResult.error.message}`)
+        reviewSettled = false
         break
       }
 
@@ -505,15 +832,22 @@ export async function runPipeline(
           'Retrying coder with review feedback'
         )
 
-        codeResult = await coderAgent(
-          {
-            ...coderInput,
-            reviewFeedback: {
-              issues: reviewResult.value.issues,
-              summary: reviewResult.value.summary,
-            },
+        const review: ReviewerOutput = reviewResult.value
+        const retryInput: CoderInput = {
+          ...coderInput,
+          reviewFeedback: {
+            issues: review.issues,
+            summary: review.summary,
           },
-          createAgentContext('coder')
+        }
+        codeResult = await replayStep(
+          saved?.code[attempt + 1],
+          async () => verifyCode(
+            task,
+            retryInput,
+            await runCoder(retryInput, createAgentContext('coder', task.id))
+          ),
+          (output) => checkpoint?.saveCode(task.id, attempt + 1, output)
         )
 
         if (!codeResult.ok) {
@@ -523,22 +857,88 @@ export async function runPipeline(
       }
     }
 
-    if (codeResult.ok) {
-      results.push({
-        task,
-        changes: codeResult.value.changes,
-        reviewPassed,
-        reviewIssues,
-      })
+    if (!codeResult.ok) return null
+
+    const outcome = {
+      changes: codeResult.value.changes,
+      reviewPassed,
+      reviewIssues,
+    }
+    if (reviewSettled) {
+      checkpoint?.saveTaskResult(task.id, outcome)
     }
+
+    return { task, ...outcome }
   }
 
+  // Step 3: Run tasks in dependency order, independent tasks concurrently
+  await executeTaskGraph(graph, {
+    concurrency: config.pipeline.maxConcurrentTasks,
+    run: async (task): Promise<TaskOutcome> => {
+      const exceeded = checkBudget()
+      if (exceeded) {
+        taskResults.set(task.id, { task, changes: [], reviewPassed: false, reviewIssues: [], skipped: { reason: exceeded.message } })
+        return 'skipped'
+      }
+
+      // Results replayed from the checkpoint were checked when they were produced
+      const startedAt = checkpoint?.getTask(task.id).result ? undefined : workspace.getRevision()
+      const taskResult = await processTask(task)
+      if (!taskResult) return 'failed'
+      if (taskResult.skipped) {
+        taskResults.set(task.id, taskResult)
+        return 'skipped'
+      }
+
+      // A concurrent task changed a file this one rewrote from an older version;
+      // layering it would silently drop the other task's edits
+      const overwritten = workspace.applyLayer(taskResult.changes, task.id, startedAt)
+      if (overwritten.length > 0) {
+        const message = `Task ${task.id} was not applied: another task changed ${overwritten.join(', ')} while it ran`
+        pipelineLogger.warn({ taskId: task.id, paths: overwritten }, 'Task changes conflict with a concurrent task')
+        errors.push(checkpoint ? `${message}. Resume to run its coder again.` : message)
+        checkpoint?.reopenTask(task.id)
+        taskResults.set(task.id, { ...taskResult, changes: [], reviewPassed: false })
+        return 'failed'
+      }
+
+      taskResults.set(task.id, taskResult)
+      return taskResult.reviewPassed ? 'succeeded' : 'failed'
+    },
+    skip: (task, reason) => {
+      pipelineLogger.warn({ taskId: task.id, reason }, 'Skipping task')
+      taskResults.set(task.id, {
+        task,
+        changes: [],
+        reviewPassed: false,
+        reviewIssues: [],
+        skipped: { reason },
+      })
+    },
+  })
+
+  const results = graph.order
+    .map((id) => taskResults.get(id))
+    .filter((r): r is TaskResult => r !== undefined)
+
   const success = results.length > 0 && results.every((r) => r.reviewPassed)
+  // A run with failed or skipped tasks is left resumable instead of marked finished
+  checkpoint?.setStatus(success ? 'completed' : 'interrupted')
 
   pipelineLogger.info(
     { success, taskCount: results.length, errorCount: errors.length },
     'Pipeline complete'
   )
 
-  return ok({ success, results, errors })
+  const tokenBudget = budgetExceeded && maxTokens !== undefined ? { limit: maxTokens, used: tokensUsed } : undefined
+
+  return ok({
+    success,
+    results,
+    changes: workspace.getMergedChanges(),
+    installedPackages: { packageManager: detectedPM, production: installedProd, dev: installedDev },
+    errors,
+    usage: summarizeUsage(options.callLog?.getCalls() ?? []),
+    ...(tokenBudget && { tokenBudget }),
+  })
 }
@@ -1,12 +1,35 @@
-import type { FileChange } from '../schemas/coder.js'
+import { createHash } from 'node:crypto'
+import type { FileChange, EditBlock } from '../schemas/coder.js'
 import type { ToolKit } from '../tools/toolkit.js'
-import { type Result, ok, err, all } from '../utils/result.js'
+import {
+  applyHunks,
+  computeHunks,
+  formatFilePatch,
+  formatHunk,
+  formatPatch,
+  DEFAULT_CONTEXT_LINES,
+  type Hunk,
+  type PatchFile,
+} from './diff.js'
+import { type Result, ok, err } from '../utils/result.js'
 
 export type StagedChange = {
   path: string
   content: string
   isNew: boolean
+  /** write creates or modifies `path`; rename moves `from` to `path` */
+  operation: 'write' | 'delete' | 'rename'
+  from?: string | undefined
+  /** Content on disk before the change (the source file for renames) */
   originalContent?: string | undefined
+  /** sha256 of originalContent, checked again right before applying */
+  originalHash?: string | undefined
+  /** Renames only: content of the file already at `path`, undefined when the target was free */
+  targetContent?: string | undefined
+  /** Renames only: sha256 of targetContent */
+  targetHash?: string | undefined
+  /** Tasks that contributed to this change, when staged from a merged change set */
+  taskIds?: string[] | undefined
 }
 
 export type StagingResult = {
@@ -14,88 +37,451 @@ export type StagingResult = {
   applied: boolean
 }
 
+export type ApplyError = {
+  type: 'conflict' | 'write_failed'
+  message: string
+  /** Paths changed on disk since staging */
+  conflicts: string[]
+}
+
+export type EditBlockError = {
+  path: string
+  /** 1-based position of the failing block within the file's edits */
+  block: number
+  reason: 'not_found' | 'ambiguous' | 'missing_file'
+  message: string
+}
+
+function lineNumberAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length
+}
+
+function findOccurrences(content: string, search: string): number[] {
+  const positions: number[] = []
+  let index = content.indexOf(search)
+  while (index !== -1) {
+    positions.push(index)
+    index = content.indexOf(search, index + 1)
+  }
+  return positions
+}
+
 /**
- * Stage changes without applying them
+ * Find the search text line by line, ignoring trailing whitespace and CR.
+ * Returns the character range of each match (without the final newline).
  */
-export function stageChanges(
+function findLineMatches(content: string, search: string): Array<{ start: number; end: number }> {
+  const lines = content.split('\n')
+  const searchLines = search.replace(/\n$/, '').split('\n').map((l) => l.trimEnd())
+  const starts: number[] = []
+  let offset = 0
+  for (const line of lines) {
+    starts.push(offset)
+    offset += line.length + 1
+  }
+
+  const matches: Array<{ start: number; end: number }> = []
+  for (let i = 0; i + searchLines.length <= lines.length; i++) {
+    const matched = searchLines.every((searchLine, j) => lines[i + j]?.trimEnd() === searchLine)
+    if (matched) {
+      const last = i + searchLines.length - 1
+      // Keep the last line's CR so the file's line endings survive
+      const lastLength = (lines[last] ?? '').replace(/\r$/, '').length
+      matches.push({ start: starts[i] ?? 0, end: (starts[last] ?? 0) + lastLength })
+    }
+  }
+  return matches
+}
+
+function describeMismatch(content: string, search: string): string {
+  const firstLine = search.split('\n').find((l) => l.trim() !== '')?.trim()
+  if (firstLine === undefined) return 'search text is blank'
+
+  const lines = content.split('\n')
+  const candidates = lines
+    .map((line, i) => (line.trim() === firstLine ? i + 1 : -1))
+    .filter((n) => n !== -1)
+
+  if (candidates.length === 0) {
+    return `no line of the file matches "${firstLine.slice(0, 80)}"`
+  }
+  return `first search line matches line ${candidates.join(', ')} but the following lines differ`
+}
+
+/**
+ * Apply search/replace edit blocks to a file's content, in order.
+ * Each search must match exactly once; an exact match is tried first, then a
+ * line match that ignores trailing whitespace.
+ */
+export function applyEditBlocks(
+  path: string,
+  original: string,
+  edits: EditBlock[]
+): Result<string, EditBlockError> {
+  let content = original
+
+  for (const [i, edit] of edits.entries()) {
+    const block = i + 1
+
+    if (edit.search === '') {
+      if (content !== '') {
+        return err({
+          path,
+          block,
+          reason: 'ambiguous',
+          message: 'empty search text is only allowed for a new or empty file',
+        })
+      }
+      content = edit.replace
+      continue
+    }
+
+    const exact = findOccurrences(content, edit.search)
+    if (exact.length === 1) {
+      const start = exact[0] ?? 0
+      content = content.slice(0, start) + edit.replace + content.slice(start + edit.search.length)
+      continue
+    }
+
+    if (exact.length > 1) {
+      const lines = exact.map((index) => lineNumberAt(content, index))
+      return err({
+        path,
+        block,
+        reason: 'ambiguous',
+        message: `search text matches ${exact.length} times (lines ${lines.join(', ')}); include more surrounding lines`,
+      })
+    }
+
+    const loose = findLineMatches(content, edit.search)
+    if (loose.length === 1 && loose[0]) {
+      const { start, end } = loose[0]
+      content = content.slice(0, start) + edit.replace.replace(/\n$/, '') + content.slice(end)
+      continue
+    }
+
+    if (loose.length > 1) {
+      const lines = loose.map((m) => lineNumberAt(content, m.start))
+      return err({
+        path,
+        block,
+        reason: 'ambiguous',
+        message: `search text matches ${loose.length} times (lines ${lines.join(', ')}); include more surrounding lines`,
+      })
+    }
+
+    return err({
+      path,
+      block,
+      reason: 'not_found',
+      message: `search text not found: ${describeMismatch(content, edit.search)}`,
+    })
+  }
+
+  return ok(content)
+}
+
+/**
+ * Turn changes expressed as edit blocks into full-content changes,
+ * applying the edits against the file as `tools` currently sees it.
+ * Changes without edits pass through untouched.
+ */
+export function resolveEditBlocks(
   changes: FileChange[],
   tools: ToolKit
+): Result<FileChange[], EditBlockError[]> {
+  const errors: EditBlockError[] = []
+
+  const resolved = changes.map((change): FileChange => {
+    if (!change.edits || change.edits.length === 0) return change
+
+    const { edits, ...rest } = change
+    const source = change.operation === 'rename' && change.from !== undefined ? change.from : change.path
+    const existing = tools.readFile(source)
+
+    if (!existing.ok && edits.some((e) => e.search !== '')) {
+      errors.push({
+        path: change.path,
+        block: 1,
+        reason: 'missing_file',
+        message: `file ${source} does not exist, send its full content instead of edits`,
+      })
+      return change
+    }
+
+    const applied = applyEditBlocks(change.path, existing.ok ? existing.value : '', edits)
+    if (!applied.ok) {
+      errors.push(applied.error)
+      return change
+    }
+
+    return { ...rest, content: applied.value }
+  })
+
+  return errors.length > 0 ? err(errors) : ok(resolved)
+}
+
+/**
+ * Format edit block failures as feedback for the coder
+ */
+export function formatEditBlockErrors(errors: EditBlockError[]): string {
+  return errors
+    .map((e) => `- ${e.path} edit #${e.block}: ${e.message}`)
+    .join('\n')
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/**
+ * Stage changes without applying them.
+ * `tools` must read the real project (not an overlay) so originals reflect disk.
+ */
+export function stageChanges(
+  changes: Array<FileChange & { taskIds?: string[] | undefined }>,
+  tools: ToolKit
 ): StagedChange[] {
-  return changes.map((change) => {
+  return changes.flatMap((change): StagedChange[] => {
+    if (change.operation === 'delete') {
+      const existingResult = tools.readFile(change.path)
+      // Deleting a file that never reached disk (created and removed within the run) is a no-op;
+      // one that can't be read (a protected path) is still staged so applying it is refused
+      if (!existingResult.ok && existingResult.error.type === 'not_found') return []
+      return [{
+        path: change.path,
+        content: '',
+        isNew: false,
+        operation: 'delete',
+        originalContent: existingResult.ok ? existingResult.value : undefined,
+        originalHash: existingResult.ok ? hashContent(existingResult.value) : undefined,
+        taskIds: change.taskIds,
+      }]
+    }
+
+    if (change.operation === 'rename' && change.from !== undefined) {
+      const sourceResult = tools.readFile(change.from)
+      if (sourceResult.ok) {
+        const targetResult = tools.readFile(change.path)
+        const targetContent = targetResult.ok ? targetResult.value : undefined
+        return [{
+          path: change.path,
+          content: change.content === '' ? sourceResult.value : change.content,
+          isNew: false,
+          operation: 'rename',
+          from: change.from,
+          originalContent: sourceResult.value,
+          originalHash: hashContent(sourceResult.value),
+          targetContent,
+          targetHash: targetContent !== undefined ? hashContent(targetContent) : undefined,
+          taskIds: change.taskIds,
+        }]
+      }
+      // Source is not on disk, so the move reduces to creating the target
+    }
+
     const existingResult = tools.readFile(change.path)
-    return {
+    return [{
       path: change.path,
       content: change.content,
       isNew: !existingResult.ok,
+      operation: 'write',
       originalContent: existingResult.ok ? existingResult.value : undefined,
-    }
+      originalHash: existingResult.ok ? hashContent(existingResult.value) : undefined,
+      taskIds: change.taskIds,
+    }]
   })
 }
 
 /**
- * Apply staged changes to the filesystem
+ * Changes that remove a file from its current path and need explicit confirmation
+ */
+export function getDestructiveChanges(staged: StagedChange[]): StagedChange[] {
+  return staged.filter((change) => change.operation !== 'write')
+}
+
+/**
+ * Paths whose content on disk no longer matches what was staged: an edited or
+ * removed original, or a file created (or changed) where a new one or a rename target was planned
+ */
+export function findConflicts(staged: StagedChange[], tools: ToolKit): string[] {
+  const conflicts: string[] = []
+  const changedSince = (path: string, hash: string | undefined): boolean => {
+    const current = tools.readFile(path)
+    return hash === undefined ? current.ok : !current.ok || hashContent(current.value) !== hash
+  }
+
+  for (const change of staged) {
+    const source = change.operation === 'rename' ? change.from ?? change.path : change.path
+    if (changedSince(source, change.isNew ? undefined : change.originalHash)) conflicts.push(source)
+    if (change.operation === 'rename' && source !== change.path && changedSince(change.path, change.targetHash)) {
+      conflicts.push(change.path)
+    }
+  }
+
+  return conflicts
+}
+
+/**
+ * Put every touched path back the way it was before the transaction
+ */
+function rollback(prior: Map<string, string | undefined>, tools: ToolKit): string[] {
+  const failed: string[] = []
+
+  for (const [path, content] of prior) {
+    if (content === undefined) {
+      if (tools.fileExists(path) && !tools.deleteFile(path).ok) failed.push(path)
+    } else if (!tools.writeFile(path, content).ok) {
+      failed.push(path)
+    }
+  }
+
+  return failed
+}
+
+/**
+ * Apply staged changes to the filesystem as one transaction.
+ * Nothing is written if any target changed since staging; if a write or delete
+ * fails part way, every file already touched is restored.
+ * Writes (including rename targets) happen before removals so a failed write
+ * never leaves a renamed file missing from both paths.
  */
 export function applyChanges(
   staged: StagedChange[],
   tools: ToolKit
-): Result<void, string> {
-  const results = staged.map((change) => {
+): Result<void, ApplyError> {
+  const conflicts = findConflicts(staged, tools)
+  if (conflicts.length > 0) {
+    return err({
+      type: 'conflict',
+      message: `${conflicts.length} file(s) changed on disk since the changes were staged`,
+      conflicts,
+    })
+  }
+
+  // Content of each modified path before the transaction (undefined: did not exist).
+  // Writes are atomic, so a path whose write failed is unchanged and not recorded.
+  const prior = new Map<string, string | undefined>()
+  const readPrior = (path: string): string | undefined => {
+    const existing = tools.readFile(path)
+    return existing.ok ? existing.value : undefined
+  }
+
+  let failure: string | null = null
+
+  for (const change of staged.filter((c) => c.operation !== 'delete')) {
+    const before = readPrior(change.path)
     const result = tools.writeFile(change.path, change.content)
     if (!result.ok) {
-      return err(`Failed to write ${change.path}: ${result.error.message}`)
+      failure = `Failed to write ${change.path}: ${result.error.message}`
+      break
     }
-    return ok(undefined)
-  })
+    if (!prior.has(change.path)) prior.set(change.path, before)
+  }
 
-  const combined = all(results)
-  if (!combined.ok) {
-    return combined
+  if (failure === null) {
+    for (const change of staged.filter((c) => c.operation !== 'write')) {
+      const target = change.operation === 'rename' ? change.from ?? change.path : change.path
+      const before = readPrior(target)
+      const result = tools.deleteFile(target)
+      if (!result.ok) {
+        failure = `Failed to delete ${target}: ${result.error.message}`
+        break
+      }
+      if (!prior.has(target)) prior.set(target, before)
+    }
+  }
+
+  if (failure !== null) {
+    const notRestored = rollback(prior, tools)
+    const restoreNote = notRestored.length > 0
+      ? ` Rollback failed for: ${notRestored.join(', ')}`
+      : ' All files were restored.'
+    return err({ type: 'write_failed', message: `${failure}.${restoreNote}`, conflicts: [] })
   }
 
   return ok(undefined)
 }
 
 /**
- * Generate a simple unified diff for display
+ * Describe a staged change as the old and new file for diffing
+ */
+export function toPatchFile(staged: StagedChange): PatchFile {
+  switch (staged.operation) {
+    case 'delete':
+      return { oldPath: staged.path, newPath: null, oldContent: staged.originalContent ?? '', newContent: '' }
+    case 'rename':
+      return {
+        oldPath: staged.from ?? staged.path,
+        newPath: staged.path,
+        oldContent: staged.originalContent ?? '',
+        newContent: staged.content,
+      }
+    case 'write':
+      return {
+        oldPath: staged.isNew ? null : staged.path,
+        newPath: staged.path,
+        oldContent: staged.originalContent ?? '',
+        newContent: staged.content,
+      }
+  }
+}
+
+/**
+ * Generate a unified diff of one staged change for display
  */
-export function generateDiff(staged: StagedChange): string {
-  const lines: string[] = []
+export function generateDiff(staged: StagedChange, contextLines: number = DEFAULT_CONTEXT_LINES): string {
+  return formatFilePatch(toPatchFile(staged), contextLines)
+}
 
-  if (staged.isNew) {
-    lines.push(`+++ ${staged.path} (new file)`)
-    const contentLines = staged.content.split('\n')
-    for (const line of contentLines) {
-      lines.push(`+ ${line}`)
-    }
-  } else if (staged.originalContent) {
-    lines.push(`--- ${staged.path}`)
-    lines.push(`+++ ${staged.path}`)
+/**
+ * Generate a patch of all staged changes that `git apply` accepts
+ */
+export function generatePatch(staged: StagedChange[], contextLines: number = DEFAULT_CONTEXT_LINES): string {
+  return formatPatch(staged.map(toPatchFile), contextLines)
+}
 
-    const originalLines = staged.originalContent.split('\n')
-    const newLines = staged.content.split('\n')
+/**
+ * A staged change the user turned down, whole or in part, while selecting hunks
+ */
+export type RejectedChange = {
+  change: StagedChange
+  /** Rejected hunks of a write; empty when the whole delete or rename was rejected */
+  hunks: Hunk[]
+}
 
-    // Simple line-by-line diff (not a real unified diff algorithm)
-    const maxLines = Math.max(originalLines.length, newLines.length)
-    for (let i = 0; i < maxLines; i++) {
-      const origLine = originalLines[i]
-      const newLine = newLines[i]
+/**
+ * Split a staged write into hunks against the content on disk
+ */
+export function getHunks(staged: StagedChange, contextLines: number = DEFAULT_CONTEXT_LINES): Hunk[] {
+  return computeHunks(staged.originalContent ?? '', staged.content, contextLines)
+}
 
-      if (origLine === newLine) {
-        if (origLine !== undefined) {
-          lines.push(`  ${origLine}`)
-        }
-      } else {
-        if (origLine !== undefined) {
-          lines.push(`- ${origLine}`)
-        }
-        if (newLine !== undefined) {
-          lines.push(`+ ${newLine}`)
-        }
-      }
+/**
+ * Narrow a staged write to the accepted hunks, or null when none were accepted
+ */
+export function selectHunks(staged: StagedChange, accepted: Hunk[]): StagedChange | null {
+  if (accepted.length === 0) return null
+  return { ...staged, content: applyHunks(staged.originalContent ?? '', accepted) }
+}
+
+/**
+ * Format rejected changes as feedback for another coder attempt
+ */
+export function formatRejectedChanges(rejected: RejectedChange[]): string {
+  const sections: string[] = []
+
+  for (const { change, hunks } of rejected) {
+    if (change.operation === 'delete') {
+      sections.push(`${change.path}: deleting this file was rejected, keep it`)
+    } else if (change.operation === 'rename') {
+      sections.push(`${change.from ?? '?'} → ${change.path}: this rename was rejected, keep the file at ${change.from ?? '?'}`)
+    } else if (hunks.length > 0) {
+      sections.push(`${change.path}:\n${hunks.map(formatHunk).join('\n')}`)
     }
   }
 
-  return lines.join('\n')
+  return sections.join('\n\n')
 }
 
 /**
@@ -106,13 +492,22 @@ export function formatChangesSummary(staged: StagedChange[]): string {
 
   for (const change of staged) {
     const lineCount = change.content.split('\n').length
-    if (change.isNew) {
-      lines.push(`  + ${change.path} (new, ${lineCount} lines)`)
+    const sources = change.taskIds && change.taskIds.length > 0
+      ? ` [${change.taskIds.join(', ')}]`
+      : ''
+    if (change.operation === 'delete') {
+      const origLines = change.originalContent?.split('\n').length ?? 0
+      lines.push(`  - ${change.path} (deleted, -${origLines} lines)${sources}`)
+    } else if (change.operation === 'rename') {
+      const changed = change.content !== change.originalContent ? ', modified' : ''
+      lines.push(`  > ${change.from ?? '?'} → ${change.path} (renamed${changed})${sources}`)
+    } else if (change.isNew) {
+      lines.push(`  + ${change.path} (new, ${lineCount} lines)${sources}`)
     } else {
       const origLines = change.originalContent?.split('\n').length ?? 0
       const diff = lineCount - origLines
       const diffStr = diff >= 0 ? `+${diff}` : `${diff}`
-      lines.push(`  ~ ${change.path} (modified, ${diffStr} lines)`)
+      lines.push(`  ~ ${change.path} (modified, ${diffStr} lines)${sources}`)
     }
   }
 
@@ -0,0 +1,224 @@
+import type { Task } from '../schemas/planner.js'
+import { type Result, ok, err } from '../utils/result.js'
+
+export type TaskGraph = {
+  /** Tasks keyed by id */
+  tasks: Map<string, Task>
+  /** Prerequisite ids for each task (unknown ids removed) */
+  dependencies: Map<string, string[]>
+  /** Tasks that depend on each task */
+  dependents: Map<string, string[]>
+  /** Tasks grouped by depth: every task in a level only depends on earlier levels */
+  levels: string[][]
+  /** Flattened topological order (level by level, plan order within a level) */
+  order: string[]
+  /** Dependency references that did not match any task, dropped from the graph */
+  unknownDependencies: Array<{ taskId: string; dependsOn: string }>
+}
+
+export type TaskOutcome = 'succeeded' | 'failed' | 'skipped'
+
+export type ExecuteTaskGraphOptions = {
+  /** Maximum number of tasks running at the same time */
+  concurrency: number
+  run: (task: Task) => Promise<TaskOutcome>
+  /** Called instead of run when a prerequisite did not succeed */
+  skip: (task: Task, reason: string) => void
+}
+
+export type TaskGraphError =
+  | { type: 'duplicate_id'; message: string; taskIds: string[] }
+  | { type: 'cycle'; message: string; taskIds: string[] }
+
+/**
+ * Build a dependency graph from the planner's tasks using Kahn's algorithm.
+ * Unknown dependency ids are dropped (and reported) rather than failing the run,
+ * since the planner occasionally references tasks it decided not to emit.
+ */
+export function buildTaskGraph(tasks: Task[]): Result<TaskGraph, TaskGraphError> {
+  const byId = new Map<string, Task>()
+  const duplicates: string[] = []
+
+  for (const task of tasks) {
+    if (byId.has(task.id)) {
+      duplicates.push(task.id)
+    } else {
+      byId.set(task.id, task)
+    }
+  }
+
+  if (duplicates.length > 0) {
+    return err({
+      type: 'duplicate_id',
+      message: `Duplicate task ids in plan: ${[...new Set(duplicates)].join(', ')}`,
+      taskIds: [...new Set(duplicates)],
+    })
+  }
+
+  const dependencies = new Map<string, string[]>()
+  const dependents = new Map<string, string[]>()
+  const unknownDependencies: TaskGraph['unknownDependencies'] = []
+
+  for (const task of tasks) {
+    dependents.set(task.id, [])
+  }
+
+  for (const task of tasks) {
+    const deps: string[] = []
+    for (const dep of new Set(task.dependsOn)) {
+      if (!byId.has(dep)) {
+        unknownDependencies.push({ taskId: task.id, dependsOn: dep })
+        continue
+      }
+      deps.push(dep)
+      dependents.get(dep)?.push(task.id)
+    }
+    dependencies.set(task.id, deps)
+  }
+
+  const remaining = new Map<string, number>()
+  for (const task of tasks) {
+    remaining.set(task.id, dependencies.get(task.id)?.length ?? 0)
+  }
+
+  const levels: string[][] = []
+  let current = tasks.filter((t) => remaining.get(t.id) === 0).map((t) => t.id)
+  let visited = 0
+
+  while (current.length > 0) {
+    levels.push(current)
+    visited += current.length
+
+    const next = new Set<string>()
+    for (const id of current) {
+      for (const dependent of dependents.get(id) ?? []) {
+        const count = (remaining.get(dependent) ?? 0) - 1
+        remaining.set(dependent, count)
+        if (count === 0) next.add(dependent)
+      }
+    }
+
+    // Keep plan order within a level for stable output
+    current = tasks.filter((t) => next.has(t.id)).map((t) => t.id)
+  }
+
+  if (visited < tasks.length) {
+    const cyclic = tasks.filter((t) => (remaining.get(t.id) ?? 0) > 0).map((t) => t.id)
+    return err({
+      type: 'cycle',
+      message: `Circular task dependencies: ${cyclic.join(', ')}`,
+      taskIds: cyclic,
+    })
+  }
+
+  return ok({
+    tasks: byId,
+    dependencies,
+    dependents,
+    levels,
+    order: levels.flat(),
+    unknownDependencies,
+  })
+}
+
+function sharesFiles(a: Task, b: Task): boolean {
+  const normalize = (path: string) => path.replace(/\\/g, '/').replace(/^\.\//, '')
+  const files = new Set(a.estimatedFiles.map(normalize))
+  return b.estimatedFiles.some((path) => files.has(normalize(path)))
+}
+
+/**
+ * Run every task in the graph once its prerequisites have settled.
+ * Ready tasks start in topological order while fewer than `concurrency` are running;
+ * a task whose prerequisite failed or was skipped is skipped itself, which cascades
+ * to its own dependents. Tasks whose estimated files overlap never run at the same
+ * time, so neither rewrites a file from a version the other is about to replace.
+ */
+export async function executeTaskGraph(
+  graph: TaskGraph,
+  options: ExecuteTaskGraphOptions
+): Promise<Map<string, TaskOutcome>> {
+  const concurrency = Math.max(1, options.concurrency)
+  const status = new Map<string, TaskOutcome | 'pending' | 'running'>()
+  const running = new Map<string, Promise<void>>()
+
+  for (const id of graph.order) {
+    status.set(id, 'pending')
+  }
+
+  for (;;) {
+    let progressed = false
+
+    for (const id of graph.order) {
+      const task = graph.tasks.get(id)
+      if (!task || status.get(id) !== 'pending') continue
+
+      const deps = graph.dependencies.get(id) ?? []
+      const unsettled = deps.some((dep) => {
+        const depStatus = status.get(dep)
+        return depStatus === 'pending' || depStatus === 'running'
+      })
+      if (unsettled) continue
+
+      const blocker = deps.find((dep) => status.get(dep) !== 'succeeded')
+      if (blocker !== undefined) {
+        const verb = status.get(blocker) === 'skipped' ? 'was skipped' : 'failed'
+        status.set(id, 'skipped')
+        options.skip(task, `Prerequisite task ${blocker} ${verb}`)
+        progressed = true
+        continue
+      }
+
+      if (running.size >= concurrency) continue
+
+      const overlapsRunning = [...running.keys()].some((other) => {
+        const otherTask = graph.tasks.get(other)
+        return otherTask !== undefined && sharesFiles(task, otherTask)
+      })
+      if (overlapsRunning) continue
+
+      status.set(id, 'running')
+      const execution = options
+        .run(task)
+        .then(
+          (outcome) => { status.set(id, outcome) },
+          () => { status.set(id, 'failed') }
+        )
+        .finally(() => { running.delete(id) })
+      running.set(id, execution)
+    }
+
+    if (running.size === 0) {
+      if (progressed) continue
+      break
+    }
+
+    await Promise.race(running.values())
+  }
+
+  const outcomes = new Map<string, TaskOutcome>()
+  for (const [id, value] of status) {
+    if (value !== 'pending' && value !== 'running') {
+      outcomes.set(id, value)
+    }
+  }
+  return outcomes
+}
+
+/**
+ * Format the resolved execution levels for display
+ */
+export function formatExecutionOrder(graph: TaskGraph): string {
+  const lines: string[] = ['Execution order:']
+
+  graph.levels.forEach((level, index) => {
+    const titles = level.map((id) => `${id} (${graph.tasks.get(id)?.title ?? id})`)
+    lines.push(`  Level ${index + 1}: ${titles.join(', ')}`)
+  })
+
+  for (const unknown of graph.unknownDependencies) {
+    lines.push(`  Note: ${unknown.taskId} depends on unknown task "${unknown.dependsOn}" (ignored)`)
+  }
+
+  return lines.join('\n')
+}
@@ -1,4 +1,5 @@
 import type { Message } from '../llm/client.js'
+import { buildMessages, DEFAULT_PROMPT_BUDGET, PROMPT_PRIORITY, type PromptBudget, type PromptSection } from './budget.js'
 
 const SYSTEM_PROMPT = `You are a software architect agent. Your job is to create a file-level plan for implementing a task.
 
@@ -7,7 +8,8 @@ RESPOND ONLY WITH JSON matching this schema:
   "files": [
     {
       "path": "string — file path relative to project root",
-      "operation": "create" | "modify" | "delete",
+      "operation": "create" | "modify" | "delete" | "rename",
+      "from": "string — original path, only for rename (optional)",
       "description": "string — what changes will be made",
       "interfaces": ["string — key type/interface names (optional)"],
       "dependencies": ["string — imports needed (optional)"]
@@ -22,6 +24,7 @@ RULES:
 3. Prefer modifying existing files over creating new ones when appropriate
 4. Consider imports and dependencies between files
 5. Use descriptive file paths that match the project structure
+6. Use "delete" only for files that must be removed, and "rename" (with "from") to move a file
 
 EXAMPLE OUTPUT:
 {
@@ -44,19 +47,30 @@ export type ArchitectPromptInput = {
   taskDescription: string
   projectContext: string
   existingFiles?: string[] | undefined
+  /** Whether repository tools are offered with this request */
+  toolsAvailable?: boolean | undefined
 }
 
-export function buildArchitectPrompt(input: ArchitectPromptInput): Message[] {
-  let userContent = `Project context:\n${input.projectContext}\n\n`
-  userContent += `Task: ${input.taskTitle}\n`
-  userContent += `Description: ${input.taskDescription}`
+const TOOLS_NOTE = `TOOLS:
+You can call readFile, listDirectory, fileExists and searchText to look at the repository before answering.
+Use them to find the files this task touches and the conventions they follow. Calls are limited, so look up only what you need.
+When you are done exploring, reply with the JSON plan only.`
+
+export function buildArchitectPrompt(input: ArchitectPromptInput, budget: PromptBudget = DEFAULT_PROMPT_BUDGET): Message[] {
+  const systemContent = input.toolsAvailable ? `${SYSTEM_PROMPT}\n\n${TOOLS_NOTE}` : SYSTEM_PROMPT
+
+  const user: PromptSection[] = [
+    { name: 'project context', content: `Project context:\n${input.projectContext}\n\n`, priority: PROMPT_PRIORITY.projectContext },
+    { name: 'task', content: `Task: ${input.taskTitle}\nDescription: ${input.taskDescription}` },
+  ]
 
   if (input.existingFiles && input.existingFiles.length > 0) {
-    userContent += `\n\nRelevant existing files:\n${input.existingFiles.join('\n')}`
+    user.push({
+      name: 'existing files',
+      content: `\n\nRelevant existing files:\n${input.existingFiles.join('\n')}`,
+      priority: PROMPT_PRIORITY.files,
+    })
   }
 
-  return [
-    { role: 'system', content: SYSTEM_PROMPT },
-    { role: 'user', content: userContent },
-  ]
+  return buildMessages(budget, [{ name: 'system', content: systemContent }], user)
 }
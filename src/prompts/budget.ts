@@ -0,0 +1,131 @@
+import type { Message } from '../llm/client.js'
+import { getDefaultConfig, DEFAULT_CONTEXT_WINDOW, type LLMEndpointConfig } from '../utils/config.js'
+import type { ScopedLogger } from '../utils/logger.js'
+
+/**
+ * A piece of a prompt. Builders split prompts into sections so the budget can
+ * shorten or drop the least important ones when the prompt is too long.
+ */
+export type PromptSection = {
+  /** Shown in the log when the section is trimmed */
+  name: string
+  content: string
+  /** Lower priorities are trimmed first; sections without one are always kept whole */
+  priority?: number | undefined
+}
+
+/**
+ * Priorities of the optional sections shared by the prompt builders
+ */
+export const PROMPT_PRIORITY = {
+  projectContext: 1,
+  dependencies: 2,
+  files: 3,
+  feedback: 4,
+} as const
+
+export type TrimmedSection = {
+  name: string
+  tokens: number
+  keptTokens: number
+}
+
+export type PromptBudget = {
+  /** Tokens the prompt may use: the context window minus the room reserved for the response */
+  promptTokens: number
+  /** Shorten the lowest-priority sections until the prompt fits; trimmed sections end with a marker */
+  fit: (sections: PromptSection[]) => PromptSection[]
+}
+
+const TRUNCATION_MARKER = '\n...[truncated]\n'
+
+// Below this, a truncated section is more noise than help, so it is dropped instead
+const MIN_SECTION_TOKENS = 100
+
+/**
+ * Approximate token count. BPE tokenizers average about four characters per token
+ * on English words, but code is dense with symbols that are usually a token each.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0
+  for (const piece of text.match(/[A-Za-z]+|\d+|\S/g) ?? []) {
+    if (/[A-Za-z]/.test(piece)) tokens += Math.ceil(piece.length / 4)
+    else if (/\d/.test(piece)) tokens += Math.ceil(piece.length / 3)
+    else tokens += 1
+  }
+  return tokens
+}
+
+function truncateToTokens(content: string, tokens: number, estimated: number): string {
+  // Scale by this section's own characters-per-token, with some slack for the estimate
+  const chars = Math.floor((content.length * tokens * 0.95) / estimated) - TRUNCATION_MARKER.length
+  return `${content.slice(0, Math.max(0, chars))}${TRUNCATION_MARKER}`
+}
+
+export function createPromptBudget(
+  config: Pick<LLMEndpointConfig, 'contextWindow' | 'maxTokens'>,
+  logger?: ScopedLogger
+): PromptBudget {
+  const promptTokens = Math.max(0, (config.contextWindow ?? DEFAULT_CONTEXT_WINDOW) - config.maxTokens)
+
+  const fit = (sections: PromptSection[]): PromptSection[] => {
+    const tokens = sections.map((section) => estimateTokens(section.content))
+    let total = tokens.reduce((sum, count) => sum + count, 0)
+    if (total <= promptTokens) return sections
+
+    // Lowest priority first; among equals, later sections (e.g. the last files listed) go first
+    const order = sections
+      .map((section, index) => ({ priority: section.priority, index }))
+      .filter((entry): entry is { priority: number; index: number } => entry.priority !== undefined)
+      .sort((a, b) => a.priority - b.priority || b.index - a.index)
+
+    const fitted = [...sections]
+    const trimmed: TrimmedSection[] = []
+    for (const { index } of order) {
+      if (total <= promptTokens) break
+      const section = sections[index]
+      const sectionTokens = tokens[index] ?? 0
+      if (!section || sectionTokens === 0) continue
+
+      const keep = sectionTokens - (total - promptTokens)
+      const content = keep >= MIN_SECTION_TOKENS ? truncateToTokens(section.content, keep, sectionTokens) : ''
+      const keptTokens = estimateTokens(content)
+
+      fitted[index] = { ...section, content }
+      total -= sectionTokens - keptTokens
+      trimmed.push({ name: section.name, tokens: sectionTokens, keptTokens })
+    }
+
+    logger?.warn(
+      { promptTokens, estimatedTokens: total, trimmed },
+      total > promptTokens
+        ? 'Prompt is over the context window even after trimming every optional section'
+        : 'Prompt trimmed to fit the context window'
+    )
+    return fitted
+  }
+
+  return { promptTokens, fit }
+}
+
+/**
+ * Budget for the default model settings, used when a caller doesn't pass one
+ */
+export const DEFAULT_PROMPT_BUDGET = createPromptBudget(getDefaultConfig().llm)
+
+/**
+ * Fit the system and user sections into the budget together and join each into a message
+ */
+export function buildMessages(
+  budget: PromptBudget,
+  system: PromptSection[],
+  user: PromptSection[]
+): Message[] {
+  const fitted = budget.fit([...system, ...user])
+  const join = (sections: PromptSection[]) => sections.map((section) => section.content).join('')
+
+  return [
+    { role: 'system', content: join(fitted.slice(0, system.length)) },
+    { role: 'user', content: join(fitted.slice(system.length)) },
+  ]
+}
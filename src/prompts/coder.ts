@@ -1,6 +1,5 @@
 import type { Message } from '../llm/client.js'
-
-const MAX_CONTEXT_CHARS = 24000 // ~6K tokens, leaves room for system prompt + output
+import { buildMessages, DEFAULT_PROMPT_BUDGET, PROMPT_PRIORITY, type PromptBudget, type PromptSection } from './budget.js'
 
 const SYSTEM_PROMPT = `You are a software coder agent. Your job is to generate code changes based on an architecture plan.
 
@@ -14,6 +13,13 @@ RESPOND ONLY WITH JSON matching this schema:
   ]
 }
 
+To modify an existing file without rewriting it, send "edits" instead of "content":
+{ "path": "src/app.ts", "edits": [{ "search": "exact lines copied from the current file", "replace": "the new lines" }] }
+Each search must match the current file exactly once (include a few surrounding lines to make it unique). Edits apply in order.
+
+To delete a file: { "path": "src/old.ts", "operation": "delete" }
+To move a file: { "path": "src/new.ts", "operation": "rename", "from": "src/old.ts", "content": "full new content, or empty to keep it unchanged" }
+
 RULES:
 1. Generate complete, working code for each file
 2. Follow the architecture plan exactly
@@ -22,6 +28,8 @@ RULES:
 5. Include appropriate error handling
 6. Do NOT include explanatory comments unless they add value
 7. Make sure all types are properly defined
+8. Only delete or rename files the architecture plan marks for deletion or renaming
+9. Prefer "edits" when modifying large existing files so unchanged code is kept exactly; use "content" for new files
 
 EXAMPLE OUTPUT:
 {
@@ -42,6 +50,7 @@ export type CoderPromptInput = {
     files: Array<{
       path: string
       operation: string
+      from?: string | undefined
       description: string
     }>
     reasoning: string
@@ -61,61 +70,100 @@ export type CoderPromptInput = {
   } | undefined
   dependencyContext?: string | undefined
   importValidationFeedback?: string | undefined
+  editFeedback?: string | undefined
+  verificationFeedback?: Array<{
+    command: string
+    file?: string | undefined
+    line?: number | undefined
+    column?: number | undefined
+    code?: string | undefined
+    message: string
+  }> | undefined
+  rejectedChanges?: string | undefined
+  /** Whether repository tools are offered with this request */
+  toolsAvailable?: boolean | undefined
 }
 
-export function buildCoderPrompt(input: CoderPromptInput): Message[] {
-  let systemContent = SYSTEM_PROMPT
+const TOOLS_NOTE = `TOOLS:
+You can call readFile, listDirectory, fileExists and searchText to read code that is not included below,
+such as types, helpers and call sites your change depends on. Calls are limited, so look up only what you need.
+When you are done exploring, reply with the JSON only.`
+
+export function buildCoderPrompt(input: CoderPromptInput, budget: PromptBudget = DEFAULT_PROMPT_BUDGET): Message[] {
+  const system: PromptSection[] = [{ name: 'system', content: SYSTEM_PROMPT }]
   if (input.dependencyContext) {
-    systemContent += `\n\n${input.dependencyContext}`
+    system.push({ name: 'dependency context', content: `\n\n${input.dependencyContext}`, priority: PROMPT_PRIORITY.dependencies })
+  }
+  if (input.toolsAvailable) {
+    system.push({ name: 'tools', content: `\n\n${TOOLS_NOTE}` })
   }
 
-  let userContent = `Task: ${input.taskTitle}\n`
-  userContent += `Description: ${input.taskDescription}\n\n`
+  let taskContent = `Task: ${input.taskTitle}\n`
+  taskContent += `Description: ${input.taskDescription}\n\n`
 
-  userContent += `Architecture Plan:\n`
-  userContent += `Reasoning: ${input.plan.reasoning}\n`
-  userContent += `Files to change:\n`
+  taskContent += `Architecture Plan:\n`
+  taskContent += `Reasoning: ${input.plan.reasoning}\n`
+  taskContent += `Files to change:\n`
   for (const file of input.plan.files) {
-    userContent += `- ${file.path} (${file.operation}): ${file.description}\n`
+    const source = file.from ? ` from ${file.from}` : ''
+    taskContent += `- ${file.path} (${file.operation}${source}): ${file.description}\n`
   }
 
+  const user: PromptSection[] = [{ name: 'task', content: taskContent }]
+  const feedback = (name: string, content: string) => user.push({ name, content, priority: PROMPT_PRIORITY.feedback })
+
   if (input.relevantFiles && input.relevantFiles.length > 0) {
-    let remainingBudget = MAX_CONTEXT_CHARS - systemContent.length - userContent.length
-    userContent += `\nExisting file contents:\n`
+    user.push({ name: 'files header', content: `\nExisting file contents:\n` })
     for (const file of input.relevantFiles) {
-      const entry = `\n--- ${file.path} ---\n${file.content}\n`
-      if (entry.length <= remainingBudget) {
-        userContent += entry
-        remainingBudget -= entry.length
-      } else if (remainingBudget > 200) {
-        userContent += `\n--- ${file.path} (truncated) ---\n${file.content.slice(0, remainingBudget - 100)}\n...[truncated]\n`
-        break
-      } else {
-        break
-      }
+      user.push({ name: `file ${file.path}`, content: `\n--- ${file.path} ---\n${file.content}\n`, priority: PROMPT_PRIORITY.files })
     }
   }
 
   if (input.reviewFeedback) {
-    userContent += `\n\nPREVIOUS REVIEW FEEDBACK (fix these issues):\n`
-    userContent += `Summary: ${input.reviewFeedback.summary}\n`
+    let content = `\n\nPREVIOUS REVIEW FEEDBACK (fix these issues):\n`
+    content += `Summary: ${input.reviewFeedback.summary}\n`
     for (const issue of input.reviewFeedback.issues) {
-      userContent += `- [${issue.severity}] ${issue.file}: ${issue.description}`
+      content += `- [${issue.severity}] ${issue.file}: ${issue.description}`
       if (issue.suggestedFix) {
-        userContent += ` (Suggested fix: ${issue.suggestedFix})`
+        content += ` (Suggested fix: ${issue.suggestedFix})`
       }
-      userContent += '\n'
+      content += '\n'
     }
+    feedback('review feedback', content)
   }
 
   if (input.importValidationFeedback) {
-    userContent += `\n\nIMPORT VALIDATION FAILURE (you MUST fix these):\n`
-    userContent += input.importValidationFeedback
-    userContent += '\n\nRewrite the code using ONLY installed packages and Node.js built-in modules.\n'
+    let content = `\n\nIMPORT VALIDATION FAILURE (you MUST fix these):\n`
+    content += input.importValidationFeedback
+    content += '\n\nRewrite the code using ONLY installed packages and Node.js built-in modules.\n'
+    feedback('import validation feedback', content)
   }
 
-  return [
-    { role: 'system', content: systemContent },
-    { role: 'user', content: userContent },
-  ]
+  if (input.editFeedback) {
+    let content = `\n\nEDIT BLOCK ERRORS (these search blocks did not match, you MUST fix them):\n`
+    content += input.editFeedback
+    content += '\n\nCopy each search text exactly from the current file contents above, or send the full file content instead.\n'
+    feedback('edit feedback', content)
+  }
+
+  if (input.verificationFeedback && input.verificationFeedback.length > 0) {
+    let content = `\n\nVERIFICATION FAILURES (the project's typecheck/tests failed with your changes, you MUST fix these):\n`
+    for (const diagnostic of input.verificationFeedback) {
+      const location = diagnostic.file
+        ? `${diagnostic.file}${diagnostic.line !== undefined ? `:${diagnostic.line}` : ''}${diagnostic.column !== undefined ? `:${diagnostic.column}` : ''}`
+        : diagnostic.command
+      const code = diagnostic.code ? ` ${diagnostic.code}` : ''
+      content += `- ${location}${code}: ${diagnostic.message}\n`
+    }
+    feedback('verification feedback', content)
+  }
+
+  if (input.rejectedChanges) {
+    let content = `\n\nREJECTED CHANGES (the user rejected these parts of a previous attempt, do NOT make them again):\n`
+    content += input.rejectedChanges
+    content += '\n\nThe accepted parts are already in the existing file contents above. Implement the task another way where it still needs these changes.\n'
+    feedback('rejected changes', content)
+  }
+
+  return buildMessages(budget, system, user)
 }
@@ -2,3 +2,4 @@ export * from './planner.js'
 export * from './architect.js'
 export * from './coder.js'
 export * from './reviewer.js'
+export * from './budget.js'
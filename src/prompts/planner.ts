@@ -1,4 +1,5 @@
 import type { Message } from '../llm/client.js'
+import { buildMessages, DEFAULT_PROMPT_BUDGET, PROMPT_PRIORITY, type PromptBudget } from './budget.js'
 
 const SYSTEM_PROMPT = `You are a software planning agent. Your job is to decompose a development request into ordered tasks.
 
@@ -44,12 +45,13 @@ EXAMPLE OUTPUT:
 
 Do NOT include markdown fences. Do NOT include explanation text. ONLY valid JSON.`
 
-export function buildPlannerPrompt(request: string, projectContext: string): Message[] {
-  return [
-    { role: 'system', content: SYSTEM_PROMPT },
-    {
-      role: 'user',
-      content: `Project context:\n${projectContext}\n\nRequest:\n${request}`,
-    },
-  ]
+export function buildPlannerPrompt(
+  request: string,
+  projectContext: string,
+  budget: PromptBudget = DEFAULT_PROMPT_BUDGET
+): Message[] {
+  return buildMessages(budget, [{ name: 'system', content: SYSTEM_PROMPT }], [
+    { name: 'project context', content: `Project context:\n${projectContext}\n\n`, priority: PROMPT_PRIORITY.projectContext },
+    { name: 'request', content: `Request:\n${request}` },
+  ])
 }
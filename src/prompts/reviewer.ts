@@ -1,4 +1,5 @@
 import type { Message } from '../llm/client.js'
+import { buildMessages, DEFAULT_PROMPT_BUDGET, PROMPT_PRIORITY, type PromptBudget, type PromptSection } from './budget.js'
 
 const SYSTEM_PROMPT = `You are a code reviewer agent. Your job is to review generated code against the original requirements.
 
@@ -52,26 +53,44 @@ export type ReviewerPromptInput = {
   changes: Array<{
     path: string
     content: string
+    operation?: 'write' | 'delete' | 'rename' | undefined
+    from?: string | undefined
   }>
   projectDependencies?: string[] | undefined
 }
 
-export function buildReviewerPrompt(input: ReviewerPromptInput): Message[] {
-  let userContent = `Original Request: ${input.originalRequest}\n\n`
-  userContent += `Task: ${input.taskTitle}\n`
-  userContent += `Description: ${input.taskDescription}\n\n`
+export function buildReviewerPrompt(input: ReviewerPromptInput, budget: PromptBudget = DEFAULT_PROMPT_BUDGET): Message[] {
+  let header = `Original Request: ${input.originalRequest}\n\n`
+  header += `Task: ${input.taskTitle}\n`
+  header += `Description: ${input.taskDescription}\n\n`
+  header += `Code to review:\n`
 
-  userContent += `Code to review:\n`
+  const user: PromptSection[] = [{ name: 'task', content: header }]
   for (const change of input.changes) {
-    userContent += `\n--- ${change.path} ---\n${change.content}\n`
+    if (change.operation === 'delete') {
+      user.push({ name: `change ${change.path}`, content: `\n--- ${change.path} (deleted) ---\n` })
+    } else if (change.operation === 'rename') {
+      user.push({
+        name: `change ${change.path}`,
+        content: `\n--- ${change.path} (renamed from ${change.from ?? 'unknown'}) ---\n${change.content}\n`,
+        priority: PROMPT_PRIORITY.files,
+      })
+    } else {
+      user.push({
+        name: `change ${change.path}`,
+        content: `\n--- ${change.path} ---\n${change.content}\n`,
+        priority: PROMPT_PRIORITY.files,
+      })
+    }
   }
 
   if (input.projectDependencies && input.projectDependencies.length > 0) {
-    userContent += `\nAvailable dependencies: ${input.projectDependencies.join(', ')}`
+    user.push({
+      name: 'dependencies',
+      content: `\nAvailable dependencies: ${input.projectDependencies.join(', ')}`,
+      priority: PROMPT_PRIORITY.dependencies,
+    })
   }
 
-  return [
-    { role: 'system', content: SYSTEM_PROMPT },
-    { role: 'user', content: userContent },
-  ]
+  return buildMessages(budget, [{ name: 'system', content: SYSTEM_PROMPT }], user)
 }
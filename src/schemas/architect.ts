@@ -5,7 +5,8 @@ import { z } from 'zod'
  */
 export const FileOperationSchema = z.object({
   path: z.string().describe('File path relative to project root'),
-  operation: z.enum(['create', 'modify', 'delete']).describe('Type of operation'),
+  operation: z.enum(['create', 'modify', 'delete', 'rename']).describe('Type of operation'),
+  from: z.string().optional().describe('Original path when the operation is rename'),
   description: z.string().describe('What changes will be made to this file'),
   interfaces: z.array(z.string()).optional().describe('Key type/interface names defined or used'),
   dependencies: z.array(z.string()).optional().describe('Imports needed from other modules'),
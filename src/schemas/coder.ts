@@ -1,16 +1,50 @@
 import { z } from 'zod'
 
+/**
+ * An anchored search/replace edit against a file's current content
+ */
+export const EditBlockSchema = z.object({
+  search: z.string().describe('Exact text copied from the current file, with enough surrounding lines to be unique'),
+  replace: z.string().describe('Text that replaces the search text'),
+})
+
+export type EditBlock = z.infer<typeof EditBlockSchema>
+
 /**
  * A file change produced by the coder
  */
 export const FileChangeSchema = z.object({
   path: z.string().describe('File path relative to project root'),
-  content: z.string().describe('Full file content for creates, or new content for modifications'),
+  operation: z.enum(['write', 'delete', 'rename']).optional().describe(
+    'What to do with the path (default write). rename moves `from` to `path`'
+  ),
+  from: z.string().optional().describe('Original path of a renamed file'),
+  content: z.string().default('').describe(
+    'Full file content for creates, or new content for modifications. Empty for deletes; for renames, empty keeps the original content'
+  ),
   diff: z.string().optional().describe('Optional unified diff for modifications'),
+  edits: z.array(EditBlockSchema).optional().describe(
+    'Search/replace edits applied in order to the current file, instead of full content'
+  ),
 })
 
 export type FileChange = z.infer<typeof FileChangeSchema>
 
+/**
+ * A change as the coder returns it: a write must carry content or edits, so a bare
+ * `{ path }` is sent back for another attempt instead of emptying the file
+ */
+const CoderFileChangeSchema = FileChangeSchema.superRefine((change, ctx) => {
+  const isWrite = (change.operation ?? 'write') === 'write'
+  if (isWrite && change.content === '' && (change.edits ?? []).length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['content'],
+      message: `Write to ${change.path} needs the full file content or at least one edit`,
+    })
+  }
+})
+
 /**
  * Input to the coder agent
  */
@@ -23,7 +57,8 @@ export const CoderInputSchema = z.object({
   plan: z.object({
     files: z.array(z.object({
       path: z.string(),
-      operation: z.enum(['create', 'modify', 'delete']),
+      operation: z.enum(['create', 'modify', 'delete', 'rename']),
+      from: z.string().optional(),
       description: z.string(),
     })),
     reasoning: z.string(),
@@ -43,6 +78,16 @@ export const CoderInputSchema = z.object({
   }).optional().describe('Feedback from a previous review attempt'),
   dependencyContext: z.string().optional().describe('Dependency whitelist context for the coder prompt'),
   importValidationFeedback: z.string().optional().describe('Feedback about forbidden imports that must be fixed'),
+  editFeedback: z.string().optional().describe('Edit blocks from the previous attempt that did not match the file'),
+  verificationFeedback: z.array(z.object({
+    command: z.string(),
+    file: z.string().optional(),
+    line: z.number().optional(),
+    column: z.number().optional(),
+    code: z.string().optional(),
+    message: z.string(),
+  })).optional().describe('Typecheck/test failures from running the project\'s verification commands'),
+  rejectedChanges: z.string().optional().describe('Hunks the user rejected when applying a previous run of this request'),
 })
 
 export type CoderInput = z.infer<typeof CoderInputSchema>
@@ -51,7 +96,7 @@ export type CoderInput = z.infer<typeof CoderInputSchema>
  * Output from the coder agent
  */
 export const CoderOutputSchema = z.object({
-  changes: z.array(FileChangeSchema).describe('File changes to apply'),
+  changes: z.array(CoderFileChangeSchema).describe('File changes to apply'),
   noChangesReason: z.string().optional().describe(
     'If no changes are needed, explain why'
   ),
@@ -27,10 +27,12 @@ export type ToolError = z.infer<typeof ToolErrorSchema>
  * LLM-specific errors
  */
 export const LLMErrorSchema = z.object({
-  type: z.enum(['connection', 'timeout', 'rate_limit', 'invalid_response', 'schema_validation']),
+  type: z.enum(['connection', 'timeout', 'rate_limit', 'server_error', 'invalid_response', 'schema_validation', 'budget_exceeded']),
   message: z.string(),
   details: z.unknown().optional(),
   attempt: z.number().optional(),
+  /** How long the server asked us to wait before retrying (Retry-After) */
+  retryAfterMs: z.number().optional(),
 })
 
 export type LLMError = z.infer<typeof LLMErrorSchema>
@@ -25,6 +25,8 @@ export const ReviewerInputSchema = z.object({
   changes: z.array(z.object({
     path: z.string(),
     content: z.string(),
+    operation: z.enum(['write', 'delete', 'rename']).optional(),
+    from: z.string().optional(),
   })).describe('The code changes to review'),
   projectDependencies: z.array(z.string()).optional().describe('List of installed packages'),
 })
@@ -1,5 +1,6 @@
 export * from './toolkit.js'
 export * from './context.js'
+export * from './overlay.js'
 export * from './dependencyContext.js'
 export * from './importValidator.js'
 export * from './packageManager.js'
@@ -7,3 +8,5 @@ export * from './packageRegistry.js'
 export * from './packageInstaller.js'
 export * from './dependencyCategorizer.js'
 export * from './installationBackup.js'
+export * from './verification.js'
+export * from './repositoryTools.js'
@@ -0,0 +1,213 @@
+import { isAbsolute, relative, posix } from 'node:path'
+import type { FileChange } from '../schemas/coder.js'
+import type { ToolError } from '../schemas/common.js'
+import { findMatches, DEFAULT_SEARCH_RESULTS, type SearchMatch, type SearchOptions, type ToolKit } from './toolkit.js'
+import { type Result, ok, err } from '../utils/result.js'
+
+/**
+ * A file change merged across every task that touched the path
+ */
+export type MergedChange = FileChange & {
+  taskIds: string[]
+}
+
+/**
+ * ToolKit that layers in-progress changes over the project on disk.
+ * Reads see the latest layered content; writes and deletes only land in the overlay,
+ * so nothing touches the working tree until staging applies the merged set.
+ */
+export type OverlayToolKit = ToolKit & {
+  /**
+   * Layer a task's changes on top of the current view. With `since` (a `getRevision()`
+   * taken when the task started), paths another task changed in the meantime are
+   * returned instead and nothing is layered, since the task never saw those edits.
+   */
+  applyLayer: (changes: FileChange[], taskId: string, since?: number) => string[]
+  /** Increases every time a layer or write lands */
+  getRevision: () => number
+  /** One change per path, reflecting the final layered content */
+  getMergedChanges: () => MergedChange[]
+  /** Whether the overlay currently shadows this path */
+  isOverlaid: (path: string) => boolean
+}
+
+const OVERLAY_WRITE_SOURCE = 'overlay'
+
+function toKey(root: string, path: string): string {
+  const relativePath = isAbsolute(path) ? relative(root, path) : path
+  const normalized = posix.normalize(relativePath.replace(/\\/g, '/'))
+  return normalized.replace(/^\.\//, '').replace(/\/$/, '')
+}
+
+export function createOverlayToolKit(base: ToolKit): OverlayToolKit {
+  const root = base.getProjectRoot()
+  // Insertion order doubles as the order changes were first produced
+  const layered = new Map<string, MergedChange>()
+  // Which task last changed each path, and at which revision
+  const lastChanged = new Map<string, { taskId: string; revision: number }>()
+  let revision = 0
+
+  const record = (change: FileChange, taskId: string): void => {
+    const key = toKey(root, change.path)
+    lastChanged.set(key, { taskId, revision })
+    const existing = layered.get(key)
+    const taskIds = existing?.taskIds ?? []
+    if (!taskIds.includes(taskId)) taskIds.push(taskId)
+
+    // Editing a file renamed earlier in the run keeps it a rename
+    if (existing?.operation === 'rename' && (change.operation ?? 'write') === 'write') {
+      layered.set(key, { ...existing, content: change.content, taskIds })
+      return
+    }
+
+    layered.set(key, { ...change, path: key, taskIds })
+  }
+
+  const isDeleted = (key: string): boolean => layered.get(key)?.operation === 'delete'
+
+  const readFile = (path: string): Result<string, ToolError> => {
+    const entry = layered.get(toKey(root, path))
+    if (entry?.operation === 'delete') {
+      return err({ type: 'not_found', message: `File not found: ${path}`, path })
+    }
+    if (entry) return ok(entry.content)
+    return base.readFile(path)
+  }
+
+  const writeFile = (path: string, content: string): Result<void, ToolError> => {
+    revision++
+    record({ path, content }, OVERLAY_WRITE_SOURCE)
+    return ok(undefined)
+  }
+
+  const deleteFile = (path: string): Result<void, ToolError> => {
+    if (!fileExists(path)) {
+      return err({ type: 'not_found', message: `File not found: ${path}`, path })
+    }
+    revision++
+    record({ path, operation: 'delete', content: '' }, OVERLAY_WRITE_SOURCE)
+    return ok(undefined)
+  }
+
+  const listDirectory = (path: string): Result<string[], ToolError> => {
+    const dirKey = toKey(root, path)
+    const prefix = dirKey === '.' || dirKey === '' ? '' : `${dirKey}/`
+
+    const overlayEntries: string[] = []
+    const deletedEntries = new Set<string>()
+    for (const [key, entry] of layered) {
+      if (!key.startsWith(prefix)) continue
+      if (entry.operation === 'delete') {
+        deletedEntries.add(key.slice(prefix.length))
+        continue
+      }
+      const rest = key.slice(prefix.length)
+      const slash = rest.indexOf('/')
+      overlayEntries.push(slash === -1 ? rest : `${rest.slice(0, slash)}/`)
+    }
+
+    const baseResult = base.listDirectory(path)
+    if (!baseResult.ok) {
+      return overlayEntries.length > 0 ? ok([...new Set(overlayEntries)]) : baseResult
+    }
+
+    const remaining = baseResult.value.filter((entry) => !deletedEntries.has(entry))
+    return ok([...new Set([...remaining, ...overlayEntries])])
+  }
+
+  function fileExists(path: string): boolean {
+    const key = toKey(root, path)
+    if (isDeleted(key)) return false
+    if (layered.has(key)) return true
+    // Directories that only exist in the overlay
+    const prefix = `${key}/`
+    for (const [layeredKey, entry] of layered) {
+      if (layeredKey.startsWith(prefix) && entry.operation !== 'delete') return true
+    }
+    return base.fileExists(path)
+  }
+
+  const searchText = (query: string, options: SearchOptions = {}): Result<SearchMatch[], ToolError> => {
+    const dirKey = toKey(root, options.path ?? '.')
+    const prefix = dirKey === '.' || dirKey === '' ? '' : `${dirKey}/`
+    const inScope = (key: string) => key === dirKey || key.startsWith(prefix)
+
+    const overlayMatches: SearchMatch[] = []
+    for (const [key, entry] of layered) {
+      if (entry.operation !== 'delete' && inScope(key)) {
+        overlayMatches.push(...findMatches(key, entry.content, query))
+      }
+    }
+
+    const baseResult = base.searchText(query, options)
+    if (!baseResult.ok) {
+      return overlayMatches.length > 0 ? ok(overlayMatches) : baseResult
+    }
+
+    // Files in the overlay are searched in their layered form above
+    const baseMatches = baseResult.value.filter((match) => !layered.has(toKey(root, match.path)))
+    return ok([...baseMatches, ...overlayMatches].slice(0, options.maxResults ?? DEFAULT_SEARCH_RESULTS))
+  }
+
+  const applyLayer = (changes: FileChange[], taskId: string, since?: number): string[] => {
+    const changedElsewhere = (path: string): boolean => {
+      const last = lastChanged.get(toKey(root, path))
+      return since !== undefined && last !== undefined && last.taskId !== taskId && last.revision > since
+    }
+    const overwritten = changes
+      .flatMap((change) => [change.path, ...(change.from !== undefined ? [change.from] : [])])
+      .filter(changedElsewhere)
+      .map((path) => toKey(root, path))
+    if (overwritten.length > 0) return [...new Set(overwritten)]
+
+    revision++
+    for (const change of changes) {
+      if (change.operation === 'rename' && change.from !== undefined) {
+        // A rename without content moves the file as it currently reads
+        const source = readFile(change.from)
+        const content = change.content === '' && source.ok ? source.value : change.content
+        record({ path: change.from, operation: 'delete', content: '' }, taskId)
+        record({ ...change, from: toKey(root, change.from), content }, taskId)
+        continue
+      }
+      record(change, taskId)
+    }
+    return []
+  }
+
+  const getMergedChanges = (): MergedChange[] => {
+    const entries = [...layered.values()]
+    const renamedFrom = new Set(
+      entries.filter((e) => e.operation === 'rename').map((e) => e.from)
+    )
+
+    return entries
+      // A rename's source deletion is implied by the rename itself
+      .filter((e) => !(e.operation === 'delete' && renamedFrom.has(e.path)))
+      .map((change) => {
+        const copy = { ...change, taskIds: [...change.taskIds] }
+        // Source was recreated after the move: the rename degrades to a plain write
+        if (copy.operation === 'rename' && copy.from !== undefined && layered.has(copy.from) && !isDeleted(copy.from)) {
+          return { ...copy, operation: 'write' as const, from: undefined }
+        }
+        return copy
+      })
+  }
+
+  const isOverlaid = (path: string): boolean => layered.has(toKey(root, path))
+
+  return {
+    readFile,
+    writeFile,
+    deleteFile,
+    listDirectory,
+    fileExists,
+    searchText,
+    runCommand: base.runCommand,
+    getProjectRoot: base.getProjectRoot,
+    applyLayer,
+    getRevision: () => revision,
+    getMergedChanges,
+    isOverlaid,
+  }
+}
@@ -42,6 +42,20 @@ export function buildInstallArgs(
   }
 }
 
+/**
+ * Builds uninstall command arguments for a given package manager.
+ * Exported for testing.
+ */
+export function buildUninstallArgs(pm: PackageManager, packages: string[]): string[] {
+  switch (pm) {
+    case 'npm':
+      return ['uninstall', ...packages]
+    case 'pnpm':
+    case 'yarn':
+      return ['remove', ...packages]
+  }
+}
+
 /**
  * Installs packages using the detected package manager.
  * Uses spawn() with shell: false for security and stdio: 'inherit' for real-time output.
@@ -66,6 +80,40 @@ export async function installPackages(options: {
 
   const args = buildInstallArgs(packageManager, packages, category)
 
+  return runPackageManager(packageManager, packages, projectRoot, args, 'installation')
+}
+
+/**
+ * Removes packages (e.g. when undoing a run that installed them).
+ */
+export async function uninstallPackages(options: {
+  packageManager: PackageManager
+  packages: string[]
+  projectRoot: string
+}): Promise<Result<InstallResult, InstallError>> {
+  const { packageManager, packages, projectRoot } = options
+
+  for (const pkg of packages) {
+    if (SHELL_META.test(pkg)) {
+      return err({
+        type: 'invalid_argument',
+        message: `Package name contains disallowed shell characters: ${pkg}`,
+      })
+    }
+  }
+
+  const args = buildUninstallArgs(packageManager, packages)
+
+  return runPackageManager(packageManager, packages, projectRoot, args, 'removal')
+}
+
+function runPackageManager(
+  packageManager: PackageManager,
+  packages: string[],
+  projectRoot: string,
+  args: string[],
+  action: 'installation' | 'removal'
+): Promise<Result<InstallResult, InstallError>> {
   return new Promise((resolve) => {
     const child = spawn(packageManager, args, {
       cwd: projectRoot,
@@ -95,7 +143,7 @@ export async function installPackages(options: {
         resolve(
           err({
             type: 'install_failed',
-            message: `Package installation failed with exit code ${code}`,
+            message: `Package ${action} failed with exit code ${code}`,
             exitCode: code ?? 1,
           })
         )
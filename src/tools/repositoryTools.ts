@@ -0,0 +1,92 @@
+import { z } from 'zod'
+import { defineTool, type LLMTools } from '../llm/client.js'
+import { isProtectedPath, type ToolKit } from './toolkit.js'
+import type { ScopedLogger } from '../utils/logger.js'
+
+export type RepositoryToolsOptions = {
+  /** Tool calls allowed for one agent request */
+  maxCalls: number
+  logger: ScopedLogger
+}
+
+// Keep tool results small enough to leave room for the answer
+const MAX_FILE_CHARS = 20000
+const MAX_SEARCH_RESULTS = 50
+
+/**
+ * Read-only ToolKit operations the model can call to explore the repository.
+ * Every call is logged; once the budget is used up, calls return a notice
+ * telling the model to answer with what it has.
+ */
+export function createRepositoryTools(tools: ToolKit, options: RepositoryToolsOptions): LLMTools {
+  const { maxCalls, logger } = options
+  let calls = 0
+
+  const budgeted = (name: string, args: Record<string, unknown>, run: () => string): string => {
+    if (calls >= maxCalls) {
+      logger.warn({ tool: name, ...args, maxCalls }, 'Tool call budget exhausted')
+      return `Tool call budget of ${maxCalls} is used up. Answer now with the information you already have.`
+    }
+
+    calls++
+    const result = run()
+    logger.info({ tool: name, ...args, call: calls, maxCalls, resultChars: result.length }, 'Tool call')
+    return result
+  }
+
+  // Checked here as well as in the ToolKit, since the model may be served by a remote endpoint
+  const refuse = (path: string): string | undefined =>
+    isProtectedPath(path) ? `Error: ${path} is protected and cannot be read by tools` : undefined
+
+  return {
+    readFile: defineTool({
+      description: 'Read a file in the project. Paths are relative to the project root.',
+      parameters: z.object({ path: z.string().describe('File path relative to the project root') }),
+      execute: ({ path }) => budgeted('readFile', { path }, () => {
+        const refused = refuse(path)
+        if (refused) return refused
+        const result = tools.readFile(path)
+        if (!result.ok) return `Error: ${result.error.message}`
+        return result.value.length > MAX_FILE_CHARS
+          ? `${result.value.slice(0, MAX_FILE_CHARS)}\n...[truncated, ${result.value.length} characters total]`
+          : result.value
+      }),
+    }),
+
+    listDirectory: defineTool({
+      description: 'List a directory. Subdirectories end with "/".',
+      parameters: z.object({ path: z.string().default('.').describe('Directory relative to the project root') }),
+      execute: ({ path }) => budgeted('listDirectory', { path }, () => {
+        const refused = refuse(path)
+        if (refused) return refused
+        const result = tools.listDirectory(path)
+        if (!result.ok) return `Error: ${result.error.message}`
+        return result.value.length > 0 ? result.value.sort().join('\n') : '(empty directory)'
+      }),
+    }),
+
+    fileExists: defineTool({
+      description: 'Check whether a file or directory exists.',
+      parameters: z.object({ path: z.string().describe('Path relative to the project root') }),
+      execute: ({ path }) => budgeted('fileExists', { path }, () => String(tools.fileExists(path))),
+    }),
+
+    searchText: defineTool({
+      description: 'Search project files for a literal string (case-insensitive). Returns path:line: text for each match.',
+      parameters: z.object({
+        query: z.string().min(1).describe('Text to search for'),
+        path: z.string().optional().describe('Limit the search to this directory'),
+      }),
+      execute: ({ query, path }) => budgeted('searchText', { query, path }, () => {
+        const result = tools.searchText(query, { maxResults: MAX_SEARCH_RESULTS, ...(path && { path }) })
+        if (!result.ok) return `Error: ${result.error.message}`
+        if (result.value.length === 0) return 'No matches.'
+        const lines = result.value.map((m) => `${m.path}:${m.line}: ${m.text.trim()}`)
+        if (result.value.length >= MAX_SEARCH_RESULTS) {
+          lines.push(`...stopped at ${MAX_SEARCH_RESULTS} matches, narrow the query or path`)
+        }
+        return lines.join('\n')
+      }),
+    }),
+  }
+}
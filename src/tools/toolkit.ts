@@ -1,6 +1,6 @@
-import { readFileSync, writeFileSync, readdirSync, statSync, existsSync, mkdirSync } from 'node:fs'
-import { join, dirname, resolve, relative, isAbsolute } from 'node:path'
-import { spawnSync } from 'node:child_process'
+import { readFileSync, writeFileSync, readdirSync, statSync, lstatSync, existsSync, mkdirSync, unlinkSync, renameSync } from 'node:fs'
+import { join, dirname, resolve, relative, isAbsolute, basename, normalize, sep } from 'node:path'
+import { spawn } from 'node:child_process'
 import { type Result, ok, err, tryCatch } from '../utils/result.js'
 import type { ToolError } from '../schemas/common.js'
 
@@ -10,12 +10,34 @@ export type CommandResult = {
   exitCode: number
 }
 
+export type CommandOptions = {
+  /** Kill the command after this many milliseconds (default 60s) */
+  timeoutMs?: number
+}
+
+export type SearchMatch = {
+  path: string
+  /** 1-based line number */
+  line: number
+  text: string
+}
+
+export type SearchOptions = {
+  /** Directory or file to search, relative to the project root (default: the whole project) */
+  path?: string
+  /** Stop after this many matches (default 100) */
+  maxResults?: number
+}
+
 export type ToolKit = {
   readFile: (path: string) => Result<string, ToolError>
   writeFile: (path: string, content: string) => Result<void, ToolError>
+  deleteFile: (path: string) => Result<void, ToolError>
   listDirectory: (path: string) => Result<string[], ToolError>
   fileExists: (path: string) => boolean
-  runCommand: (cmd: string, args: string[]) => Result<CommandResult, ToolError>
+  /** Case-insensitive literal text search across project files */
+  searchText: (query: string, options?: SearchOptions) => Result<SearchMatch[], ToolError>
+  runCommand: (cmd: string, args: string[], options?: CommandOptions) => Promise<Result<CommandResult, ToolError>>
   getProjectRoot: () => string
 }
 
@@ -42,8 +64,16 @@ const SENSITIVE_PATHS = new Set([
   'pnpm-lock.yaml',
   '.qwen-agent-consent.json',
   '.agent-helper.json',
+  '.agent-helper',
 ])
 
+export const DEFAULT_SEARCH_RESULTS = 100
+
+// Never searched: dependencies, VCS data, build output and run state
+const SEARCH_IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.agent-helper'])
+
+const MAX_SEARCH_FILE_SIZE = 1_000_000
+
 function isPathSafe(basePath: string, targetPath: string): boolean {
   const resolvedBase = resolve(basePath)
   const resolvedTarget = resolve(basePath, targetPath)
@@ -63,6 +93,31 @@ function isSensitivePath(normalizedPath: string): boolean {
   return SENSITIVE_PATHS.has(normalizedPath) || SENSITIVE_PATHS.has(firstSegment)
 }
 
+/**
+ * Whether a project-relative path may hold secrets or run state (`.env*` files anywhere,
+ * the config with its API key, run transcripts), which are never read or listed
+ */
+export function isProtectedPath(path: string): boolean {
+  const normalizedPath = normalize(path).split(sep).join('/')
+  return isSensitivePath(normalizedPath) || basename(normalizedPath).startsWith('.env')
+}
+
+/**
+ * Lines of `content` containing `query`, ignoring case
+ */
+export function findMatches(path: string, content: string, query: string): SearchMatch[] {
+  const needle = query.toLowerCase()
+  const matches: SearchMatch[] = []
+
+  content.split('\n').forEach((text, index) => {
+    if (text.toLowerCase().includes(needle)) {
+      matches.push({ path, line: index + 1, text: text.replace(/\r$/, '') })
+    }
+  })
+
+  return matches
+}
+
 export function createToolKit(projectRoot: string): ToolKit {
   const root = resolve(projectRoot)
 
@@ -77,6 +132,14 @@ export function createToolKit(projectRoot: string): ToolKit {
       })
     }
 
+    if (isProtectedPath(normalizedPath)) {
+      return err({
+        type: 'permission_denied',
+        message: `Reading protected path is not allowed: ${path}`,
+        path,
+      })
+    }
+
     const fullPath = join(root, normalizedPath)
 
     if (!existsSync(fullPath)) {
@@ -119,12 +182,21 @@ export function createToolKit(projectRoot: string): ToolKit {
     const fullPath = join(root, normalizedPath)
     const dir = dirname(fullPath)
 
+    // Write to a sibling temp file and rename so readers never see a partial file
+    const tempPath = `${fullPath}.agent-helper-${process.pid}.tmp`
+
     return tryCatch(
       () => {
         if (!existsSync(dir)) {
           mkdirSync(dir, { recursive: true })
         }
-        writeFileSync(fullPath, content, 'utf-8')
+        try {
+          writeFileSync(tempPath, content, 'utf-8')
+          renameSync(tempPath, fullPath)
+        } catch (e) {
+          if (existsSync(tempPath)) unlinkSync(tempPath)
+          throw e
+        }
       },
       (): ToolError => ({
         type: 'permission_denied',
@@ -134,6 +206,46 @@ export function createToolKit(projectRoot: string): ToolKit {
     )
   }
 
+  const deleteFile = (path: string): Result<void, ToolError> => {
+    const normalizedPath = normalizePath(root, path)
+
+    if (!isPathSafe(root, normalizedPath)) {
+      return err({
+        type: 'invalid_path',
+        message: 'Path traversal not allowed',
+        path,
+      })
+    }
+
+    if (isSensitivePath(normalizedPath)) {
+      return err({
+        type: 'permission_denied',
+        message: `Deleting protected path is not allowed: ${path}`,
+        path,
+      })
+    }
+
+    const fullPath = join(root, normalizedPath)
+
+    if (!existsSync(fullPath)) {
+      return err({
+        type: 'not_found',
+        message: `File not found: ${path}`,
+        path,
+      })
+    }
+
+    // Only regular files: directories are never removed recursively
+    return tryCatch(
+      () => unlinkSync(fullPath),
+      (): ToolError => ({
+        type: 'permission_denied',
+        message: `Cannot delete file: ${path}`,
+        path,
+      })
+    )
+  }
+
   const listDirectory = (path: string): Result<string[], ToolError> => {
     const normalizedPath = normalizePath(root, path)
 
@@ -145,6 +257,14 @@ export function createToolKit(projectRoot: string): ToolKit {
       })
     }
 
+    if (isProtectedPath(normalizedPath)) {
+      return err({
+        type: 'permission_denied',
+        message: `Listing protected path is not allowed: ${path}`,
+        path,
+      })
+    }
+
     const fullPath = join(root, normalizedPath)
 
     if (!existsSync(fullPath)) {
@@ -157,7 +277,7 @@ export function createToolKit(projectRoot: string): ToolKit {
 
     return tryCatch(
       () => {
-        const entries = readdirSync(fullPath)
+        const entries = readdirSync(fullPath).filter((entry) => !isProtectedPath(join(normalizedPath, entry)))
         return entries.map((entry) => {
           const entryPath = join(fullPath, entry)
           const stat = statSync(entryPath)
@@ -180,7 +300,78 @@ export function createToolKit(projectRoot: string): ToolKit {
     return existsSync(join(root, normalizedPath))
   }
 
-  const runCommand = (cmd: string, args: string[]): Result<CommandResult, ToolError> => {
+  const searchText = (query: string, options: SearchOptions = {}): Result<SearchMatch[], ToolError> => {
+    const path = options.path ?? '.'
+    const normalizedPath = normalizePath(root, path)
+
+    if (!isPathSafe(root, normalizedPath)) {
+      return err({
+        type: 'invalid_path',
+        message: 'Path traversal not allowed',
+        path,
+      })
+    }
+
+    const fullPath = join(root, normalizedPath)
+
+    if (!existsSync(fullPath)) {
+      return err({
+        type: 'not_found',
+        message: `Path not found: ${path}`,
+        path,
+      })
+    }
+
+    const maxResults = options.maxResults ?? DEFAULT_SEARCH_RESULTS
+    const matches: SearchMatch[] = []
+
+    const visit = (current: string): void => {
+      if (matches.length >= maxResults) return
+
+      const stat = lstatSync(current)
+      const name = basename(current)
+      const relativePath = relative(root, current).split(sep).join('/')
+
+      if (stat.isDirectory()) {
+        if (SEARCH_IGNORED_DIRS.has(name)) return
+        for (const entry of readdirSync(current).sort()) {
+          visit(join(current, entry))
+        }
+        return
+      }
+
+      // Skip symlinks, secrets, large files and binaries
+      if (!stat.isFile() || isSensitivePath(relativePath) || name.startsWith('.env')) return
+      if (stat.size > MAX_SEARCH_FILE_SIZE) return
+
+      const content = readFileSync(current, 'utf-8')
+      if (content.includes('\0')) return
+
+      for (const match of findMatches(relativePath, content, query)) {
+        if (matches.length >= maxResults) return
+        matches.push(match)
+      }
+    }
+
+    return tryCatch(
+      () => {
+        visit(fullPath)
+        return matches
+      },
+      (): ToolError => ({
+        type: 'permission_denied',
+        message: `Cannot search: ${path}`,
+        path,
+      })
+    )
+  }
+
+  // Runs asynchronously so a long typecheck or test run doesn't block concurrent tasks
+  const runCommand = async (
+    cmd: string,
+    args: string[],
+    options: CommandOptions = {}
+  ): Promise<Result<CommandResult, ToolError>> => {
     if (!ALLOWED_COMMANDS.has(cmd)) {
       return err({
         type: 'execution_failed',
@@ -197,37 +388,50 @@ export function createToolKit(projectRoot: string): ToolKit {
       }
     }
 
-    const result = spawnSync(cmd, args, {
-      cwd: root,
-      encoding: 'utf-8',
-      timeout: 60000,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    })
+    return new Promise((resolve) => {
+      const child = spawn(cmd, args, {
+        cwd: root,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        shell: false,
+      })
 
-    if (result.error) {
-      const message = result.error.message
-      if (message.includes('ETIMEDOUT') || message.includes('TIMEOUT')) {
-        return err({
-          type: 'timeout',
-          message: 'Command timed out',
-        })
-      }
-      if (message.includes('ENOENT')) {
-        return err({
-          type: 'execution_failed',
-          message: `Command not found: ${cmd}`,
-        })
-      }
-      return err({
-        type: 'execution_failed',
-        message: `Command failed: ${message}`,
+      let stdout = ''
+      let stderr = ''
+      child.stdout.setEncoding('utf-8').on('data', (chunk: string) => {
+        stdout += chunk
+      })
+      child.stderr.setEncoding('utf-8').on('data', (chunk: string) => {
+        stderr += chunk
       })
-    }
 
-    return ok({
-      stdout: result.stdout ?? '',
-      stderr: result.stderr ?? '',
-      exitCode: result.status ?? 1,
+      let timedOut = false
+      const timer = setTimeout(() => {
+        timedOut = true
+        child.kill()
+      }, options.timeoutMs ?? 60000)
+
+      child.on('error', (error) => {
+        clearTimeout(timer)
+        resolve(err(error.message.includes('ENOENT')
+          ? { type: 'execution_failed', message: `Command not found: ${cmd}` }
+          : { type: 'execution_failed', message: `Command failed: ${error.message}` }))
+      })
+
+      child.on('close', (code) => {
+        clearTimeout(timer)
+        if (timedOut) {
+          resolve(err({
+            type: 'timeout',
+            message: 'Command timed out',
+          }))
+          return
+        }
+        resolve(ok({
+          stdout,
+          stderr,
+          exitCode: code ?? 1,
+        }))
+      })
     })
   }
 
@@ -236,8 +440,10 @@ export function createToolKit(projectRoot: string): ToolKit {
   return {
     readFile,
     writeFile,
+    deleteFile,
     listDirectory,
     fileExists,
+    searchText,
     runCommand,
     getProjectRoot,
   }
@@ -0,0 +1,322 @@
+import { cpSync, existsSync, mkdtempSync, rmSync, symlinkSync } from 'node:fs'
+import { join, relative, sep } from 'node:path'
+import { tmpdir } from 'node:os'
+import type { FileChange } from '../schemas/coder.js'
+import type { ToolError } from '../schemas/common.js'
+import type { PackageManager } from './packageManager.js'
+import { createToolKit, type ToolKit } from './toolkit.js'
+import { type Result, ok, tryCatch } from '../utils/result.js'
+
+export type VerificationCommand = {
+  cmd: string
+  args: string[]
+}
+
+/**
+ * A single problem reported by a verification command
+ */
+export type VerificationDiagnostic = {
+  command: string
+  file?: string | undefined
+  line?: number | undefined
+  column?: number | undefined
+  code?: string | undefined
+  message: string
+}
+
+export type CommandVerification = {
+  command: string
+  exitCode: number
+  output: string
+  diagnostics: VerificationDiagnostic[]
+}
+
+export type VerificationResult = {
+  passed: boolean
+  commands: CommandVerification[]
+  /** Diagnostics not already present before the changes were applied */
+  diagnostics: VerificationDiagnostic[]
+}
+
+export type ScratchWorkspace = {
+  root: string
+  tools: ToolKit
+  cleanup: () => void
+}
+
+/**
+ * Directories never copied into the scratch workspace.
+ * node_modules is symlinked instead so tools resolve the real dependencies.
+ */
+const SCRATCH_EXCLUDES = new Set(['node_modules', '.git', '.agent-helper'])
+
+/**
+ * npm's placeholder test script, which always fails
+ */
+const NPM_DEFAULT_TEST = 'echo "Error: no test specified" && exit 1'
+
+const MAX_OUTPUT_CHARS = 4000
+
+// ESC [ ... m color codes; built from the char code so the pattern holds no control character
+const ANSI_COLOR = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g')
+
+// src/file.ts(12,5): error TS2322: Type 'string' is not assignable...
+const TSC_PLAIN = /^(.+?)\((\d+),(\d+)\):\s+error\s+(TS\d+):\s+(.+)$/
+// src/file.ts:12:5 - error TS2322: Type 'string' is not assignable...
+const TSC_PRETTY = /^(.+?):(\d+):(\d+)\s+-\s+error\s+(TS\d+):\s+(.+)$/
+// FAIL  test/file.test.ts > suite > case   (vitest / jest)
+const TEST_FAIL = /^\s*(?:FAIL|×|✕)\s+(\S+\.[cm]?[jt]sx?)(?:\s+>\s+(.+))?/
+
+/**
+ * Pick default verification commands from the project layout:
+ * a typecheck when tsconfig.json exists and the package.json test script.
+ */
+export function detectVerificationCommands(
+  tools: ToolKit,
+  packageManager: PackageManager = 'npm'
+): VerificationCommand[] {
+  const commands: VerificationCommand[] = []
+
+  if (tools.fileExists('tsconfig.json')) {
+    commands.push({ cmd: 'npx', args: ['tsc', '--noEmit'] })
+  }
+
+  const packageJsonResult = tools.readFile('package.json')
+  if (packageJsonResult.ok) {
+    try {
+      const pkg = JSON.parse(packageJsonResult.value) as { scripts?: Record<string, string> }
+      const testScript = pkg.scripts?.['test']
+      if (testScript && testScript.trim() !== NPM_DEFAULT_TEST) {
+        commands.push({ cmd: packageManager, args: ['test'] })
+      }
+    } catch {
+      // Unparseable package.json: typecheck only
+    }
+  }
+
+  return commands
+}
+
+function applyToScratch(tools: ToolKit, change: FileChange): Result<void, ToolError> {
+  if (change.operation === 'delete') {
+    const deleted = tools.deleteFile(change.path)
+    // Already absent is the state we want
+    return deleted.ok || deleted.error.type === 'not_found' ? ok(undefined) : deleted
+  }
+
+  if (change.operation === 'rename' && change.from !== undefined) {
+    const source = tools.readFile(change.from)
+    const content = change.content === '' && source.ok ? source.value : change.content
+    const written = tools.writeFile(change.path, content)
+    if (!written.ok) return written
+    return applyToScratch(tools, { path: change.from, operation: 'delete', content: '' })
+  }
+
+  return tools.writeFile(change.path, change.content)
+}
+
+/**
+ * Copy the project into a temporary directory and write the changes there,
+ * leaving the real working tree untouched
+ */
+export function createScratchWorkspace(
+  projectRoot: string,
+  changes: FileChange[]
+): Result<ScratchWorkspace, ToolError> {
+  const copied = tryCatch(
+    () => {
+      const root = mkdtempSync(join(tmpdir(), 'agent-helper-verify-'))
+      cpSync(projectRoot, root, {
+        recursive: true,
+        filter: (source) => {
+          const rel = relative(projectRoot, source)
+          const firstSegment = rel.split(sep)[0] ?? ''
+          return !SCRATCH_EXCLUDES.has(firstSegment)
+        },
+      })
+
+      const nodeModules = join(projectRoot, 'node_modules')
+      if (existsSync(nodeModules)) {
+        symlinkSync(nodeModules, join(root, 'node_modules'), 'junction')
+      }
+
+      return root
+    },
+    (e): ToolError => ({
+      type: 'execution_failed',
+      message: `Failed to create scratch copy of project: ${(e as Error).message}`,
+      path: projectRoot,
+    })
+  )
+
+  if (!copied.ok) {
+    return copied
+  }
+
+  const root = copied.value
+  const cleanup = (): void => {
+    rmSync(root, { recursive: true, force: true })
+  }
+
+  const tools = createToolKit(root)
+  for (const change of changes) {
+    const applied = applyToScratch(tools, change)
+    if (!applied.ok) {
+      cleanup()
+      return applied
+    }
+  }
+
+  return ok({ root, tools, cleanup })
+}
+
+/**
+ * Parse tool output into per-file diagnostics
+ */
+export function parseDiagnostics(command: string, output: string): VerificationDiagnostic[] {
+  const diagnostics: VerificationDiagnostic[] = []
+  const seen = new Set<string>()
+
+  for (const rawLine of output.split('\n')) {
+    // Strip ANSI colors so pretty output parses too
+    const line = rawLine.replace(ANSI_COLOR, '').trimEnd()
+
+    const tsc = line.match(TSC_PLAIN) ?? line.match(TSC_PRETTY)
+    if (tsc) {
+      diagnostics.push({
+        command,
+        file: tsc[1]?.trim(),
+        line: Number(tsc[2]),
+        column: Number(tsc[3]),
+        code: tsc[4],
+        message: tsc[5] ?? '',
+      })
+      continue
+    }
+
+    const testFail = line.match(TEST_FAIL)
+    if (testFail?.[1]) {
+      const message = testFail[2] ? `Test failed: ${testFail[2].trim()}` : 'Test file failed'
+      const key = `${testFail[1]}:${message}`
+      if (!seen.has(key)) {
+        seen.add(key)
+        diagnostics.push({ command, file: testFail[1], message })
+      }
+    }
+  }
+
+  return diagnostics
+}
+
+function formatCommand(command: VerificationCommand): string {
+  return [command.cmd, ...command.args].join(' ')
+}
+
+function diagnosticKey(d: VerificationDiagnostic): string {
+  return [d.command, d.file ?? '', d.code ?? '', d.message].join('|')
+}
+
+function tail(text: string): string {
+  return text.length > MAX_OUTPUT_CHARS ? `...${text.slice(-MAX_OUTPUT_CHARS)}` : text
+}
+
+async function runVerificationCommand(
+  tools: ToolKit,
+  command: VerificationCommand,
+  timeoutMs: number
+): Promise<CommandVerification> {
+  const label = formatCommand(command)
+  const result = await tools.runCommand(command.cmd, command.args, { timeoutMs })
+
+  if (!result.ok) {
+    return {
+      command: label,
+      exitCode: 1,
+      output: result.error.message,
+      diagnostics: [{ command: label, message: result.error.message }],
+    }
+  }
+
+  const output = tail(`${result.value.stdout}\n${result.value.stderr}`.trim())
+  return {
+    command: label,
+    exitCode: result.value.exitCode,
+    output,
+    diagnostics: parseDiagnostics(label, `${result.value.stdout}\n${result.value.stderr}`),
+  }
+}
+
+/**
+ * Run the verification commands in a workspace, one after another, and collect their diagnostics
+ */
+export async function runVerificationCommands(
+  tools: ToolKit,
+  commands: VerificationCommand[],
+  timeoutMs: number
+): Promise<CommandVerification[]> {
+  const results: CommandVerification[] = []
+  for (const command of commands) {
+    results.push(await runVerificationCommand(tools, command, timeoutMs))
+  }
+  return results
+}
+
+/**
+ * Compare a verification run against the baseline (the project before any changes).
+ * Only diagnostics the changes introduced count, so pre-existing breakage in the
+ * project is not blamed on the coder.
+ */
+export function compareWithBaseline(
+  current: CommandVerification[],
+  baseline: CommandVerification[]
+): VerificationResult {
+  const diagnostics: VerificationDiagnostic[] = []
+
+  for (const run of current) {
+    const before = baseline.find((b) => b.command === run.command)
+    const knownKeys = new Set((before?.diagnostics ?? []).map(diagnosticKey))
+    const introduced = run.diagnostics.filter((d) => !knownKeys.has(diagnosticKey(d)))
+
+    diagnostics.push(...introduced)
+
+    // Command newly fails but nothing parseable was reported: surface the raw output
+    const newlyFailing = run.exitCode !== 0 && (before === undefined || before.exitCode === 0)
+    if (newlyFailing && introduced.length === 0) {
+      diagnostics.push({
+        command: run.command,
+        message: `Command exited with code ${run.exitCode}:\n${run.output}`,
+      })
+    }
+  }
+
+  return {
+    passed: diagnostics.length === 0,
+    commands: current,
+    diagnostics,
+  }
+}
+
+/**
+ * Format diagnostics as feedback text, grouped by file
+ */
+export function formatVerificationDiagnostics(diagnostics: VerificationDiagnostic[]): string {
+  const byFile = new Map<string, VerificationDiagnostic[]>()
+  for (const diagnostic of diagnostics) {
+    const key = diagnostic.file ?? '(general)'
+    const list = byFile.get(key) ?? []
+    list.push(diagnostic)
+    byFile.set(key, list)
+  }
+
+  const lines: string[] = []
+  for (const [file, list] of byFile) {
+    lines.push(`${file}:`)
+    for (const d of list) {
+      const location = d.line !== undefined ? `line ${d.line}${d.column !== undefined ? `:${d.column}` : ''} ` : ''
+      const code = d.code ? `${d.code} ` : ''
+      lines.push(`  - ${location}${code}${d.message} [${d.command}]`)
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -3,12 +3,39 @@ import { join } from 'node:path'
 import { z } from 'zod'
 import { type Result, ok, err, tryCatch } from './result.js'
 
-const LLMConfigSchema = z.object({
+/**
+ * Context length assumed when neither the config nor a probed capability profile gives one
+ */
+export const DEFAULT_CONTEXT_WINDOW = 32768
+
+const LLMEndpointSchema = z.object({
   baseUrl: z.string().default('http://localhost:11434/v1'),
   model: z.string().default('qwen3-coder:30b'),
   apiKey: z.string().default(''),
   maxTokens: z.number().positive().default(4096),
+  // The model's context length in tokens; prompts are trimmed to leave maxTokens of it for the response.
+  // When unset, the length `doctor` probed is used, or DEFAULT_CONTEXT_WINDOW
+  contextWindow: z.number().int().positive().optional(),
   temperature: z.number().min(0).max(2).default(0.2),
+  // Send the output schema as response_format: auto tries it and falls back to
+  // prompt-and-parse if the server rejects it, json_schema always sends it, off never does
+  structuredOutput: z.enum(['auto', 'json_schema', 'off']).default('auto'),
+  // Qwen3-style thinking switch: on and off append /think or /no_think to the system
+  // prompt; default leaves it to the model
+  thinking: z.enum(['default', 'on', 'off']).default('default'),
+  // Abort a request (including a whole stream) that takes longer than this
+  requestTimeoutMs: z.number().int().positive().default(300000),
+  // Re-sends after a rate limit (429) or server error (5xx), waiting Retry-After or an
+  // exponential backoff with jitter between attempts
+  maxRetries: z.number().int().min(0).max(10).default(3),
+  retryBaseDelayMs: z.number().int().min(0).default(1000),
+  // Longest single wait, also applied to a Retry-After the server sends
+  retryMaxDelayMs: z.number().int().min(0).default(30000),
+})
+
+const LLMConfigSchema = LLMEndpointSchema.extend({
+  // Tried in order when the endpoint above fails; each entry overrides fields of the endpoint above
+  fallbacks: z.array(LLMEndpointSchema.partial()).default([]),
 })
 
 const PipelineConfigSchema = z.object({
@@ -18,6 +45,11 @@ const PipelineConfigSchema = z.object({
   maxImportRetries: z.number().int().min(0).max(10).default(2),
   enableImportValidation: z.boolean().default(true),
   autoInstall: z.boolean().default(false),
+  maxConcurrentTasks: z.number().int().min(1).max(8).default(1),
+  maxEditRetries: z.number().int().min(0).max(10).default(2),
+  diffContextLines: z.number().int().min(0).max(20).default(3),
+  // Stop starting LLM calls once the run's prompt plus completion tokens reach this; unset means no limit
+  maxTokensPerRun: z.number().int().positive().optional(),
 })
 
 const ContextConfigSchema = z.object({
@@ -25,19 +57,74 @@ const ContextConfigSchema = z.object({
   maxDirectoryDepth: z.number().int().min(1).max(10).default(3),
   ignorePatterns: z.array(z.string()).default([
     'node_modules', '.git', 'dist', 'build',
-    '.env', '.claude', '.instructions',
+    '.env', '.claude', '.instructions', '.agent-helper',
   ]),
 })
 
+const VerificationConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Defaults to `tsc --noEmit` and the package.json test script when omitted
+  commands: z.array(z.object({
+    cmd: z.string(),
+    args: z.array(z.string()).default([]),
+  })).optional(),
+  maxRetries: z.number().int().min(0).max(10).default(2),
+  timeoutMs: z.number().int().positive().default(120000),
+})
+
+const CacheConfigSchema = z.object({
+  // Replay identical LLM requests from .agent-helper/cache instead of re-sending them
+  enabled: z.boolean().default(false),
+  ttlMs: z.number().int().positive().default(7 * 24 * 60 * 60 * 1000),
+  // Oldest entries are evicted once the cache grows past this
+  maxSizeBytes: z.number().int().positive().default(50 * 1024 * 1024),
+})
+
+const isRegExp = (pattern: string) => tryCatch(() => new RegExp(pattern), (e) => e).ok
+
+const TranscriptConfigSchema = z.object({
+  // Write every LLM request and response of a run to .agent-helper/runs/<runId>/transcript.jsonl
+  enabled: z.boolean().default(true),
+  // Regular expressions redacted from transcripts, on top of API keys, .env secrets and common token formats
+  redactPatterns: z.array(z.string().refine(isRegExp, 'Invalid regular expression')).default([]),
+})
+
+const AgentConfigSchema = z.object({
+  // Overrides the top-level llm settings for this agent (e.g. a different model or server)
+  llm: LLMConfigSchema.partial().optional(),
+})
+
+const ToolAgentConfigSchema = AgentConfigSchema.extend({
+  // Repository tool calls (readFile, listDirectory, fileExists, searchText) per request; 0 disables tools
+  maxToolCalls: z.number().int().min(0).max(50).default(0),
+})
+
+const AgentsConfigSchema = z.object({
+  planner: AgentConfigSchema.default({}),
+  architect: ToolAgentConfigSchema.default({}),
+  coder: ToolAgentConfigSchema.default({}),
+  reviewer: AgentConfigSchema.default({}),
+})
+
 const ConfigSchema = z.object({
   llm: LLMConfigSchema.default({}),
   pipeline: PipelineConfigSchema.default({}),
   context: ContextConfigSchema.default({}),
+  verification: VerificationConfigSchema.default({}),
+  cache: CacheConfigSchema.default({}),
+  transcript: TranscriptConfigSchema.default({}),
+  agents: AgentsConfigSchema.default({}),
 })
 
 export type LLMConfig = z.infer<typeof LLMConfigSchema>
+export type LLMEndpointConfig = z.infer<typeof LLMEndpointSchema>
 export type PipelineConfig = z.infer<typeof PipelineConfigSchema>
 export type ContextConfig = z.infer<typeof ContextConfigSchema>
+export type VerificationConfig = z.infer<typeof VerificationConfigSchema>
+export type CacheConfig = z.infer<typeof CacheConfigSchema>
+export type TranscriptConfig = z.infer<typeof TranscriptConfigSchema>
+export type AgentsConfig = z.infer<typeof AgentsConfigSchema>
+export type AgentName = keyof AgentsConfig
 export type Config = z.infer<typeof ConfigSchema>
 
 export type ConfigError = {
@@ -48,6 +135,26 @@ export type ConfigError = {
 
 const CONFIG_FILENAME = '.agent-helper.json'
 
+function withOverrides<T extends object>(base: T, overrides: { [K in keyof T]?: T[K] | undefined } | undefined): T {
+  const defined = Object.entries(overrides ?? {}).filter(([, value]) => value !== undefined)
+  return { ...base, ...Object.fromEntries(defined) }
+}
+
+/**
+ * LLM settings for one agent: the top-level llm section with the agent's overrides applied
+ */
+export function resolveAgentLLMConfig(config: Config, agent: AgentName): LLMConfig {
+  return withOverrides(config.llm, config.agents[agent].llm)
+}
+
+/**
+ * The primary endpoint followed by each fallback, in the order they are tried
+ */
+export function resolveLLMEndpoints(config: LLMConfig): LLMEndpointConfig[] {
+  const { fallbacks, ...primary } = config
+  return [primary, ...fallbacks.map((fallback) => withOverrides(primary, fallback))]
+}
+
 function getEnvOverrides(): Partial<Config> {
   const overrides: Partial<Config> = {}
 
@@ -81,6 +188,10 @@ function mergeConfigs(base: Config, overrides: Partial<Config>): Config {
     llm: { ...base.llm, ...overrides.llm },
     pipeline: { ...base.pipeline, ...overrides.pipeline },
     context: { ...base.context, ...overrides.context },
+    verification: { ...base.verification, ...overrides.verification },
+    cache: { ...base.cache, ...overrides.cache },
+    transcript: { ...base.transcript, ...overrides.transcript },
+    agents: { ...base.agents, ...overrides.agents },
   }
 }
 
@@ -55,6 +55,21 @@ describe('plannerAgent', () => {
     }
   })
 
+  it('returns the model reasoning with the tasks', async () => {
+    const tasks = [{ id: 'task-1', title: 'Create model', description: 'Create the data model', dependsOn: [], estimatedFiles: [] }]
+    const mockLLM: LLMClient = {
+      generate: vi.fn(),
+      generateStructured: vi.fn().mockImplementation(async (_messages, _schema, options) => {
+        options?.onThinking?.('One model file is enough.')
+        return ok({ tasks })
+      }),
+    }
+
+    const result = await plannerAgent({ request: 'Create a user model', projectContext: '' }, createMockContext(mockLLM))
+
+    expect(result).toEqual({ ok: true, value: { tasks, thinking: 'One model file is enough.' } })
+  })
+
   it('returns error on LLM failure', async () => {
     const mockLLM: LLMClient = {
       generate: vi.fn(),
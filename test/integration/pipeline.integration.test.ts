@@ -1,51 +1,74 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest'
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
 import { mkdtempSync, rmSync, writeFileSync, existsSync, readFileSync, mkdirSync } from 'node:fs'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 import { runPipeline } from '../../src/orchestrator/pipeline.js'
 import { createLLMClient } from '../../src/llm/client.js'
+import { startMockLLMServer, type MockLLMServer, type MockRule } from '../../src/llm/mockServer.js'
 import { createToolKit } from '../../src/tools/toolkit.js'
 import { createLogger } from '../../src/utils/logger.js'
 import { getDefaultConfig } from '../../src/utils/config.js'
 import { applyChanges, stageChanges } from '../../src/orchestrator/staging.js'
 
 /**
- * Integration test that runs the full pipeline against a real LLM.
+ * Integration test that runs the full pipeline.
  *
- * Prerequisites:
- * - LLM server must be running at the configured URL (default: http://localhost:11434/v1)
- * - Set LLM_BASE_URL environment variable to override
+ * With LLM_BASE_URL set, it runs against that OpenAI-compatible server (and LLM_MODEL
+ * if set). Without it, each test answers from a scripted mock server, so the suite
+ * runs anywhere.
  *
  * Run with: npm run test:integration
  */
 
-async function isLLMAvailable(baseUrl: string): Promise<boolean> {
-  try {
-    const response = await fetch(`${baseUrl}/models`, {
-      method: 'GET',
-      signal: AbortSignal.timeout(5000),
-    })
-    return response.ok
-  } catch {
-    return false
-  }
+/**
+ * Responses for a one-task run that creates `files` and passes review
+ */
+function scriptedRun(files: Record<string, string>): MockRule[] {
+  const paths = Object.keys(files)
+  return [
+    {
+      agent: 'planner',
+      response: {
+        tasks: [{ id: 'task-1', title: `Create ${paths.join(', ')}`, description: 'Create the requested files', dependsOn: [], estimatedFiles: paths }],
+      },
+    },
+    {
+      agent: 'architect',
+      response: { files: paths.map((path) => ({ path, operation: 'create', description: `Create ${path}` })), reasoning: 'New files' },
+    },
+    { agent: 'coder', response: { changes: Object.entries(files).map(([path, content]) => ({ path, content })) } },
+    { agent: 'reviewer', response: { passed: true, issues: [], summary: 'Looks good' } },
+  ]
 }
 
 describe('Pipeline Integration', () => {
   let tmpDir: string
   let cleanupFn: () => void
-  let llmAvailable = false
-  let llmBaseUrl: string
-
-  beforeAll(async () => {
-    // Check LLM availability
-    llmBaseUrl = process.env['LLM_BASE_URL'] || 'http://localhost:11434/v1'
-    llmAvailable = await isLLMAvailable(llmBaseUrl)
-
-    if (!llmAvailable) {
-      console.warn(`\n⚠️  LLM server not available at ${llmBaseUrl}`)
-      console.warn('   Set LLM_BASE_URL environment variable or start your LLM server.')
-      console.warn('   Integration tests will be skipped.\n')
+  let mockServer: MockLLMServer | undefined
+  const llmBaseUrl = process.env['LLM_BASE_URL']
+
+  /**
+   * Config for the real server when LLM_BASE_URL is set, else for a mock server answering from `rules`
+   */
+  async function configFor(rules: MockRule[]) {
+    const config = getDefaultConfig()
+
+    if (llmBaseUrl) {
+      config.llm.baseUrl = llmBaseUrl
+      if (process.env['LLM_MODEL']) {
+        config.llm.model = process.env['LLM_MODEL']
+      }
+    } else {
+      mockServer = await startMockLLMServer({ rules })
+      config.llm.baseUrl = mockServer.baseUrl
+    }
+
+    return config
+  }
+
+  beforeAll(() => {
+    if (!llmBaseUrl) {
+      console.warn('\nLLM_BASE_URL is not set; running against a scripted mock server.\n')
     }
 
     // Create a unique temp directory for this test run
@@ -102,23 +125,29 @@ describe('Pipeline Integration', () => {
     mkdirSync(srcDir, { recursive: true })
   })
 
+  afterEach(async () => {
+    await mockServer?.close()
+    mockServer = undefined
+  })
+
   afterAll(() => {
     // Clean up temp directory
     cleanupFn()
   })
 
   it('builds a simple greeting module', async () => {
-    if (!llmAvailable) {
-      console.log('Skipping: LLM not available')
-      return
-    }
-
-    const config = getDefaultConfig()
-    config.llm.baseUrl = llmBaseUrl
-
-    if (process.env['LLM_MODEL']) {
-      config.llm.model = process.env['LLM_MODEL']
-    }
+    const config = await configFor(scriptedRun({
+      'src/greeting.ts': [
+        'export function greet(name: string): string {',
+        '  return `Hello, ${name}!`',
+        '}',
+        '',
+        'export function farewell(name: string): string {',
+        '  return `Goodbye, ${name}!`',
+        '}',
+        '',
+      ].join('\n'),
+    }))
 
     const logger = createLogger({ level: 'debug' })
     const llm = createLLMClient(config.llm)
@@ -174,17 +203,14 @@ Put the code in src/greeting.ts`
   }, 120000) // 2 minute timeout for LLM calls
 
   it('builds a simple calculator module', async () => {
-    if (!llmAvailable) {
-      console.log('Skipping: LLM not available')
-      return
-    }
-
-    const config = getDefaultConfig()
-    config.llm.baseUrl = llmBaseUrl
-
-    if (process.env['LLM_MODEL']) {
-      config.llm.model = process.env['LLM_MODEL']
-    }
+    const config = await configFor(scriptedRun({
+      'src/calculator.ts': [
+        'export const add = (a: number, b: number): number => a + b',
+        'export const subtract = (a: number, b: number): number => a - b',
+        'export const multiply = (a: number, b: number): number => a * b',
+        '',
+      ].join('\n'),
+    }))
 
     const logger = createLogger({ level: 'debug' })
     const llm = createLLMClient(config.llm)
@@ -227,17 +253,53 @@ Export all functions.`
   }, 120000)
 
   it('builds a multi-file todo list module with types and service', async () => {
-    if (!llmAvailable) {
-      console.log('Skipping: LLM not available')
-      return
-    }
-
-    const config = getDefaultConfig()
-    config.llm.baseUrl = llmBaseUrl
-
-    if (process.env['LLM_MODEL']) {
-      config.llm.model = process.env['LLM_MODEL']
-    }
+    const config = await configFor(scriptedRun({
+      'src/todo/types.ts': [
+        'export type Todo = {',
+        '  id: string',
+        '  title: string',
+        '  completed: boolean',
+        '  createdAt: Date',
+        '}',
+        '',
+      ].join('\n'),
+      'src/todo/store.ts': [
+        "import type { Todo } from './types.js'",
+        '',
+        'const todos: Todo[] = []',
+        '',
+        'export const getAll = (): Todo[] => [...todos]',
+        'export const getById = (id: string): Todo | undefined => todos.find((todo) => todo.id === id)',
+        'export const add = (todo: Todo): void => {',
+        '  todos.push(todo)',
+        '}',
+        'export const remove = (id: string): void => {',
+        '  const index = todos.findIndex((todo) => todo.id === id)',
+        '  if (index !== -1) todos.splice(index, 1)',
+        '}',
+        '',
+      ].join('\n'),
+      'src/todo/service.ts': [
+        "import { randomUUID } from 'node:crypto'",
+        "import type { Todo } from './types.js'",
+        "import { add, getAll, getById, remove } from './store.js'",
+        '',
+        'export function createTodo(title: string): Todo {',
+        '  const todo: Todo = { id: randomUUID(), title, completed: false, createdAt: new Date() }',
+        '  add(todo)',
+        '  return todo',
+        '}',
+        '',
+        'export function completeTodo(id: string): void {',
+        '  const todo = getById(id)',
+        '  if (todo) todo.completed = true',
+        '}',
+        '',
+        'export const deleteTodo = (id: string): void => remove(id)',
+        'export const listTodos = (): Todo[] => getAll()',
+        '',
+      ].join('\n'),
+    }))
 
     const logger = createLogger({ level: 'debug' })
     const llm = createLLMClient(config.llm)
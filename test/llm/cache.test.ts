@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, existsSync, readdirSync, utimesSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  createResponseCache,
+  clearResponseCache,
+  getCacheDirectory,
+  responseCacheKey,
+} from '../../src/llm/cache.js'
+
+describe('response cache', () => {
+  let testDir: string
+  const config = { ttlMs: 60_000, maxSizeBytes: 1024 * 1024 }
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `cache-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  const key = (content: string, temperature = 0.2, output: 'text' | 'json_schema' = 'text', schema?: unknown) => responseCacheKey({
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'test-model',
+    temperature,
+    maxTokens: 4096,
+    messages: [{ role: 'user', content }],
+    output,
+    schema,
+  })
+
+  it('keys requests by model, sampling settings and messages', () => {
+    expect(key('a')).toBe(key('a'))
+    expect(key('a')).not.toBe(key('b'))
+    expect(key('a')).not.toBe(key('a', 0.7))
+  })
+
+  it('keys structured requests by schema and output mode', () => {
+    const schema = { type: 'object', properties: { ok: { type: 'boolean' } } }
+
+    expect(key('a', 0.2, 'json_schema', schema)).toBe(key('a', 0.2, 'json_schema', schema))
+    expect(key('a', 0.2, 'json_schema', schema)).not.toBe(key('a'))
+    expect(key('a', 0.2, 'json_schema', schema)).not.toBe(key('a', 0.2, 'text', schema))
+    expect(key('a', 0.2, 'json_schema', schema)).not.toBe(key('a', 0.2, 'json_schema', { type: 'object' }))
+  })
+
+  it('returns stored responses until they expire', () => {
+    createResponseCache(testDir, config).set(key('a'), 'test-model', 'answer')
+
+    expect(createResponseCache(testDir, config).get(key('a'))).toBe('answer')
+    expect(createResponseCache(testDir, config).get(key('b'))).toBeUndefined()
+    expect(createResponseCache(testDir, { ...config, ttlMs: -1 }).get(key('a'))).toBeUndefined()
+  })
+
+  it('evicts the oldest entries once the cache is too large', () => {
+    const cache = createResponseCache(testDir, { ...config, maxSizeBytes: 300 })
+    cache.set(key('old'), 'test-model', 'x'.repeat(100))
+    const old = join(getCacheDirectory(testDir), `${key('old')}.json`)
+    utimesSync(old, new Date(Date.now() - 10_000), new Date(Date.now() - 10_000))
+
+    cache.set(key('new'), 'test-model', 'y'.repeat(100))
+    cache.set(key('newer'), 'test-model', 'z'.repeat(100))
+
+    expect(cache.get(key('old'))).toBeUndefined()
+    expect(cache.get(key('newer'))).toBe('z'.repeat(100))
+  })
+
+  it('clears every entry', () => {
+    const cache = createResponseCache(testDir, config)
+    cache.set(key('a'), 'test-model', 'one')
+    cache.set(key('b'), 'test-model', 'two')
+
+    expect(clearResponseCache(testDir)).toBe(2)
+    expect(existsSync(getCacheDirectory(testDir)) && readdirSync(getCacheDirectory(testDir))).toBeFalsy()
+    expect(clearResponseCache(testDir)).toBe(0)
+  })
+})
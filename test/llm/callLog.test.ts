@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { createCallLog, formatCallSummary } from '../../src/llm/callLog.js'
+
+describe('formatCallSummary', () => {
+  it('groups calls by agent and lists failovers', () => {
+    const log = createCallLog()
+    log.record({ label: 'planner', model: 'big', baseUrl: 'http://a/v1', failedOver: [] })
+    log.record({ label: 'coder', model: 'big', baseUrl: 'http://a/v1', failedOver: [] })
+    log.record({
+      label: 'coder',
+      model: 'small',
+      baseUrl: 'http://b/v1',
+      failedOver: [{ model: 'big', baseUrl: 'http://a/v1', reason: 'LLM request timed out' }],
+    })
+
+    expect(formatCallSummary(log.getCalls())).toBe([
+      'Models used:',
+      '  planner: big (1 call)',
+      '  coder: big (1 call), small (1 call)',
+      'Fallbacks:',
+      '  coder: big at http://a/v1 (LLM request timed out) → small',
+    ].join('\n'))
+  })
+
+  it('lists calls whose output needed repair', () => {
+    expect(formatCallSummary([
+      { label: 'coder', model: 'big', baseUrl: 'http://a/v1', failedOver: [], repairs: ['continuation', 'trailing_commas'] },
+    ])).toBe([
+      'Models used:',
+      '  coder: big (1 call)',
+      'Repaired output:',
+      '  coder: continuation, trailing_commas',
+    ].join('\n'))
+  })
+
+  it('leaves out calls that failed', () => {
+    expect(formatCallSummary([
+      { label: 'planner', model: 'big', baseUrl: 'http://a/v1', failedOver: [], durationMs: 10 },
+      { label: 'coder', model: 'big', baseUrl: 'http://a/v1', failedOver: [], failed: true, durationMs: 10 },
+    ])).toBe([
+      'Models used:',
+      '  planner: big (1 call)',
+    ].join('\n'))
+  })
+
+  it('is empty when nothing was called', () => {
+    expect(formatCallSummary([])).toBe('')
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, existsSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  loadCapabilityProfiles,
+  saveCapabilityProfile,
+  withCapabilities,
+  CAPABILITIES_FILE,
+  type CapabilityProfile,
+} from '../../src/llm/capabilities.js'
+import { probeCapabilities } from '../../src/llm/probe.js'
+import { startMockLLMServer } from '../../src/llm/mockServer.js'
+import { getDefaultConfig } from '../../src/utils/config.js'
+
+const profile = (overrides: Partial<CapabilityProfile> = {}): CapabilityProfile => ({
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'test-model',
+  probedAt: '2026-01-01T00:00:00.000Z',
+  contextWindow: 8192,
+  jsonSchema: false,
+  toolCalling: false,
+  streaming: true,
+  thinking: false,
+  ...overrides,
+})
+
+describe('capability profiles', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `capabilities-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('saves one profile per endpoint and model', () => {
+    saveCapabilityProfile(testDir, profile())
+    saveCapabilityProfile(testDir, profile({ model: 'other-model' }))
+    saveCapabilityProfile(testDir, profile({ jsonSchema: true }))
+
+    const profiles = loadCapabilityProfiles(testDir)
+    expect(profiles.map((p) => [p.model, p.jsonSchema])).toEqual([['other-model', false], ['test-model', true]])
+  })
+
+  it('treats a missing or corrupt file as no profiles', () => {
+    expect(loadCapabilityProfiles(testDir)).toEqual([])
+
+    mkdirSync(join(testDir, '.agent-helper'))
+    writeFileSync(join(testDir, CAPABILITIES_FILE), '{"version": 2}')
+    expect(loadCapabilityProfiles(testDir)).toEqual([])
+  })
+
+  it('fills in the context window and structured output strategy left to detection', () => {
+    const config = { ...getDefaultConfig().llm, baseUrl: 'http://localhost:11434/v1', model: 'test-model' }
+
+    expect(withCapabilities(config, [profile()])).toMatchObject({ contextWindow: 8192, structuredOutput: 'off' })
+    expect(withCapabilities({ ...config, contextWindow: 4096, structuredOutput: 'json_schema' as const }, [profile()]))
+      .toMatchObject({ contextWindow: 4096, structuredOutput: 'json_schema' })
+    expect(withCapabilities(config, [profile({ model: 'other-model' })])).toBe(config)
+  })
+})
+
+describe('probeCapabilities', () => {
+  it('records what the server supports', async () => {
+    const server = await startMockLLMServer({
+      contextWindow: 16384,
+      rules: [
+        { match: 'Say "hello"', response: 'hello' },
+        { match: 'What is 17 + 25', response: '<think>17 + 25 = 42</think>42' },
+        // The mock server never sends tool calls
+        { match: 'Call getProbeCode', response: 'I cannot call tools.' },
+        { response: { status: 'ok' } },
+      ],
+    })
+
+    try {
+      const config = { ...getDefaultConfig().llm, baseUrl: server.baseUrl, model: 'mock-model' }
+      const result = await probeCapabilities(config, new Date('2026-01-01T00:00:00.000Z'))
+
+      expect(result).toEqual({ ok: true, value: {
+        baseUrl: server.baseUrl,
+        model: 'mock-model',
+        probedAt: '2026-01-01T00:00:00.000Z',
+        contextWindow: 16384,
+        jsonSchema: true,
+        toolCalling: false,
+        streaming: true,
+        thinking: true,
+      } })
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('fails instead of recording "unsupported" when the server is unreachable', async () => {
+    const config = { ...getDefaultConfig().llm, baseUrl: 'http://127.0.0.1:1/v1', model: 'mock-model', maxRetries: 0 }
+
+    const result = await probeCapabilities(config)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toMatchObject({ type: 'unavailable', details: { type: 'connection' } })
+    }
+  })
+
+  it('fails when the server answers with server errors', async () => {
+    const server = await startMockLLMServer({ rules: [{ fault: 'server_error' }] })
+
+    try {
+      const config = { ...getDefaultConfig().llm, baseUrl: server.baseUrl, model: 'mock-model', maxRetries: 0 }
+      const result = await probeCapabilities(config)
+
+      expect(result.ok).toBe(false)
+    } finally {
+      await server.close()
+    }
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { z } from 'zod'
+import { createCassetteRecorder, createReplayLLMClient, loadCassette } from '../../src/llm/cassette.js'
+import { ok, err } from '../../src/utils/result.js'
+import type { LLMClient } from '../../src/llm/client.js'
+
+describe('cassettes', () => {
+  let testDir: string
+  let cassettePath: string
+  const Schema = z.object({ answer: z.number() })
+
+  beforeEach(() => {
+    testDir = mkdtempSync(join(tmpdir(), 'cassette-test-'))
+    cassettePath = join(testDir, 'session.jsonl')
+  })
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('replays a recorded session', async () => {
+    const llm: LLMClient = {
+      generate: vi.fn().mockResolvedValue(ok('hello')),
+      stream: vi.fn().mockResolvedValue(err({ type: 'timeout', message: 'LLM request timed out' })),
+      generateStructured: vi.fn().mockResolvedValue(ok({ answer: 42 })),
+    }
+    const recorded = createCassetteRecorder(cassettePath)(llm)
+    await recorded.generate([{ role: 'user', content: 'Say hello' }])
+    await recorded.stream([{ role: 'user', content: 'Slow' }], { label: 'coder' })
+    await recorded.generateStructured([{ role: 'user', content: 'Answer?' }], Schema, { label: 'planner' })
+
+    expect(readFileSync(cassettePath, 'utf-8').trim().split('\n')).toHaveLength(3)
+
+    const cassette = loadCassette(cassettePath)
+    if (!cassette.ok) throw new Error(cassette.error.message)
+    const replay = createReplayLLMClient(cassette.value)
+
+    expect(await replay.generateStructured([{ role: 'user', content: 'Answer?' }], Schema, { label: 'planner' }))
+      .toEqual({ ok: true, value: { answer: 42 } })
+    expect(await replay.generate([{ role: 'user', content: 'Say hello' }])).toEqual({ ok: true, value: 'hello' })
+    expect(await replay.stream([{ role: 'user', content: 'Slow' }], { label: 'coder' }))
+      .toEqual({ ok: false, error: { type: 'timeout', message: 'LLM request timed out' } })
+  })
+
+  it('records the usage of each call and reports it again on replay', async () => {
+    const llm: LLMClient = {
+      generate: vi.fn(),
+      stream: vi.fn(),
+      generateStructured: vi.fn().mockImplementation(async (_messages, _schema, options) => {
+        options?.onUsage?.({ promptTokens: 40, completionTokens: 2 })
+        return ok({ answer: 42 })
+      }),
+    }
+    const recordedUsage = vi.fn()
+    await createCassetteRecorder(cassettePath)(llm)
+      .generateStructured([{ role: 'user', content: 'Answer?' }], Schema, { label: 'planner', onUsage: recordedUsage })
+
+    const cassette = loadCassette(cassettePath)
+    if (!cassette.ok) throw new Error(cassette.error.message)
+    const replayedUsage = vi.fn()
+    await createReplayLLMClient(cassette.value)
+      .generateStructured([{ role: 'user', content: 'Answer?' }], Schema, { label: 'planner', onUsage: replayedUsage })
+
+    expect(recordedUsage).toHaveBeenCalledWith({ promptTokens: 40, completionTokens: 2 })
+    expect(replayedUsage).toHaveBeenCalledWith({ promptTokens: 40, completionTokens: 2 })
+  })
+
+  it('fails requests that were not recorded, and entries are served once', async () => {
+    const replay = createReplayLLMClient([
+      { method: 'generateStructured', label: 'planner', result: { ok: true, value: { answer: 1 } } },
+    ])
+
+    const first = await replay.generateStructured([{ role: 'user', content: 'Any' }], Schema, { label: 'planner' })
+    const again = await replay.generateStructured([{ role: 'user', content: 'Any' }], Schema, { label: 'planner' })
+    const otherAgent = await replay.generate([{ role: 'user', content: 'Hi' }])
+
+    expect(first).toEqual({ ok: true, value: { answer: 1 } })
+    expect(again.ok).toBe(false)
+    if (!again.ok) {
+      expect(again.error.message).toBe('Replay: no recorded generateStructured response for planner matches this request')
+    }
+    expect(otherAgent.ok).toBe(false)
+  })
+
+  it('rejects recorded values that no longer match the schema', async () => {
+    const replay = createReplayLLMClient([
+      { method: 'generateStructured', result: { ok: true, value: { answer: 'forty-two' } } },
+    ])
+
+    const result = await replay.generateStructured([{ role: 'user', content: 'Answer?' }], Schema)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error.type).toBe('schema_validation')
+  })
+
+  it('reports the line of an invalid entry', () => {
+    writeFileSync(cassettePath, '{"method":"generate","result":{"ok":true,"value":"x"}}\nnot json\n')
+
+    const result = loadCassette(cassettePath)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) expect(result.error.message).toContain('line 2')
+  })
+})
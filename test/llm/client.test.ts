@@ -2,18 +2,46 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { z } from 'zod'
 
 // Mock the AI SDK
-vi.mock('ai', () => ({
+vi.mock('ai', async (importOriginal) => ({
   generateText: vi.fn(),
+  streamText: vi.fn(),
+  Output: { object: vi.fn((options: unknown) => ({ type: 'object', options })) },
+  tool: vi.fn((definition: unknown) => definition),
+  zodSchema: (await importOriginal<typeof import('ai')>()).zodSchema,
 }))
 
 vi.mock('@ai-sdk/openai', () => ({
   createOpenAI: vi.fn(() => vi.fn(() => 'mock-model')),
 }))
 
-import { generateText } from 'ai'
-import { createLLMClient } from '../../src/llm/client.js'
+import { generateText, streamText } from 'ai'
+import {
+  createLLMClient,
+  labelLLMClient,
+  parseRetryAfter,
+  retryDelay,
+  defineTool,
+  type LLMCallRecord,
+  type LLMProgress,
+} from '../../src/llm/client.js'
 
 const mockGenerateText = vi.mocked(generateText)
+const mockStreamText = vi.mocked(streamText)
+
+function streamOf(parts: unknown[]) {
+  return {
+    fullStream: (async function* () {
+      yield* parts
+    })(),
+  } as never
+}
+
+function streamingText(chunks: string[], completionTokens = Number.NaN) {
+  return streamOf([
+    ...chunks.map((textDelta) => ({ type: 'text-delta', textDelta })),
+    { type: 'finish', usage: { completionTokens } },
+  ])
+}
 
 describe('createLLMClient', () => {
   const defaultConfig = {
@@ -22,6 +50,13 @@ describe('createLLMClient', () => {
     apiKey: '',
     maxTokens: 4096,
     temperature: 0.2,
+    structuredOutput: 'auto' as const,
+    thinking: 'default' as const,
+    requestTimeoutMs: 60000,
+    maxRetries: 2,
+    retryBaseDelayMs: 0,
+    retryMaxDelayMs: 0,
+    fallbacks: [],
   }
 
   beforeEach(() => {
@@ -165,5 +200,510 @@ describe('createLLMClient', () => {
       }
       expect(mockGenerateText).toHaveBeenCalledTimes(2)
     })
+
+    it('repairs sloppy JSON without a retry and reports the repairs', async () => {
+      mockGenerateText.mockResolvedValue({
+        text: "{'message': 'hello', 'count': 42,}",
+      } as never)
+
+      const calls: LLMCallRecord[] = []
+      const client = createLLMClient(defaultConfig, { onCall: (call) => calls.push(call) })
+      const result = await client.generateStructured(
+        [{ role: 'user', content: 'Test' }],
+        TestSchema,
+        { label: 'planner' }
+      )
+
+      expect(result.ok).toBe(true)
+      expect(mockGenerateText).toHaveBeenCalledTimes(1)
+      expect(calls[0]?.repairs).toEqual(['single_quotes', 'trailing_commas'])
+    })
+
+    it('asks the model to continue a response cut off at maxTokens', async () => {
+      mockGenerateText
+        .mockResolvedValueOnce({ text: '{"message": "hel', finishReason: 'length' } as never)
+        .mockResolvedValueOnce({ text: 'lo", "count": 42}', finishReason: 'stop' } as never)
+
+      const calls: LLMCallRecord[] = []
+      const client = createLLMClient(defaultConfig, { onCall: (call) => calls.push(call) })
+      const result = await client.generateStructured(
+        [{ role: 'user', content: 'Test' }],
+        TestSchema
+      )
+
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.value).toEqual({ message: 'hello', count: 42 })
+      }
+      const continuation = mockGenerateText.mock.calls[1]?.[0] as { messages: unknown[]; experimental_output?: unknown }
+      expect(continuation.messages.slice(1, 2)).toEqual([{ role: 'assistant', content: '{"message": "hel' }])
+      expect(continuation.experimental_output).toBeUndefined()
+      expect(calls[0]?.repairs).toEqual(['continuation'])
+    })
+
+    it('reports the model reasoning with the call', async () => {
+      mockGenerateText.mockResolvedValue({
+        text: '<think>The user wants a greeting.</think>\n{"message": "hello", "count": 1}',
+      } as never)
+
+      const calls: LLMCallRecord[] = []
+      const onThinking = vi.fn()
+      const client = createLLMClient(defaultConfig, { onCall: (call) => calls.push(call) })
+      const result = await client.generateStructured([{ role: 'user', content: 'Test' }], TestSchema, { onThinking })
+
+      expect(result).toEqual({ ok: true, value: { message: 'hello', count: 1 } })
+      expect(calls[0]?.thinking).toBe('The user wants a greeting.')
+      expect(onThinking).toHaveBeenCalledWith('The user wants a greeting.')
+    })
+
+    it('switches thinking off with /no_think in the system prompt', async () => {
+      mockGenerateText.mockResolvedValue({ text: '{"message": "hello", "count": 1}' } as never)
+
+      const client = createLLMClient({ ...defaultConfig, thinking: 'off' })
+      await client.generateStructured(
+        [{ role: 'system', content: 'You are a coder.' }, { role: 'user', content: 'Test' }],
+        TestSchema
+      )
+
+      const request = mockGenerateText.mock.calls[0]?.[0] as { messages: unknown[] }
+      expect(request.messages[0]).toEqual({ role: 'system', content: 'You are a coder.\n/no_think' })
+    })
+  })
+  describe('stream', () => {
+    it('returns the streamed text and reports progress', async () => {
+      mockStreamText.mockReturnValue(streamingText(['{"a"', ': 1}'], 7))
+      const events: LLMProgress[] = []
+
+      const client = createLLMClient(defaultConfig)
+      const result = await client.stream([{ role: 'user', content: 'Test' }], {
+        label: 'coder',
+        onProgress: (progress) => events.push(progress),
+      })
+
+      expect(result).toEqual({ ok: true, value: '{"a": 1}' })
+      expect(events.map((e) => [e.tokens, e.done])).toEqual([[0, false], [1, false], [2, false], [7, true]])
+      expect(events.every((e) => e.label === 'coder')).toBe(true)
+    })
+
+    it('maps stream errors like generate errors', async () => {
+      mockStreamText.mockReturnValue(streamOf([{ type: 'error', error: new Error('fetch failed') }]))
+
+      const client = createLLMClient(defaultConfig)
+      const result = await client.stream([{ role: 'user', content: 'Test' }])
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error.type).toBe('connection')
+      }
+    })
+
+    it('streams structured requests when a progress callback is set', async () => {
+      mockStreamText.mockReturnValue(streamingText(['{"message": "hi", ', '"count": 2}']))
+      const onProgress = vi.fn()
+
+      const client = labelLLMClient(createLLMClient(defaultConfig, { onProgress }), 'planner')
+      const result = await client.generateStructured(
+        [{ role: 'user', content: 'Test' }],
+        z.object({ message: z.string(), count: z.number() })
+      )
+
+      expect(result).toEqual({ ok: true, value: { message: 'hi', count: 2 } })
+      expect(mockGenerateText).not.toHaveBeenCalled()
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ label: 'planner', tokens: 2, done: true }))
+    })
+  })
+  describe('structured output', () => {
+    const Schema = z.object({ ok: z.boolean() })
+    const sentSchema = (call: number) =>
+      (mockGenerateText.mock.calls[call]?.[0] as { experimental_output?: unknown }).experimental_output
+
+    it('sends the schema as response_format unless disabled', async () => {
+      mockGenerateText.mockResolvedValue({ text: '{"ok": true}' } as never)
+
+      await createLLMClient(defaultConfig).generateStructured([{ role: 'user', content: 'Test' }], Schema)
+      await createLLMClient({ ...defaultConfig, structuredOutput: 'off' })
+        .generateStructured([{ role: 'user', content: 'Test' }], Schema)
+
+      expect(sentSchema(0)).toBeDefined()
+      expect(sentSchema(1)).toBeUndefined()
+    })
+
+    it('falls back to prompt-and-parse when the server rejects the schema', async () => {
+      mockGenerateText
+        .mockRejectedValueOnce(Object.assign(new Error('response_format is not supported'), { status: 400 }))
+        .mockResolvedValue({ text: '{"ok": true}' } as never)
+
+      const client = createLLMClient(defaultConfig)
+      const first = await client.generateStructured([{ role: 'user', content: 'Test' }], Schema)
+      await client.generateStructured([{ role: 'user', content: 'Again' }], Schema)
+
+      expect(first).toEqual({ ok: true, value: { ok: true } })
+      expect(sentSchema(0)).toBeDefined()
+      expect(sentSchema(1)).toBeUndefined()
+      expect(sentSchema(2)).toBeUndefined()
+    })
+
+    it('keeps sending the schema after errors unrelated to it', async () => {
+      mockGenerateText
+        .mockRejectedValueOnce(Object.assign(new Error('This model maximum context length is 8192 tokens'), { status: 400 }))
+        .mockResolvedValue({ text: '{"ok": true}' } as never)
+
+      const client = createLLMClient(defaultConfig)
+      const result = await client.generateStructured([{ role: 'user', content: 'Test' }], Schema)
+
+      expect(result).toEqual({ ok: true, value: { ok: true } })
+      expect(mockGenerateText).toHaveBeenCalledTimes(2)
+      expect(sentSchema(0)).toBeDefined()
+      expect(sentSchema(1)).toBeDefined()
+    })
+
+    it('does not fall back when the schema is required', async () => {
+      mockGenerateText.mockRejectedValue(new Error('response_format is not supported'))
+
+      const client = createLLMClient({ ...defaultConfig, structuredOutput: 'json_schema' })
+      const result = await client.generateStructured([{ role: 'user', content: 'Test' }], Schema, { retries: 1 })
+
+      expect(result.ok).toBe(false)
+      expect(mockGenerateText).toHaveBeenCalledTimes(1)
+    })
+  })
+  describe('tools', () => {
+    const readFile = defineTool({
+      description: 'Read a file',
+      parameters: z.object({ path: z.string() }),
+      execute: ({ path }) => `contents of ${path}`,
+    })
+
+    it('passes tools with a step limit and leaves the output format to the prompt', async () => {
+      mockGenerateText.mockResolvedValue({ text: '{"ok": true}' } as never)
+
+      const client = createLLMClient(defaultConfig)
+      const result = await client.generateStructured(
+        [{ role: 'user', content: 'Test' }],
+        z.object({ ok: z.boolean() }),
+        { tools: { readFile }, maxSteps: 4 }
+      )
+
+      expect(result.ok).toBe(true)
+      const request = mockGenerateText.mock.calls[0]?.[0] as unknown as Record<string, unknown>
+      expect(request['maxSteps']).toBe(4)
+      expect(request['experimental_output']).toBeUndefined()
+
+      const sdkTool = (request['tools'] as Record<string, { execute: (args: unknown) => Promise<string> }>)['readFile']
+      expect(await sdkTool?.execute({ path: 'a.ts' })).toBe('contents of a.ts')
+    })
+
+    it('keeps only the final step text when streaming', async () => {
+      mockStreamText.mockReturnValue(streamOf([
+        { type: 'step-start' },
+        { type: 'text-delta', textDelta: 'Let me look at the file.' },
+        { type: 'step-start' },
+        { type: 'text-delta', textDelta: '{"ok": true}' },
+        { type: 'finish', usage: { completionTokens: 10 } },
+      ]))
+
+      const client = createLLMClient(defaultConfig)
+      const result = await client.stream([{ role: 'user', content: 'Test' }], { tools: { readFile } })
+
+      expect(result).toEqual({ ok: true, value: '{"ok": true}' })
+    })
+  })
+  describe('fallbacks', () => {
+    const Schema = z.object({ ok: z.boolean() })
+    const config = { ...defaultConfig, fallbacks: [{ model: 'backup-model', baseUrl: 'http://backup:8000/v1' }] }
+
+    it('fails over to the next endpoint when the server is down and records who answered', async () => {
+      mockGenerateText
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValue({ text: '{"ok": true}' } as never)
+      const calls: LLMCallRecord[] = []
+
+      const client = labelLLMClient(createLLMClient(config, { onCall: (call) => calls.push(call) }), 'coder')
+      const result = await client.generateStructured([{ role: 'user', content: 'Test' }], Schema)
+
+      expect(result).toEqual({ ok: true, value: { ok: true } })
+      expect(mockGenerateText).toHaveBeenCalledTimes(2)
+      expect(calls).toEqual([{
+        label: 'coder',
+        model: 'backup-model',
+        baseUrl: 'http://backup:8000/v1',
+        failedOver: [{
+          model: 'test-model',
+          baseUrl: 'http://localhost:11434/v1',
+          reason: 'Failed to connect to LLM server at http://localhost:11434/v1',
+        }],
+        durationMs: expect.any(Number),
+      }])
+    })
+
+    it('fails over on timeouts and after repeated schema failures', async () => {
+      mockGenerateText
+        .mockRejectedValueOnce(Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' }))
+        .mockResolvedValue({ text: '{"ok": true}' } as never)
+      const timedOut = await createLLMClient(config).generate([{ role: 'user', content: 'Test' }])
+      expect(timedOut).toEqual({ ok: true, value: '{"ok": true}' })
+
+      mockGenerateText.mockReset()
+      mockGenerateText
+        .mockResolvedValueOnce({ text: 'not json' } as never)
+        .mockResolvedValueOnce({ text: 'still not json' } as never)
+        .mockResolvedValue({ text: '{"ok": true}' } as never)
+      const invalid = await createLLMClient(config).generateStructured(
+        [{ role: 'user', content: 'Test' }],
+        Schema,
+        { retries: 2 }
+      )
+      expect(invalid).toEqual({ ok: true, value: { ok: true } })
+      expect(mockGenerateText).toHaveBeenCalledTimes(3)
+    })
+
+    it('does not fail over on other errors', async () => {
+      mockGenerateText.mockRejectedValue(new Error('Bad request'))
+
+      const result = await createLLMClient(config).generate([{ role: 'user', content: 'Test' }])
+
+      expect(result.ok).toBe(false)
+      expect(mockGenerateText).toHaveBeenCalledTimes(1)
+    })
+  })
+  describe('retries', () => {
+    const apiError = (statusCode: number, responseHeaders: Record<string, string> = {}) =>
+      Object.assign(new Error(`HTTP ${statusCode}`), { statusCode, responseHeaders })
+
+    it('retries rate limits and server errors, leaving the SDK retries off', async () => {
+      mockGenerateText
+        .mockRejectedValueOnce(apiError(429, { 'retry-after': '0' }))
+        .mockRejectedValueOnce(apiError(502))
+        .mockResolvedValue({ text: 'Hello' } as never)
+
+      const result = await createLLMClient(defaultConfig).generate([{ role: 'user', content: 'Test' }])
+
+      expect(result).toEqual({ ok: true, value: 'Hello' })
+      expect(mockGenerateText).toHaveBeenCalledTimes(3)
+      const request = mockGenerateText.mock.calls[0]?.[0] as unknown as Record<string, unknown>
+      expect(request['maxRetries']).toBe(0)
+      expect(request['abortSignal']).toBeInstanceOf(AbortSignal)
+    })
+
+    it('gives up after maxRetries with the classified error', async () => {
+      mockGenerateText.mockRejectedValue(apiError(503, { 'retry-after': '0' }))
+
+      const result = await createLLMClient(defaultConfig).generate([{ role: 'user', content: 'Test' }])
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toMatchObject({ type: 'server_error', attempt: 3, retryAfterMs: 0 })
+      }
+      expect(mockGenerateText).toHaveBeenCalledTimes(3)
+    })
+
+    it('does not retry client errors', async () => {
+      mockGenerateText.mockRejectedValue(apiError(400))
+
+      const result = await createLLMClient(defaultConfig).generate([{ role: 'user', content: 'Test' }])
+
+      expect(result.ok).toBe(false)
+      expect(mockGenerateText).toHaveBeenCalledTimes(1)
+    })
+
+    it('parses Retry-After as seconds or a date', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z')
+      expect(parseRetryAfter('5', now)).toBe(5000)
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT', now)).toBe(10000)
+      expect(parseRetryAfter('soon', now)).toBeUndefined()
+      expect(parseRetryAfter(undefined, now)).toBeUndefined()
+    })
+
+    it('backs off exponentially with jitter up to the cap', () => {
+      const config = { retryBaseDelayMs: 1000, retryMaxDelayMs: 5000 }
+      expect(retryDelay(config, 0, undefined, () => 0)).toBe(500)
+      expect(retryDelay(config, 1, undefined, () => 1)).toBe(2000)
+      expect(retryDelay(config, 5, undefined, () => 1)).toBe(5000)
+    })
+
+    it('honours Retry-After but never waits longer than the cap', () => {
+      const config = { retryBaseDelayMs: 1000, retryMaxDelayMs: 5000 }
+      expect(retryDelay(config, 5, 3000)).toBe(3000)
+      expect(retryDelay(config, 0, 86_400_000)).toBe(5000)
+    })
+  })
+  describe('cache', () => {
+    const memoryCache = () => {
+      const entries = new Map<string, string>()
+      return {
+        entries,
+        get: (key: string) => entries.get(key),
+        set: (key: string, _model: string, text: string) => {
+          entries.set(key, text)
+        },
+      }
+    }
+
+    it('replays identical requests from the cache', async () => {
+      mockGenerateText.mockResolvedValue({ text: 'Hello' } as never)
+      const cache = memoryCache()
+
+      const client = createLLMClient(defaultConfig, { cache })
+      await client.generate([{ role: 'user', content: 'Say hello' }])
+      const replayed = await client.generate([{ role: 'user', content: 'Say hello' }])
+      await client.generate([{ role: 'user', content: 'Say bye' }])
+
+      expect(replayed).toEqual({ ok: true, value: 'Hello' })
+      expect(mockGenerateText).toHaveBeenCalledTimes(2)
+      expect(cache.entries.size).toBe(2)
+    })
+
+    it('does not replay a plain response for a schema-constrained request', async () => {
+      mockGenerateText.mockResolvedValue({ text: '{"status": "ok"}' } as never)
+      const cache = memoryCache()
+
+      const client = createLLMClient(defaultConfig, { cache })
+      await client.generate([{ role: 'user', content: 'Test' }])
+      await client.generateStructured([{ role: 'user', content: 'Test' }], z.object({ status: z.string() }))
+      await client.generateStructured([{ role: 'user', content: 'Test' }], z.object({ status: z.string() }))
+
+      expect(mockGenerateText).toHaveBeenCalledTimes(2)
+      expect(cache.entries.size).toBe(2)
+    })
+
+    it('does not cache failures or tool requests', async () => {
+      const readFile = defineTool({
+        description: 'Read a file',
+        parameters: z.object({ path: z.string() }),
+        execute: () => '',
+      })
+      mockGenerateText.mockRejectedValueOnce(new Error('Bad request')).mockResolvedValue({ text: 'Hello' } as never)
+      const cache = memoryCache()
+
+      const client = createLLMClient(defaultConfig, { cache })
+      await client.generate([{ role: 'user', content: 'Test' }])
+      await client.generate([{ role: 'user', content: 'Test' }], { tools: { readFile } })
+
+      expect(cache.entries.size).toBe(0)
+    })
+  })
+
+  describe('capabilities', () => {
+    const profile = {
+      baseUrl: defaultConfig.baseUrl,
+      model: defaultConfig.model,
+      probedAt: '2026-01-01T00:00:00.000Z',
+      jsonSchema: false,
+      toolCalling: false,
+      streaming: false,
+      thinking: false,
+    }
+    const Schema = z.object({ status: z.string() })
+
+    it('skips the JSON schema for servers probed without support', async () => {
+      mockGenerateText.mockResolvedValue({ text: '{"status": "ok"}' } as never)
+
+      const client = createLLMClient(defaultConfig, { capabilities: [profile] })
+      await client.generateStructured([{ role: 'user', content: 'Test' }], Schema)
+
+      const request = mockGenerateText.mock.calls[0]?.[0] as { experimental_output?: unknown }
+      expect(request.experimental_output).toBeUndefined()
+    })
+
+    it('does not stream to servers probed without streaming', async () => {
+      mockGenerateText.mockResolvedValue({ text: '{"status": "ok"}' } as never)
+
+      const client = createLLMClient(defaultConfig, { capabilities: [profile], onProgress: vi.fn() })
+      const result = await client.generateStructured([{ role: 'user', content: 'Test' }], Schema)
+
+      expect(result.ok).toBe(true)
+      expect(mockStreamText).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('transcript', () => {
+    it('records every attempt with its response, usage and latency', async () => {
+      mockGenerateText
+        .mockRejectedValueOnce(Object.assign(new Error('HTTP 503'), { statusCode: 503, responseHeaders: { 'retry-after': '0' } }))
+        .mockResolvedValue({ text: 'Hello', usage: { promptTokens: 12, completionTokens: 3 } } as never)
+      const onTranscript = vi.fn()
+
+      const client = labelLLMClient(createLLMClient(defaultConfig, { onTranscript }), 'coder')
+      await client.generate([{ role: 'user', content: 'Test' }])
+
+      const entries = onTranscript.mock.calls.map(([entry]) => entry)
+      expect(entries).toHaveLength(2)
+      expect(entries[0]).toMatchObject({ type: 'request', label: 'coder', model: 'test-model', attempt: 0, error: { type: 'server_error' } })
+      expect(entries[1]).toMatchObject({
+        type: 'request',
+        attempt: 1,
+        stream: false,
+        messages: [{ role: 'user', content: 'Test' }],
+        response: 'Hello',
+        usage: { promptTokens: 12, completionTokens: 3 },
+      })
+      expect(entries[1].latencyMs).toBeGreaterThanOrEqual(0)
+    })
+
+    it('records structured output that failed to parse', async () => {
+      mockGenerateText
+        .mockResolvedValueOnce({ text: 'not json' } as never)
+        .mockResolvedValue({ text: '{"status": "ok"}' } as never)
+      const onTranscript = vi.fn()
+
+      const client = createLLMClient({ ...defaultConfig, structuredOutput: 'off' }, { onTranscript })
+      const result = await client.generateStructured([{ role: 'user', content: 'Test' }], z.object({ status: z.string() }))
+
+      expect(result.ok).toBe(true)
+      const types = onTranscript.mock.calls.map(([entry]) => entry.type)
+      expect(types).toEqual(['request', 'parse_error', 'request'])
+    })
+  })
+
+  describe('usage', () => {
+    it('adds up tokens across retries and continuations and attributes them to the task', async () => {
+      mockGenerateText
+        .mockResolvedValueOnce({ text: 'not json', usage: { promptTokens: 100, completionTokens: 10 } } as never)
+        .mockResolvedValueOnce({ text: '{"status": "o', finishReason: 'length', usage: { promptTokens: 120, completionTokens: 20 } } as never)
+        .mockResolvedValueOnce({ text: 'k"}', usage: { promptTokens: 140, completionTokens: 5 } } as never)
+      const calls: LLMCallRecord[] = []
+
+      const client = labelLLMClient(createLLMClient(defaultConfig, { onCall: (call) => calls.push(call) }), 'coder', 'task-1')
+      const result = await client.generateStructured([{ role: 'user', content: 'Test' }], z.object({ status: z.string() }))
+
+      expect(result.ok).toBe(true)
+      expect(calls).toHaveLength(1)
+      expect(calls[0]).toMatchObject({ label: 'coder', task: 'task-1', usage: { promptTokens: 360, completionTokens: 35 } })
+      expect(calls[0]?.durationMs).toBeGreaterThanOrEqual(0)
+    })
+
+    it('reports each call\'s usage to its onUsage callback', async () => {
+      mockGenerateText
+        .mockResolvedValueOnce({ text: 'Hello', usage: { promptTokens: 12, completionTokens: 3 } } as never)
+        .mockResolvedValueOnce({ text: 'Hello', usage: { promptTokens: Number.NaN, completionTokens: Number.NaN } } as never)
+      const onUsage = vi.fn()
+
+      const client = createLLMClient(defaultConfig)
+      await client.generate([{ role: 'user', content: 'Test' }], { onUsage })
+      await client.generate([{ role: 'user', content: 'Again' }], { onUsage })
+
+      expect(onUsage.mock.calls).toEqual([[{ promptTokens: 12, completionTokens: 3 }]])
+    })
+
+    it('reports failed calls with the tokens they spent', async () => {
+      mockGenerateText.mockResolvedValue({ text: 'not json', usage: { promptTokens: 50, completionTokens: 5 } } as never)
+      const calls: LLMCallRecord[] = []
+
+      const client = createLLMClient(defaultConfig, { onCall: (call) => calls.push(call) })
+      const result = await client.generateStructured([{ role: 'user', content: 'Test' }], z.object({ status: z.string() }), { retries: 2 })
+
+      expect(result.ok).toBe(false)
+      expect(calls).toEqual([expect.objectContaining({ failed: true, usage: { promptTokens: 100, completionTokens: 10 } })])
+    })
+
+    it('leaves usage unset when the server reports none', async () => {
+      mockGenerateText.mockResolvedValue({ text: 'Hello', usage: { promptTokens: Number.NaN, completionTokens: Number.NaN } } as never)
+      const calls: LLMCallRecord[] = []
+
+      await createLLMClient(defaultConfig, { onCall: (call) => calls.push(call) }).generate([{ role: 'user', content: 'Test' }])
+
+      expect(calls[0]?.usage).toBeUndefined()
+    })
   })
 })
+
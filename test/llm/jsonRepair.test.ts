@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { extractJSON, extractThinking, parseModelJSON } from '../../src/llm/jsonRepair.js'
+
+describe('extractJSON', () => {
+  it('strips thinking blocks, fences and surrounding prose', () => {
+    expect(extractJSON('<think>{maybe}</think>Here you go:\n```json\n{"a": {"b": 1}}\n```')).toBe('{"a": {"b": 1}}')
+  })
+})
+
+describe('extractThinking', () => {
+  it('joins the non-empty <think> blocks', () => {
+    expect(extractThinking('<think> First. </think>{"a": 1}<think></think><think>Second.</think>')).toBe('First.\n\nSecond.')
+    expect(extractThinking('{"a": 1}')).toBeUndefined()
+  })
+})
+
+describe('parseModelJSON', () => {
+  it('reports no repairs for valid JSON', () => {
+    expect(parseModelJSON('{"a": [1, 2]}')).toEqual({ value: { a: [1, 2] }, repairs: [] })
+  })
+
+  it('drops trailing commas in objects and arrays', () => {
+    expect(parseModelJSON('{"a": [1, 2, ], "b": "x,",\n}')).toEqual({
+      value: { a: [1, 2], b: 'x,' },
+      repairs: ['trailing_commas'],
+    })
+  })
+
+  it('escapes raw newlines and tabs inside strings', () => {
+    expect(parseModelJSON('{"code": "line one\n\tline two"}')).toEqual({
+      value: { code: 'line one\n\tline two' },
+      repairs: ['control_characters_in_strings'],
+    })
+  })
+
+  it('converts single-quoted keys and strings', () => {
+    expect(parseModelJSON(`{'say': 'it\\'s "fine"', "plain": "don't"}`)).toEqual({
+      value: { say: `it's "fine"`, plain: "don't" },
+      repairs: ['single_quotes'],
+    })
+  })
+
+  it('throws when the text cannot be repaired', () => {
+    expect(() => parseModelJSON('{"message": "cut off')).toThrow(SyntaxError)
+    expect(() => parseModelJSON('not json')).toThrow(SyntaxError)
+  })
+})
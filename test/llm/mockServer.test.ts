@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { z } from 'zod'
+import { createLLMClient } from '../../src/llm/client.js'
+import { startMockLLMServer, cannedPipelineRules, type MockLLMServer, type MockRule } from '../../src/llm/mockServer.js'
+import { runPipeline } from '../../src/orchestrator/pipeline.js'
+import { createToolKit } from '../../src/tools/toolkit.js'
+import { createLogger } from '../../src/utils/logger.js'
+import { getDefaultConfig } from '../../src/utils/config.js'
+
+describe('startMockLLMServer', () => {
+  let server: MockLLMServer | undefined
+
+  const start = async (rules: MockRule[]) => {
+    server = await startMockLLMServer({ rules })
+    const config = getDefaultConfig().llm
+    return {
+      server,
+      llm: createLLMClient({ ...config, baseUrl: server.baseUrl, requestTimeoutMs: 1000, retryBaseDelayMs: 0, retryMaxDelayMs: 0 }),
+    }
+  }
+
+  afterEach(async () => {
+    await server?.close()
+    server = undefined
+  })
+
+  it('answers plain and streaming requests from the first matching rule', async () => {
+    const { llm, server } = await start([
+      { match: /bye/, response: 'Goodbye!' },
+      { response: 'Hello there' },
+    ])
+
+    const plain = await llm.generate([{ role: 'user', content: 'Say hi' }])
+    const streamed = await llm.stream([{ role: 'user', content: 'Say bye' }])
+
+    expect(plain).toEqual({ ok: true, value: 'Hello there' })
+    expect(streamed).toEqual({ ok: true, value: 'Goodbye!' })
+    expect(server.requests.map((request) => [request.stream, request.rule])).toEqual([[false, 1], [true, 0]])
+  })
+
+  it('retries an injected rate limit', async () => {
+    const { llm, server } = await start([
+      { fault: 'rate_limit', times: 1 },
+      { response: 'ok' },
+    ])
+
+    expect(await llm.generate([{ role: 'user', content: 'Test' }])).toEqual({ ok: true, value: 'ok' })
+    expect(server.requests).toHaveLength(2)
+  })
+
+  it('times out on a request that never gets an answer', async () => {
+    const { llm } = await start([{ fault: 'timeout' }])
+
+    const result = await llm.generate([{ role: 'user', content: 'Test' }])
+
+    expect(!result.ok && result.error.type).toBe('timeout')
+  })
+
+  it('re-requests structured output after malformed JSON', async () => {
+    const { llm, server } = await start([
+      { response: { status: 'ok' }, fault: 'malformed_json', times: 1 },
+      { response: { status: 'ok' } },
+    ])
+
+    const result = await llm.generateStructured([{ role: 'user', content: 'Test' }], z.object({ status: z.string() }))
+
+    expect(result).toEqual({ ok: true, value: { status: 'ok' } })
+    expect(server.requests).toHaveLength(2)
+  })
+
+  it('rejects requests no rule matches', async () => {
+    const { llm } = await start([{ agent: 'planner', response: 'plan' }])
+
+    const result = await llm.generate([{ role: 'user', content: 'Test' }])
+
+    expect(!result.ok && String(result.error.details)).toContain('no rule matches this unrecognized request')
+  })
+
+  it('runs the pipeline end to end', async () => {
+    const projectRoot = mkdtempSync(join(tmpdir(), 'agent-helper-mock-'))
+    try {
+      writeFileSync(join(projectRoot, 'package.json'), JSON.stringify({ name: 'mock-project' }))
+      const { llm, server } = await start([
+        { agent: 'planner', fault: 'server_error', times: 1 },
+        ...cannedPipelineRules('src/greeting.ts', 'export const greet = (name: string) => `Hello, ${name}`\n'),
+      ])
+
+      const result = await runPipeline('Create a greeting module', {
+        llm,
+        tools: createToolKit(projectRoot),
+        config: getDefaultConfig(),
+        logger: createLogger({ level: 'error' }),
+      })
+
+      expect(result.ok && result.value.success).toBe(true)
+      expect(result.ok && result.value.changes.map((change) => change.path)).toEqual(['src/greeting.ts'])
+      expect(server.requests.map((request) => request.agent)).toEqual(['planner', 'planner', 'architect', 'coder', 'reviewer'])
+    } finally {
+      rmSync(projectRoot, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { formatUsageSummary, summarizeUsage } from '../../src/llm/usage.js'
+import type { LLMCallRecord } from '../../src/llm/client.js'
+
+const call = (overrides: Partial<LLMCallRecord>): LLMCallRecord => ({
+  model: 'test-model',
+  baseUrl: 'http://localhost:11434/v1',
+  failedOver: [],
+  usage: { promptTokens: 1000, completionTokens: 200 },
+  durationMs: 1500,
+  ...overrides,
+})
+
+describe('summarizeUsage', () => {
+  it('totals tokens and wall time per run, agent and task', () => {
+    const report = summarizeUsage([
+      call({ label: 'planner' }),
+      call({ label: 'coder', task: 'task-1' }),
+      call({ label: 'reviewer', task: 'task-1', usage: undefined }),
+      call({ label: 'coder', task: 'task-2' }),
+    ])
+
+    expect(report.total).toEqual({ calls: 4, unreported: 1, promptTokens: 3000, completionTokens: 600, durationMs: 6000 })
+    expect(Object.keys(report.byAgent)).toEqual(['planner', 'coder', 'reviewer'])
+    expect(report.byAgent['coder']).toMatchObject({ calls: 2, promptTokens: 2000 })
+    expect(report.byTask['task-1']).toMatchObject({ calls: 2, unreported: 1, promptTokens: 1000 })
+  })
+})
+
+describe('formatUsageSummary', () => {
+  it('prints the run total, then each agent and task', () => {
+    const summary = formatUsageSummary(summarizeUsage([
+      call({ label: 'planner' }),
+      call({ label: 'coder', task: 'task-1', usage: undefined }),
+    ]))
+
+    expect(summary).toBe([
+      'Token usage: 1,200 tokens (1,000 prompt + 200 completion), 2 calls, 1 without usage, 3.0s',
+      '  planner: 1,200 tokens (1,000 prompt + 200 completion), 1 call, 1.5s',
+      '  coder: 0 tokens (0 prompt + 0 completion), 1 call, 1 without usage, 1.5s',
+      'By task:',
+      '  task-1: 0 tokens (0 prompt + 0 completion), 1 call, 1 without usage, 1.5s',
+    ].join('\n'))
+  })
+
+  it('is empty when no calls were made', () => {
+    expect(formatUsageSummary(summarizeUsage([]))).toBe('')
+  })
+})
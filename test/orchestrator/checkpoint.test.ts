@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  createCheckpointStore,
+  createFollowUpCheckpointStore,
+  loadCheckpointStore,
+  listCheckpoints,
+  getRunDirectory,
+} from '../../src/orchestrator/checkpoint.js'
+
+describe('checkpoint', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `checkpoint-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('creates a run directory keyed by run id', () => {
+    const result = createCheckpointStore(testDir, 'run-1', 'Add feature')
+
+    expect(result.ok).toBe(true)
+    expect(existsSync(join(getRunDirectory(testDir, 'run-1'), 'checkpoint.json'))).toBe(true)
+  })
+
+  it('round-trips plan, architect, coder, review and result steps', () => {
+    const created = createCheckpointStore(testDir, 'run-1', 'Add feature')
+    if (!created.ok) throw new Error('failed to create')
+    const store = created.value
+
+    store.savePlan({
+      tasks: [{ id: 'task-1', title: 'T', description: 'D', dependsOn: [], estimatedFiles: [] }],
+    })
+    store.saveArchitect('task-1', {
+      files: [{ path: 'src/a.ts', operation: 'create', description: 'Create' }],
+      reasoning: 'New',
+    })
+    store.saveCode('task-1', 0, { changes: [{ path: 'src/a.ts', content: 'v1' }] })
+    store.saveReview('task-1', 0, { passed: false, issues: [], summary: 'Bad' })
+    store.saveCode('task-1', 1, { changes: [{ path: 'src/a.ts', content: 'v2' }] })
+    store.saveTaskResult('task-1', {
+      changes: [{ path: 'src/a.ts', content: 'v2' }],
+      reviewPassed: true,
+      reviewIssues: [],
+    })
+
+    const loaded = loadCheckpointStore(testDir, 'run-1')
+    expect(loaded.ok).toBe(true)
+    if (loaded.ok) {
+      const task = loaded.value.getTask('task-1')
+      expect(loaded.value.getState().request).toBe('Add feature')
+      expect(loaded.value.getPlan()?.tasks).toHaveLength(1)
+      expect(task.architect?.reasoning).toBe('New')
+      expect(task.code.map((c) => c.changes[0]?.content)).toEqual(['v1', 'v2'])
+      expect(task.reviews).toHaveLength(1)
+      expect(task.result?.reviewPassed).toBe(true)
+    }
+  })
+
+  it('drops later reviews when an earlier code revision is replaced', () => {
+    const created = createCheckpointStore(testDir, 'run-1', 'Req')
+    if (!created.ok) throw new Error('failed to create')
+    const store = created.value
+
+    store.saveCode('t', 0, { changes: [{ path: 'a', content: 'v1' }] })
+    store.saveReview('t', 0, { passed: false, issues: [], summary: 'x' })
+    store.saveCode('t', 0, { changes: [{ path: 'a', content: 'v1b' }] })
+
+    expect(store.getTask('t').code).toHaveLength(1)
+    expect(store.getTask('t').reviews).toHaveLength(0)
+  })
+
+  it('starts a follow-up run that redoes only the coder and reviewer of the given tasks', () => {
+    const created = createCheckpointStore(testDir, 'run-1', 'Add feature')
+    if (!created.ok) throw new Error('failed to create')
+    const store = created.value
+    const architect = { files: [{ path: 'src/a.ts', operation: 'create' as const, description: 'Create' }], reasoning: 'New' }
+    const result = { changes: [{ path: 'src/a.ts', content: 'v1' }], reviewPassed: true, reviewIssues: [] }
+    for (const taskId of ['task-1', 'task-2']) {
+      store.saveArchitect(taskId, architect)
+      store.saveCode(taskId, 0, { changes: result.changes })
+      store.saveReview(taskId, 0, { passed: true, issues: [], summary: 'OK' })
+      store.saveTaskResult(taskId, result)
+    }
+    store.setStatus('completed')
+
+    const followUp = createFollowUpCheckpointStore(testDir, 'run-2', store.getState(), ['task-2'])
+
+    expect(followUp.ok).toBe(true)
+    if (followUp.ok) {
+      expect(followUp.value.getState()).toMatchObject({ runId: 'run-2', request: 'Add feature', status: 'running' })
+      expect(followUp.value.getTask('task-1').result).toEqual(result)
+      expect(followUp.value.getTask('task-2')).toEqual({ architect, code: [], reviews: [] })
+      expect(loadCheckpointStore(testDir, 'run-2').ok).toBe(true)
+    }
+  })
+
+  it('reports a failed save once without throwing', () => {
+    const errors: unknown[] = []
+    const created = createCheckpointStore(testDir, 'run-1', 'Add feature', (e) => errors.push(e))
+    if (!created.ok) throw new Error('failed to create')
+    // A file where the run directory should be makes every later save fail
+    rmSync(created.value.directory, { recursive: true, force: true })
+    writeFileSync(created.value.directory, '')
+
+    created.value.setStatus('interrupted')
+    created.value.saveTokensUsed(10)
+
+    expect(errors).toHaveLength(1)
+    expect(created.value.getState().status).toBe('interrupted')
+  })
+
+  it('returns not_found for unknown runs', () => {
+    const result = loadCheckpointStore(testDir, 'missing')
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.type).toBe('not_found')
+    }
+  })
+
+  it('returns invalid for corrupt checkpoints', () => {
+    const dir = getRunDirectory(testDir, 'bad')
+    mkdirSync(dir, { recursive: true })
+    writeFileSync(join(dir, 'checkpoint.json'), '{not json')
+
+    const result = loadCheckpointStore(testDir, 'bad')
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.type).toBe('invalid')
+    }
+  })
+
+  it('lists runs in the project', () => {
+    createCheckpointStore(testDir, 'run-a', 'First')
+    createCheckpointStore(testDir, 'run-b', 'Second')
+
+    const runs = listCheckpoints(testDir)
+
+    expect(runs.map((r) => r.runId).sort()).toEqual(['run-a', 'run-b'])
+  })
+})
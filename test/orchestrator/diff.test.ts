@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffLines,
+  computeHunks,
+  formatHunk,
+  formatFilePatch,
+  formatPatch,
+  applyHunks,
+  parseEditedHunk,
+} from '../../src/orchestrator/diff.js'
+
+describe('diff', () => {
+  describe('diffLines', () => {
+    it('reports a line inserted at the top as a single addition', () => {
+      const lines = diffLines('a\nb\nc\n', 'new\na\nb\nc\n')
+
+      expect(lines.map((l) => `${l.type}:${l.text}`)).toEqual([
+        'add:new',
+        'context:a',
+        'context:b',
+        'context:c',
+      ])
+    })
+
+    it('finds a minimal edit script', () => {
+      const lines = diffLines('a\nb\nc\na\nb\nb\na\n', 'c\nb\na\nb\na\nc\n')
+
+      expect(lines.filter((l) => l.type !== 'context')).toHaveLength(5)
+    })
+
+    it('treats a missing final newline as a change', () => {
+      const lines = diffLines('a\nb', 'a\nb\n')
+
+      expect(lines).toEqual([
+        { type: 'context', text: 'a', newline: true },
+        { type: 'remove', text: 'b', newline: false },
+        { type: 'add', text: 'b', newline: true },
+      ])
+    })
+
+    it('diffs a small change in a large file without searching the unchanged ends', () => {
+      const oldLines = Array.from({ length: 10000 }, (_, i) => `line ${i}`)
+      const newLines = [...oldLines]
+      newLines.splice(5000, 2, 'changed a', 'changed b', 'added')
+
+      const lines = diffLines(oldLines.join('\n') + '\n', newLines.join('\n') + '\n')
+
+      expect(lines.filter((l) => l.type === 'remove').map((l) => l.text)).toEqual(['line 5000', 'line 5001'])
+      expect(lines.filter((l) => l.type === 'add').map((l) => l.text)).toEqual(['changed a', 'changed b', 'added'])
+    })
+
+    it('replaces the whole text when a large rewrite has too many edits to search', () => {
+      const lf = Array.from({ length: 4000 }, (_, i) => `line ${i}`).join('\n') + '\n'
+      const crlf = lf.replace(/\n/g, '\r\n')
+
+      const lines = diffLines(lf, crlf)
+
+      expect(lines).toHaveLength(8000)
+      expect(lines.slice(0, 4000).every((l) => l.type === 'remove')).toBe(true)
+      expect(lines.slice(4000).every((l) => l.type === 'add')).toBe(true)
+      expect(applyHunks(lf, computeHunks(lf, crlf))).toBe(crlf)
+    })
+  })
+
+  describe('computeHunks', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n'
+
+    it('keeps distant changes in separate hunks with context', () => {
+      const newText = oldText.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n')
+
+      const hunks = computeHunks(oldText, newText, 3)
+
+      expect(hunks).toHaveLength(2)
+      expect(formatHunk(hunks[0]!)).toBe([
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+      ].join('\n'))
+      expect(hunks[1]).toMatchObject({ oldStart: 15, oldLines: 6, newStart: 15, newLines: 6 })
+    })
+
+    it('merges changes whose context overlaps', () => {
+      const newText = oldText.replace('line 5\n', 'five\n').replace('line 9\n', 'nine\n')
+
+      expect(computeHunks(oldText, newText, 3)).toHaveLength(1)
+    })
+
+    it('honors zero context lines', () => {
+      const hunks = computeHunks('a\nb\nc\n', 'a\nc\n', 0)
+
+      expect(hunks).toEqual([
+        { oldStart: 2, oldLines: 1, newStart: 1, newLines: 0, lines: [{ type: 'remove', text: 'b', newline: true }] },
+      ])
+    })
+  })
+
+  describe('formatFilePatch', () => {
+    it('formats new files against /dev/null', () => {
+      const patch = formatFilePatch({ oldPath: null, newPath: 'src/a.ts', oldContent: '', newContent: 'x\ny' })
+
+      expect(patch).toBe([
+        'diff --git a/src/a.ts b/src/a.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/src/a.ts',
+        '@@ -0,0 +1,2 @@',
+        '+x',
+        '+y',
+        '\\ No newline at end of file',
+      ].join('\n'))
+    })
+
+    it('formats deletions and renames with git headers', () => {
+      const deleted = formatFilePatch({ oldPath: 'old.ts', newPath: null, oldContent: 'x\n', newContent: '' })
+      const renamed = formatFilePatch({ oldPath: 'a.ts', newPath: 'b.ts', oldContent: 'x\n', newContent: 'x\n' })
+
+      expect(deleted).toContain('deleted file mode 100644\n--- a/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-x')
+      expect(renamed).toBe('diff --git a/a.ts b/b.ts\nrename from a.ts\nrename to b.ts')
+    })
+  })
+
+  describe('applyHunks', () => {
+    const oldText = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n'
+    const newText = 'header\n' + oldText.replace('line 10\n', 'line ten\n').replace('line 20\n', '')
+
+    it('reproduces the new content when every hunk is applied', () => {
+      const hunks = computeHunks(oldText, newText, 3)
+
+      expect(hunks).toHaveLength(3)
+      expect(applyHunks(oldText, hunks)).toBe(newText)
+    })
+
+    it('keeps old content for hunks that were left out', () => {
+      const [insert, modify, remove] = computeHunks(oldText, newText, 3)
+
+      expect(applyHunks(oldText, [modify!])).toBe(oldText.replace('line 10\n', 'line ten\n'))
+      expect(applyHunks(oldText, [insert!, remove!])).toBe('header\n' + oldText.replace('line 20\n', ''))
+      expect(applyHunks(oldText, [])).toBe(oldText)
+    })
+
+    it('applies pure insertions with zero context', () => {
+      const hunks = computeHunks('a\nc\n', 'a\nb\nc\n', 0)
+
+      expect(applyHunks('a\nc\n', hunks)).toBe('a\nb\nc\n')
+    })
+  })
+
+  describe('parseEditedHunk', () => {
+    const [hunk] = computeHunks('a\nb\nc\n', 'a\nB\nextra\nc\n', 1)
+
+    it('accepts edited added lines and recounts the hunk', () => {
+      const edited = parseEditedHunk(hunk!, '# comment\n@@ -1,3 +1,4 @@\n a\n-b\n+Bee\n c\n')
+
+      expect(edited.ok).toBe(true)
+      if (edited.ok) {
+        expect(edited.value.newLines).toBe(3)
+        expect(applyHunks('a\nb\nc\n', [edited.value])).toBe('a\nBee\nc\n')
+      }
+    })
+
+    it('allows turning removed lines into context', () => {
+      const edited = parseEditedHunk(hunk!, ' a\n b\n+extra\n c\n')
+
+      expect(edited.ok && applyHunks('a\nb\nc\n', [edited.value])).toBe('a\nb\nextra\nc\n')
+    })
+
+    it('rejects edits to the existing lines', () => {
+      expect(parseEditedHunk(hunk!, ' a\n-changed\n+B\n c\n').ok).toBe(false)
+      expect(parseEditedHunk(hunk!, ' a\n*b\n c\n').ok).toBe(false)
+    })
+  })
+
+  it('ends a multi-file patch with a newline', () => {
+    const patch = formatPatch([
+      { oldPath: 'a.ts', newPath: 'a.ts', oldContent: '1\n', newContent: '2\n' },
+      { oldPath: null, newPath: 'b.ts', oldContent: '', newContent: 'b\n' },
+    ])
+
+    expect(patch.endsWith('+b\n')).toBe(true)
+    expect(patch.match(/^diff --git/gm)).toHaveLength(2)
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { recordApply, loadJournal, listJournals, markUndone, planUndo } from '../../src/orchestrator/journal.js'
+import { stageChanges, applyChanges } from '../../src/orchestrator/staging.js'
+import { createToolKit } from '../../src/tools/toolkit.js'
+
+const noPackages = { packageManager: null, production: [], dev: [] }
+
+describe('journal', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `journal-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(join(testDir, 'src'), { recursive: true })
+    writeFileSync(join(testDir, 'src', 'a.ts'), 'original a')
+    writeFileSync(join(testDir, 'src', 'b.ts'), 'original b')
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  const applyRun = (runId: string) => {
+    const tools = createToolKit(testDir)
+    const staged = stageChanges([
+      { path: 'src/a.ts', content: 'changed a' },
+      { path: 'src/b.ts', operation: 'delete', content: '' },
+      { path: 'src/c.ts', content: 'new c' },
+    ], tools)
+    const applied = applyChanges(staged, tools)
+    if (!applied.ok) throw new Error(applied.error.message)
+
+    const recorded = recordApply(testDir, { runId, request: 'Change things', applied: staged, packages: noPackages })
+    if (!recorded.ok) throw new Error(recorded.error.message)
+    return { tools, journal: recorded.value }
+  }
+
+  it('restores modified, deleted and created files', () => {
+    const { tools, journal } = applyRun('run-1')
+
+    const plan = planUndo(journal, tools)
+    expect(plan.modified).toEqual([])
+
+    const restored = applyChanges(plan.changes, tools)
+
+    expect(restored.ok).toBe(true)
+    expect(readFileSync(join(testDir, 'src', 'a.ts'), 'utf-8')).toBe('original a')
+    expect(readFileSync(join(testDir, 'src', 'b.ts'), 'utf-8')).toBe('original b')
+    expect(existsSync(join(testDir, 'src', 'c.ts'))).toBe(false)
+  })
+
+  it('restores a file that a rename overwrote', () => {
+    const tools = createToolKit(testDir)
+    const staged = stageChanges([{ path: 'src/b.ts', operation: 'rename', from: 'src/a.ts', content: '' }], tools)
+    const applied = applyChanges(staged, tools)
+    if (!applied.ok) throw new Error(applied.error.message)
+    const recorded = recordApply(testDir, { runId: 'run-1', request: 'Move a over b', applied: staged, packages: noPackages })
+    if (!recorded.ok) throw new Error(recorded.error.message)
+
+    const plan = planUndo(recorded.value, tools)
+    expect(plan.modified).toEqual([])
+    expect(applyChanges(plan.changes, tools).ok).toBe(true)
+
+    expect(readFileSync(join(testDir, 'src', 'a.ts'), 'utf-8')).toBe('original a')
+    expect(readFileSync(join(testDir, 'src', 'b.ts'), 'utf-8')).toBe('original b')
+  })
+
+  it('flags files edited after the run applied them', () => {
+    const { tools, journal } = applyRun('run-1')
+    writeFileSync(join(testDir, 'src', 'a.ts'), 'edited by hand')
+    writeFileSync(join(testDir, 'src', 'b.ts'), 'recreated by hand')
+
+    const plan = planUndo(journal, tools)
+
+    expect(plan.modified).toEqual(['src/a.ts', 'src/b.ts'])
+  })
+
+  it('lists applied runs and records undo', () => {
+    const { journal } = applyRun('run-1')
+
+    expect(listJournals(testDir).map((j) => j.runId)).toEqual(['run-1'])
+
+    markUndone(testDir, journal)
+    const loaded = loadJournal(testDir, 'run-1')
+    expect(loaded.ok && loaded.value.undoneAt).toBeTruthy()
+  })
+
+  it('returns not_found for runs that were never applied', () => {
+    const result = loadJournal(testDir, 'missing')
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.type).toBe('not_found')
+    }
+  })
+})
@@ -1,9 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
 import { runPipeline } from '../../src/orchestrator/pipeline.js'
+import { createCheckpointStore, createFollowUpCheckpointStore, loadCheckpointStore } from '../../src/orchestrator/checkpoint.js'
 import { ok, err } from '../../src/utils/result.js'
 import { createLogger } from '../../src/utils/logger.js'
 import { getDefaultConfig } from '../../src/utils/config.js'
 import type { LLMClient } from '../../src/llm/client.js'
+import { createCallLog } from '../../src/llm/callLog.js'
+import { createReplayLLMClient } from '../../src/llm/cassette.js'
 import type { ToolKit } from '../../src/tools/toolkit.js'
 
 // Mock external I/O modules for categorized installation tests
@@ -16,6 +22,7 @@ const mocks = vi.hoisted(() => ({
   restoreBackup: vi.fn(),
   cleanupBackup: vi.fn(),
   formatInstallFailureFeedback: vi.fn(),
+  createScratchWorkspace: vi.fn(),
 }))
 
 vi.mock('../../src/tools/packageManager.js', async (importOriginal) => {
@@ -44,13 +51,18 @@ vi.mock('../../src/tools/installationBackup.js', async (importOriginal) => {
   }
 })
 
+vi.mock('../../src/tools/verification.js', async (importOriginal) => {
+  const original = await importOriginal<typeof import('../../src/tools/verification.js')>()
+  return { ...original, createScratchWorkspace: mocks.createScratchWorkspace }
+})
+
 function createMockToolKit(): ToolKit {
   return {
     readFile: vi.fn().mockReturnValue(ok('file content')),
     writeFile: vi.fn().mockReturnValue(ok(undefined)),
     listDirectory: vi.fn().mockReturnValue(ok(['file1.ts', 'file2.ts'])),
     fileExists: vi.fn().mockReturnValue(true),
-    runCommand: vi.fn().mockReturnValue(ok({ stdout: '', stderr: '', exitCode: 0 })),
+    runCommand: vi.fn().mockResolvedValue(ok({ stdout: '', stderr: '', exitCode: 0 })),
     getProjectRoot: vi.fn().mockReturnValue('/project'),
   }
 }
@@ -335,6 +347,477 @@ describe('runPipeline', () => {
     expect(mockLLM.generateStructured).toHaveBeenCalledTimes(4)
   })
 
+  it('routes agents with their own client to that client', async () => {
+    const mockLLM: LLMClient = {
+      generate: vi.fn(),
+      stream: vi.fn(),
+      generateStructured: vi.fn()
+        .mockResolvedValueOnce(ok({
+          tasks: [{ id: 'task-1', title: 'Create model', description: 'Desc', dependsOn: [], estimatedFiles: [] }],
+        }))
+        .mockResolvedValueOnce(ok({
+          files: [{ path: 'src/model.ts', operation: 'create', description: 'Create model file' }],
+          reasoning: 'New file needed',
+        }))
+        .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'Looks good' })),
+    }
+    const coderLLM: LLMClient = {
+      generate: vi.fn(),
+      stream: vi.fn(),
+      generateStructured: vi.fn()
+        .mockResolvedValueOnce(ok({ changes: [{ path: 'src/model.ts', content: 'export type Model = {}' }] })),
+    }
+
+    const result = await runPipeline('Create a model', {
+      llm: mockLLM,
+      agentLLMs: { coder: coderLLM },
+      tools: createMockToolKit(),
+      config,
+      logger,
+    })
+
+    expect(result.ok && result.value.success).toBe(true)
+    // Planner, architect and reviewer on the shared client; the coder on its own
+    expect(mockLLM.generateStructured).toHaveBeenCalledTimes(3)
+    expect(coderLLM.generateStructured).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(coderLLM.generateStructured).mock.calls[0]?.[2]).toMatchObject({ label: 'coder' })
+  })
+
+  it('runs from a replayed cassette, matching responses by agent', async () => {
+    const llm = createReplayLLMClient([
+      {
+        method: 'generateStructured',
+        label: 'planner',
+        result: { ok: true, value: { tasks: [{ id: 'task-1', title: 'Create model', description: 'Desc', dependsOn: [], estimatedFiles: [] }] } },
+      },
+      { method: 'generateStructured', label: 'reviewer', result: { ok: true, value: { passed: true, issues: [], summary: 'Looks good' } } },
+      {
+        method: 'generateStructured',
+        label: 'architect',
+        result: { ok: true, value: { files: [{ path: 'src/model.ts', operation: 'create', description: 'Create' }], reasoning: 'New' } },
+      },
+      { method: 'generateStructured', label: 'coder', result: { ok: true, value: { changes: [{ path: 'src/model.ts', content: 'export type Model = {}' }] } } },
+    ])
+
+    const result = await runPipeline('Create a model', { llm, tools: createMockToolKit(), config, logger })
+
+    expect(result.ok && result.value.success).toBe(true)
+    expect(result.ok && result.value.changes.map((c) => c.path)).toEqual(['src/model.ts'])
+  })
+
+  it('runs tasks in dependency order and skips dependents of failed tasks', async () => {
+    const mockLLM: LLMClient = {
+      generate: vi.fn(),
+      generateStructured: vi.fn()
+        // Planner: task-2 listed first but depends on task-1, task-3 depends on task-2
+        .mockResolvedValueOnce(
+          ok({
+            tasks: [
+              { id: 'task-2', title: 'Second', description: 'Desc', dependsOn: ['task-1'], estimatedFiles: [] },
+              { id: 'task-1', title: 'First', description: 'Desc', dependsOn: [], estimatedFiles: [] },
+              { id: 'task-3', title: 'Third', description: 'Desc', dependsOn: ['task-2'], estimatedFiles: [] },
+            ],
+          })
+        )
+        // Architect for task-1 fails
+        .mockResolvedValueOnce(
+          err({
+            type: 'schema_validation',
+            message: 'Bad output',
+          })
+        ),
+    }
+
+    const tools = createMockToolKit()
+
+    const result = await runPipeline('Build feature', {
+      llm: mockLLM,
+      tools,
+      config,
+      logger,
+    })
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.success).toBe(false)
+      expect(result.value.results.map((r) => r.task.id)).toEqual(['task-1', 'task-2', 'task-3'])
+      expect(result.value.results[1]?.skipped?.reason).toBe('Prerequisite task task-1 was skipped')
+      expect(result.value.results[2]?.skipped?.reason).toBe('Prerequisite task task-2 was skipped')
+    }
+    // Planner + architect for task-1 only
+    expect(mockLLM.generateStructured).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops starting LLM calls once pipeline.maxTokensPerRun is used up', async () => {
+    const callLog = createCallLog()
+    const responses = [
+      ok({
+        tasks: [
+          { id: 'task-1', title: 'First', description: 'Desc', dependsOn: [], estimatedFiles: [] },
+          { id: 'task-2', title: 'Second', description: 'Desc', dependsOn: [], estimatedFiles: [] },
+        ],
+      }),
+      ok({ files: [{ path: 'src/a.ts', operation: 'create', description: 'Create' }], reasoning: 'New' }),
+    ]
+    // Every call costs 600 tokens
+    const mockLLM: LLMClient = {
+      generate: vi.fn(),
+      generateStructured: vi.fn().mockImplementation(async (_messages, _schema, options) => {
+        callLog.record({
+          label: options?.label,
+          task: options?.task,
+          model: 'test-model',
+          baseUrl: 'http://localhost:11434/v1',
+          failedOver: [],
+          usage: { promptTokens: 500, completionTokens: 100 },
+          durationMs: 10,
+        })
+        options?.onUsage?.({ promptTokens: 500, completionTokens: 100 })
+        return responses.shift()
+      }),
+    }
+
+    const result = await runPipeline('Build feature', {
+      llm: mockLLM,
+      tools: createMockToolKit(),
+      config: { ...config, pipeline: { ...config.pipeline, maxTokensPerRun: 1000 } },
+      logger,
+      callLog,
+    })
+
+    // Planner and task-1's architect; task-1's coder is refused and task-2 never starts
+    expect(mockLLM.generateStructured).toHaveBeenCalledTimes(2)
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.tokenBudget).toEqual({ limit: 1000, used: 1200 })
+      expect(result.value.errors[0]).toContain('Token budget exhausted')
+      expect(result.value.results.map((r) => r.skipped?.reason)).toEqual([
+        'Coder failed: Token budget exhausted: 1200 of 1000 tokens used (pipeline.maxTokensPerRun)',
+        'Token budget exhausted: 1200 of 1000 tokens used (pipeline.maxTokensPerRun)',
+      ])
+      expect(result.value.usage.total).toMatchObject({ calls: 2, promptTokens: 1000, completionTokens: 200 })
+      expect(Object.keys(result.value.usage.byTask)).toEqual(['task-1'])
+    }
+  })
+
+  it('counts the token budget without a call log and continues it on resume', async () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'pipeline-budget-'))
+    try {
+      const created = createCheckpointStore(projectDir, 'run-1', 'Build feature')
+      if (!created.ok) throw new Error('failed to create checkpoint')
+      const budgetConfig = { ...config, pipeline: { ...config.pipeline, maxTokensPerRun: 1000 } }
+      const plan = ok({ tasks: [{ id: 'task-1', title: 'First', description: 'Desc', dependsOn: [], estimatedFiles: [] }] })
+
+      // First session: the planner costs 600 tokens, then the architect loses the connection
+      const firstLLM: LLMClient = {
+        generate: vi.fn(),
+        generateStructured: vi.fn()
+          .mockImplementationOnce(async (_messages, _schema, options) => {
+            options?.onUsage?.({ promptTokens: 500, completionTokens: 100 })
+            return plan
+          })
+          .mockResolvedValueOnce(err({ type: 'connection', message: 'LLM down' })),
+      }
+      await runPipeline('Build feature', { llm: firstLLM, tools: createMockToolKit(), config: budgetConfig, logger, checkpoint: created.value })
+
+      const loaded = loadCheckpointStore(projectDir, 'run-1')
+      if (!loaded.ok) throw new Error('failed to load checkpoint')
+      expect(loaded.value.getState().tokensUsed).toBe(600)
+
+      // Resumed session: the architect's 600 tokens push the run past its budget, so the coder is refused
+      const resumedLLM: LLMClient = {
+        generate: vi.fn(),
+        generateStructured: vi.fn().mockImplementationOnce(async (_messages, _schema, options) => {
+          options?.onUsage?.({ promptTokens: 500, completionTokens: 100 })
+          return ok({ files: [{ path: 'src/a.ts', operation: 'create', description: 'Create' }], reasoning: 'New' })
+        }),
+      }
+      const resumed = await runPipeline('Build feature', { llm: resumedLLM, tools: createMockToolKit(), config: budgetConfig, logger, checkpoint: loaded.value })
+
+      expect(resumedLLM.generateStructured).toHaveBeenCalledTimes(1)
+      expect(resumed.ok && resumed.value.tokenBudget).toEqual({ limit: 1000, used: 1200 })
+      expect(loaded.value.getState().tokensUsed).toBe(1200)
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true })
+    }
+  })
+
+  it('lets later tasks read earlier task changes and merges them into one change set', async () => {
+    const mockLLM: LLMClient = {
+      generate: vi.fn(),
+      generateStructured: vi.fn()
+        // Planner
+        .mockResolvedValueOnce(
+          ok({
+            tasks: [
+              { id: 'task-1', title: 'Create', description: 'Desc', dependsOn: [], estimatedFiles: [] },
+              { id: 'task-2', title: 'Extend', description: 'Desc', dependsOn: ['task-1'], estimatedFiles: [] },
+            ],
+          })
+        )
+        // task-1: architect, coder, reviewer
+        .mockResolvedValueOnce(ok({ files: [{ path: 'src/a.ts', operation: 'create', description: 'Create' }], reasoning: 'New' }))
+        .mockResolvedValueOnce(ok({ changes: [{ path: 'src/a.ts', content: 'export const a = 1' }] }))
+        .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' }))
+        // task-2: architect, coder, reviewer
+        .mockResolvedValueOnce(ok({ files: [{ path: 'src/a.ts', operation: 'modify', description: 'Extend' }], reasoning: 'Extend' }))
+        .mockResolvedValueOnce(ok({ changes: [{ path: 'src/a.ts', content: 'export const a = 1\nexport const b = 2' }] }))
+        .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' })),
+    }
+
+    const tools = createMockToolKit()
+
+    const result = await runPipeline('Build feature', {
+      llm: mockLLM,
+      tools,
+      config,
+      logger,
+    })
+
+    // task-2's coder saw task-1's content for src/a.ts, not the disk content
+    const secondCoderMessages = vi.mocked(mockLLM.generateStructured).mock.calls[5]?.[0]
+    expect(secondCoderMessages?.[1]?.content).toContain('--- src/a.ts ---\nexport const a = 1\n')
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.changes).toEqual([
+        { path: 'src/a.ts', content: 'export const a = 1\nexport const b = 2', taskIds: ['task-1', 'task-2'] },
+      ])
+    }
+    expect(tools.writeFile).not.toHaveBeenCalled()
+  })
+
+  it('resumes from a checkpoint without repeating finished LLM steps', async () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'pipeline-resume-'))
+    try {
+      const created = createCheckpointStore(projectDir, 'run-1', 'Build feature')
+      if (!created.ok) throw new Error('failed to create checkpoint')
+
+      const tasks = [
+        { id: 'task-1', title: 'First', description: 'Desc', dependsOn: [], estimatedFiles: [] },
+        { id: 'task-2', title: 'Second', description: 'Desc', dependsOn: ['task-1'], estimatedFiles: [] },
+      ]
+
+      // First attempt: task-1 completes, task-2's reviewer loses the connection
+      const firstLLM: LLMClient = {
+        generate: vi.fn(),
+        generateStructured: vi.fn()
+          .mockResolvedValueOnce(ok({ tasks }))
+          .mockResolvedValueOnce(ok({ files: [{ path: 'src/a.ts', operation: 'create', description: 'A' }], reasoning: 'A' }))
+          .mockResolvedValueOnce(ok({ changes: [{ path: 'src/a.ts', content: 'a' }] }))
+          .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' }))
+          .mockResolvedValueOnce(ok({ files: [{ path: 'src/b.ts', operation: 'create', description: 'B' }], reasoning: 'B' }))
+          .mockResolvedValueOnce(ok({ changes: [{ path: 'src/b.ts', content: 'b' }] }))
+          .mockResolvedValueOnce(err({ type: 'connection', message: 'LLM down' })),
+      }
+
+      const first = await runPipeline('Build feature', {
+        llm: firstLLM,
+        tools: createMockToolKit(),
+        config,
+        logger,
+        checkpoint: created.value,
+      })
+      expect(first.ok && first.value.success).toBe(false)
+      expect(created.value.getState().status).toBe('interrupted')
+
+      // Resume: only task-2's review should hit the LLM
+      const loaded = loadCheckpointStore(projectDir, 'run-1')
+      if (!loaded.ok) throw new Error('failed to load checkpoint')
+
+      const resumedLLM: LLMClient = {
+        generate: vi.fn(),
+        generateStructured: vi.fn()
+          .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' })),
+      }
+
+      const resumed = await runPipeline('Build feature', {
+        llm: resumedLLM,
+        tools: createMockToolKit(),
+        config,
+        logger,
+        checkpoint: loaded.value,
+      })
+
+      expect(resumedLLM.generateStructured).toHaveBeenCalledTimes(1)
+      expect(resumed.ok).toBe(true)
+      if (resumed.ok) {
+        expect(resumed.value.success).toBe(true)
+        expect(resumed.value.changes.map((c) => c.path)).toEqual(['src/a.ts', 'src/b.ts'])
+      }
+      expect(loaded.value.getState().status).toBe('completed')
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true })
+    }
+  })
+
+  it('runs only the coder and reviewer of the tasks a follow-up run reopens', async () => {
+    const projectDir = mkdtempSync(join(tmpdir(), 'pipeline-follow-up-'))
+    try {
+      const created = createCheckpointStore(projectDir, 'run-1', 'Build feature')
+      if (!created.ok) throw new Error('failed to create checkpoint')
+
+      const firstLLM: LLMClient = {
+        generate: vi.fn(),
+        generateStructured: vi.fn()
+          .mockResolvedValueOnce(ok({
+            tasks: [
+              { id: 'task-1', title: 'First', description: 'Desc', dependsOn: [], estimatedFiles: [] },
+              { id: 'task-2', title: 'Second', description: 'Desc', dependsOn: ['task-1'], estimatedFiles: [] },
+            ],
+          }))
+          .mockResolvedValueOnce(ok({ files: [{ path: 'src/a.ts', operation: 'create', description: 'A' }], reasoning: 'A' }))
+          .mockResolvedValueOnce(ok({ changes: [{ path: 'src/a.ts', content: 'a' }] }))
+          .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' }))
+          .mockResolvedValueOnce(ok({ files: [{ path: 'src/b.ts', operation: 'create', description: 'B' }], reasoning: 'B' }))
+          .mockResolvedValueOnce(ok({ changes: [{ path: 'src/b.ts', content: 'b' }] }))
+          .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' })),
+      }
+      await runPipeline('Build feature', { llm: firstLLM, tools: createMockToolKit(), config, logger, checkpoint: created.value })
+
+      const followUp = createFollowUpCheckpointStore(projectDir, 'run-2', created.value.getState(), ['task-2'])
+      if (!followUp.ok) throw new Error('failed to create follow-up checkpoint')
+
+      const followUpLLM: LLMClient = {
+        generate: vi.fn(),
+        generateStructured: vi.fn()
+          .mockResolvedValueOnce(ok({ changes: [{ path: 'src/b.ts', content: 'b2' }] }))
+          .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' })),
+      }
+      const result = await runPipeline('Build feature', {
+        llm: followUpLLM,
+        tools: createMockToolKit(),
+        config,
+        logger,
+        checkpoint: followUp.value,
+        rejectedChanges: 'src/b.ts: rejected hunk',
+      })
+
+      // Planner, architects and task-1 come from the checkpoint; task-2's coder sees the rejected hunks
+      expect(followUpLLM.generateStructured).toHaveBeenCalledTimes(2)
+      const coderMessages = vi.mocked(followUpLLM.generateStructured).mock.calls[0]?.[0] ?? []
+      expect(coderMessages.map((m) => m.content).join('\n')).toContain('src/b.ts: rejected hunk')
+      expect(result.ok && result.value.changes.map((c) => [c.path, c.content])).toEqual([['src/a.ts', 'a'], ['src/b.ts', 'b2']])
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true })
+    }
+  })
+
+  it('feeds verification diagnostics back to the coder before review', async () => {
+    const mockLLM: LLMClient = {
+      generate: vi.fn(),
+      generateStructured: vi.fn()
+        .mockResolvedValueOnce(
+          ok({ tasks: [{ id: 'task-1', title: 'Create', description: 'Desc', dependsOn: [], estimatedFiles: [] }] })
+        )
+        .mockResolvedValueOnce(ok({ files: [{ path: 'src/a.ts', operation: 'create', description: 'Create' }], reasoning: 'New' }))
+        // First attempt does not typecheck, second does
+        .mockResolvedValueOnce(ok({ changes: [{ path: 'src/a.ts', content: 'export const a: number = "x"' }] }))
+        .mockResolvedValueOnce(ok({ changes: [{ path: 'src/a.ts', content: 'export const a: number = 1' }] }))
+        .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' })),
+    }
+
+    // Scratch copies report a type error whenever the changes assign a string to a number
+    mocks.createScratchWorkspace.mockImplementation(
+      (_root: string, changes: Array<{ path: string; content: string }>) => {
+        const broken = changes.some((c) => c.content.includes('number = "x"'))
+        const scratchTools = createMockToolKit()
+        vi.mocked(scratchTools.runCommand).mockResolvedValue(ok({
+          stdout: broken ? "src/a.ts(1,14): error TS2322: Type 'string' is not assignable to type 'number'." : '',
+          stderr: '',
+          exitCode: broken ? 2 : 0,
+        }))
+        return ok({ root: '/scratch', tools: scratchTools, cleanup: vi.fn() })
+      }
+    )
+
+    const result = await runPipeline('Build feature', {
+      llm: mockLLM,
+      tools: createMockToolKit(),
+      config: {
+        ...config,
+        verification: {
+          ...config.verification,
+          enabled: true,
+          commands: [{ cmd: 'npx', args: ['tsc', '--noEmit'] }],
+        },
+      },
+      logger,
+    })
+
+    const retryMessages = vi.mocked(mockLLM.generateStructured).mock.calls[3]?.[0]
+    expect(retryMessages?.[1]?.content).toContain('VERIFICATION FAILURES')
+    expect(retryMessages?.[1]?.content).toContain("src/a.ts:1:14 TS2322: Type 'string' is not assignable to type 'number'.")
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.success).toBe(true)
+      expect(result.value.errors).toEqual([])
+      expect(result.value.changes[0]?.content).toBe('export const a: number = 1')
+    }
+    // Baseline, failing attempt, passing attempt
+    expect(mocks.createScratchWorkspace).toHaveBeenCalledTimes(3)
+  })
+
+  it('resolves coder edit blocks and re-prompts when an anchor does not match', async () => {
+    const mockLLM: LLMClient = {
+      generate: vi.fn(),
+      generateStructured: vi.fn()
+        .mockResolvedValueOnce(
+          ok({ tasks: [{ id: 'task-1', title: 'Edit', description: 'Desc', dependsOn: [], estimatedFiles: [] }] })
+        )
+        .mockResolvedValueOnce(ok({ files: [{ path: 'src/a.ts', operation: 'modify', description: 'Edit' }], reasoning: 'Edit' }))
+        .mockResolvedValueOnce(ok({ changes: [{ path: 'src/a.ts', edits: [{ search: 'no such text', replace: 'x' }] }] }))
+        .mockResolvedValueOnce(ok({ changes: [{ path: 'src/a.ts', edits: [{ search: 'file content', replace: 'new content' }] }] }))
+        .mockResolvedValueOnce(ok({ passed: true, issues: [], summary: 'OK' })),
+    }
+
+    const result = await runPipeline('Edit file', {
+      llm: mockLLM,
+      tools: createMockToolKit(),
+      config,
+      logger,
+    })
+
+    const retryMessages = vi.mocked(mockLLM.generateStructured).mock.calls[3]?.[0]
+    expect(retryMessages?.[1]?.content).toContain('EDIT BLOCK ERRORS')
+    expect(retryMessages?.[1]?.content).toContain('- src/a.ts edit #1: search text not found')
+
+    const reviewerMessages = vi.mocked(mockLLM.generateStructured).mock.calls[4]?.[0]
+    expect(reviewerMessages?.[1]?.content).toContain('--- src/a.ts ---\nnew content\n')
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.changes).toEqual([{ path: 'src/a.ts', content: 'new content', taskIds: ['task-1'] }])
+    }
+  })
+
+  it('returns error when planner produces circular dependencies', async () => {
+    const mockLLM: LLMClient = {
+      generate: vi.fn(),
+      generateStructured: vi.fn().mockResolvedValueOnce(
+        ok({
+          tasks: [
+            { id: 'task-1', title: 'A', description: 'Desc', dependsOn: ['task-2'], estimatedFiles: [] },
+            { id: 'task-2', title: 'B', description: 'Desc', dependsOn: ['task-1'], estimatedFiles: [] },
+          ],
+        })
+      ),
+    }
+
+    const result = await runPipeline('Test', {
+      llm: mockLLM,
+      tools: createMockToolKit(),
+      config,
+      logger,
+    })
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toContain('Circular task dependencies')
+    }
+  })
+
   it('returns error when planner fails', async () => {
     const mockLLM: LLMClient = {
       generate: vi.fn(),
@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  stageChanges,
+  applyChanges,
+  formatChangesSummary,
+  generateDiff,
+  getDestructiveChanges,
+  applyEditBlocks,
+  resolveEditBlocks,
+  getHunks,
+  selectHunks,
+  formatRejectedChanges,
+} from '../../src/orchestrator/staging.js'
+import { createToolKit } from '../../src/tools/toolkit.js'
+
+describe('staging', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `staging-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(join(testDir, 'src'), { recursive: true })
+    writeFileSync(join(testDir, 'src', 'old.ts'), 'export const old = 1')
+    writeFileSync(join(testDir, 'src', 'keep.ts'), 'export const keep = 1')
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('stages deletes and renames with their original content', () => {
+    const tools = createToolKit(testDir)
+
+    const staged = stageChanges([
+      { path: 'src/keep.ts', operation: 'delete', content: '' },
+      { path: 'src/new.ts', operation: 'rename', from: 'src/old.ts', content: '' },
+      { path: 'src/missing.ts', operation: 'delete', content: '' },
+    ], tools)
+
+    expect(staged).toHaveLength(2)
+    expect(staged[0]).toMatchObject({ operation: 'delete', originalContent: 'export const keep = 1' })
+    expect(staged[1]).toMatchObject({
+      operation: 'rename',
+      from: 'src/old.ts',
+      content: 'export const old = 1',
+    })
+    expect(getDestructiveChanges(staged)).toHaveLength(2)
+  })
+
+  it('shows removals in the summary and diff', () => {
+    const tools = createToolKit(testDir)
+    const staged = stageChanges([
+      { path: 'src/keep.ts', operation: 'delete', content: '' },
+      { path: 'src/new.ts', operation: 'rename', from: 'src/old.ts', content: '' },
+    ], tools)
+
+    const summary = formatChangesSummary(staged)
+    expect(summary).toContain('  - src/keep.ts (deleted, -1 lines)')
+    expect(summary).toContain('  > src/old.ts → src/new.ts (renamed)')
+    expect(generateDiff(staged[0]!)).toBe([
+      'diff --git a/src/keep.ts b/src/keep.ts',
+      'deleted file mode 100644',
+      '--- a/src/keep.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export const keep = 1',
+      '\\ No newline at end of file',
+    ].join('\n'))
+  })
+
+  it('applies deletes and renames', () => {
+    const tools = createToolKit(testDir)
+    const staged = stageChanges([
+      { path: 'src/keep.ts', operation: 'delete', content: '' },
+      { path: 'src/new.ts', operation: 'rename', from: 'src/old.ts', content: 'export const renamed = 1' },
+    ], tools)
+
+    const result = applyChanges(staged, tools)
+
+    expect(result.ok).toBe(true)
+    expect(existsSync(join(testDir, 'src', 'keep.ts'))).toBe(false)
+    expect(existsSync(join(testDir, 'src', 'old.ts'))).toBe(false)
+    expect(readFileSync(join(testDir, 'src', 'new.ts'), 'utf-8')).toBe('export const renamed = 1')
+  })
+
+  it('refuses to delete protected paths', () => {
+    writeFileSync(join(testDir, '.env'), 'SECRET=1')
+    const tools = createToolKit(testDir)
+    const staged = stageChanges([{ path: '.env', operation: 'delete', content: '' }], tools)
+
+    const result = applyChanges(staged, tools)
+
+    expect(result.ok).toBe(false)
+    expect(existsSync(join(testDir, '.env'))).toBe(true)
+  })
+
+  it('refuses to apply when a staged file changed on disk', () => {
+    const tools = createToolKit(testDir)
+    const staged = stageChanges([
+      { path: 'src/keep.ts', content: 'export const keep = 2' },
+      { path: 'src/old.ts', content: 'export const old = 2' },
+      { path: 'src/new.ts', content: 'new' },
+    ], tools)
+
+    writeFileSync(join(testDir, 'src', 'old.ts'), 'edited by hand')
+    writeFileSync(join(testDir, 'src', 'new.ts'), 'created by hand')
+
+    const result = applyChanges(staged, tools)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.type).toBe('conflict')
+      expect(result.error.conflicts).toEqual(['src/old.ts', 'src/new.ts'])
+    }
+    expect(readFileSync(join(testDir, 'src', 'keep.ts'), 'utf-8')).toBe('export const keep = 1')
+  })
+
+  it('refuses to apply a rename when a file appeared at its target', () => {
+    const tools = createToolKit(testDir)
+    const staged = stageChanges([
+      { path: 'src/new.ts', operation: 'rename', from: 'src/old.ts', content: '' },
+    ], tools)
+
+    writeFileSync(join(testDir, 'src', 'new.ts'), 'created by hand')
+
+    const result = applyChanges(staged, tools)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.conflicts).toEqual(['src/new.ts'])
+    }
+    expect(readFileSync(join(testDir, 'src', 'new.ts'), 'utf-8')).toBe('created by hand')
+    expect(existsSync(join(testDir, 'src', 'old.ts'))).toBe(true)
+  })
+
+  it('restores every touched file when a later write fails', () => {
+    writeFileSync(join(testDir, '.env'), 'SECRET=1')
+    const tools = createToolKit(testDir)
+    const staged = stageChanges([
+      { path: 'src/keep.ts', content: 'export const keep = 2' },
+      { path: 'src/created.ts', content: 'created' },
+      { path: '.env', content: 'SECRET=2' },
+    ], tools)
+
+    const result = applyChanges(staged, tools)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.type).toBe('write_failed')
+      expect(result.error.message).toContain('All files were restored')
+    }
+    expect(readFileSync(join(testDir, 'src', 'keep.ts'), 'utf-8')).toBe('export const keep = 1')
+    expect(existsSync(join(testDir, 'src', 'created.ts'))).toBe(false)
+  })
+
+  describe('applyEditBlocks', () => {
+    const original = 'function a() {\n  return 1\n}\n\nfunction b() {\n  return 1\n}\n'
+
+    it('applies blocks in order against the evolving content', () => {
+      const result = applyEditBlocks('src/f.ts', original, [
+        { search: 'function a() {\n  return 1', replace: 'function a() {\n  return 2' },
+        { search: 'function a() {\n  return 2\n}\n', replace: '' },
+      ])
+
+      expect(result).toEqual({ ok: true, value: '\nfunction b() {\n  return 1\n}\n' })
+    })
+
+    it('matches lines that differ only in trailing whitespace', () => {
+      const result = applyEditBlocks('src/f.ts', 'const x = 1   \r\nconst y = 2\r\n', [
+        { search: 'const x = 1\nconst y = 2', replace: 'const x = 3\nconst y = 4' },
+      ])
+
+      expect(result).toEqual({ ok: true, value: 'const x = 3\nconst y = 4\r\n' })
+    })
+
+    it('reports ambiguous anchors with their line numbers', () => {
+      const result = applyEditBlocks('src/f.ts', original, [{ search: '  return 1', replace: '  return 2' }])
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error).toMatchObject({ path: 'src/f.ts', block: 1, reason: 'ambiguous' })
+        expect(result.error.message).toContain('lines 2, 6')
+      }
+    })
+
+    it('reports where a partially matching anchor diverges', () => {
+      const result = applyEditBlocks('src/f.ts', original, [
+        { search: 'function b() {\n  return 42', replace: '' },
+      ])
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error.reason).toBe('not_found')
+        expect(result.error.message).toContain('first search line matches line 5')
+      }
+    })
+  })
+
+  it('resolves edit blocks into full contents against the project files', () => {
+    const tools = createToolKit(testDir)
+
+    const result = resolveEditBlocks([
+      { path: 'src/old.ts', content: '', edits: [{ search: 'old = 1', replace: 'old = 2' }] },
+      { path: 'src/missing.ts', content: '', edits: [{ search: 'x', replace: 'y' }] },
+    ], tools)
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toEqual([
+        expect.objectContaining({ path: 'src/missing.ts', reason: 'missing_file' }),
+      ])
+    }
+
+    const resolved = resolveEditBlocks(
+      [{ path: 'src/old.ts', content: '', edits: [{ search: 'old = 1', replace: 'old = 2' }] }],
+      tools
+    )
+    expect(resolved).toEqual({ ok: true, value: [{ path: 'src/old.ts', content: 'export const old = 2' }] })
+  })
+
+  it('applies only the selected hunks and reports the rest as feedback', () => {
+    const tools = createToolKit(testDir)
+    const original = Array.from({ length: 12 }, (_, i) => `const v${i} = ${i}`).join('\n') + '\n'
+    writeFileSync(join(testDir, 'src', 'values.ts'), original)
+    const updated = original.replace('v1 = 1', 'v1 = 100').replace('v10 = 10', 'v10 = 1000')
+
+    const [staged] = stageChanges([{ path: 'src/values.ts', content: updated }], tools)
+    const [first, second] = getHunks(staged!, 1)
+
+    const selected = selectHunks(staged!, [first!])
+    expect(selected?.content).toBe(original.replace('v1 = 1', 'v1 = 100'))
+    expect(selectHunks(staged!, [])).toBeNull()
+
+    const applied = applyChanges([selected!], tools)
+    expect(applied.ok).toBe(true)
+
+    const feedback = formatRejectedChanges([
+      { change: staged!, hunks: [second!] },
+      { change: { path: 'src/keep.ts', content: '', isNew: false, operation: 'delete' }, hunks: [] },
+    ])
+    expect(feedback).toBe([
+      'src/values.ts:',
+      '@@ -10,3 +10,3 @@',
+      ' const v9 = 9',
+      '-const v10 = 10',
+      '+const v10 = 1000',
+      ' const v11 = 11',
+      '',
+      'src/keep.ts: deleting this file was rejected, keep it',
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import { buildTaskGraph, executeTaskGraph, formatExecutionOrder, type TaskOutcome } from '../../src/orchestrator/taskGraph.js'
+import type { Task } from '../../src/schemas/planner.js'
+
+function task(id: string, dependsOn: string[] = []): Task {
+  return { id, title: `Title ${id}`, description: `Desc ${id}`, dependsOn, estimatedFiles: [] }
+}
+
+describe('buildTaskGraph', () => {
+  it('groups tasks into dependency levels', () => {
+    const result = buildTaskGraph([
+      task('a'),
+      task('b', ['a']),
+      task('c'),
+      task('d', ['b', 'c']),
+    ])
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.levels).toEqual([['a', 'c'], ['b'], ['d']])
+      expect(result.value.order).toEqual(['a', 'c', 'b', 'd'])
+    }
+  })
+
+  it('orders tasks even when dependencies appear later in the plan', () => {
+    const result = buildTaskGraph([task('b', ['a']), task('a')])
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.order).toEqual(['a', 'b'])
+    }
+  })
+
+  it('drops and reports unknown dependencies', () => {
+    const result = buildTaskGraph([task('a', ['missing'])])
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.value.dependencies.get('a')).toEqual([])
+      expect(result.value.unknownDependencies).toEqual([{ taskId: 'a', dependsOn: 'missing' }])
+    }
+  })
+
+  it('rejects cycles', () => {
+    const result = buildTaskGraph([task('a', ['b']), task('b', ['a']), task('c')])
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.type).toBe('cycle')
+      expect(result.error.taskIds).toEqual(['a', 'b'])
+    }
+  })
+
+  it('rejects duplicate task ids', () => {
+    const result = buildTaskGraph([task('a'), task('a')])
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.type).toBe('duplicate_id')
+    }
+  })
+
+  it('formats execution levels', () => {
+    const result = buildTaskGraph([task('a'), task('b', ['a'])])
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      const output = formatExecutionOrder(result.value)
+      expect(output).toContain('Level 1: a (Title a)')
+      expect(output).toContain('Level 2: b (Title b)')
+    }
+  })
+})
+
+describe('executeTaskGraph', () => {
+  function graphOf(tasks: Task[]) {
+    const result = buildTaskGraph(tasks)
+    if (!result.ok) throw new Error(result.error.message)
+    return result.value
+  }
+
+  it('runs dependents only after their prerequisites', async () => {
+    const started: string[] = []
+    const graph = graphOf([task('a'), task('b', ['a']), task('c', ['b'])])
+
+    await executeTaskGraph(graph, {
+      concurrency: 4,
+      run: async (t) => {
+        started.push(t.id)
+        return 'succeeded'
+      },
+      skip: () => {},
+    })
+
+    expect(started).toEqual(['a', 'b', 'c'])
+  })
+
+  it('runs independent tasks concurrently up to the limit', async () => {
+    let active = 0
+    let maxActive = 0
+    const graph = graphOf([task('a'), task('b'), task('c'), task('d')])
+
+    await executeTaskGraph(graph, {
+      concurrency: 2,
+      run: async () => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        active--
+        return 'succeeded'
+      },
+      skip: () => {},
+    })
+
+    expect(maxActive).toBe(2)
+  })
+
+  it('never runs tasks with overlapping estimated files at the same time', async () => {
+    const running = new Set<string>()
+    const overlaps: string[][] = []
+    const graph = graphOf([
+      { ...task('a'), estimatedFiles: ['src/shared.ts', 'src/a.ts'] },
+      { ...task('b'), estimatedFiles: ['./src/shared.ts'] },
+      { ...task('c'), estimatedFiles: ['src/c.ts'] },
+    ])
+
+    await executeTaskGraph(graph, {
+      concurrency: 3,
+      run: async (t) => {
+        running.add(t.id)
+        overlaps.push([...running].sort())
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        running.delete(t.id)
+        return 'succeeded'
+      },
+      skip: () => {},
+    })
+
+    expect(overlaps.some((ids) => ids.includes('a') && ids.includes('b'))).toBe(false)
+    expect(overlaps.some((ids) => ids.includes('a') && ids.includes('c'))).toBe(true)
+  })
+
+  it('skips dependents of failed and skipped tasks transitively', async () => {
+    const skipped: Array<{ id: string; reason: string }> = []
+    const graph = graphOf([task('a'), task('b', ['a']), task('c', ['b']), task('d')])
+
+    const outcomes = await executeTaskGraph(graph, {
+      concurrency: 1,
+      run: async (t): Promise<TaskOutcome> => (t.id === 'a' ? 'failed' : 'succeeded'),
+      skip: (t, reason) => skipped.push({ id: t.id, reason }),
+    })
+
+    expect(skipped).toEqual([
+      { id: 'b', reason: 'Prerequisite task a failed' },
+      { id: 'c', reason: 'Prerequisite task b was skipped' },
+    ])
+    expect(outcomes.get('d')).toBe('succeeded')
+  })
+
+  it('treats a rejected run as a failure', async () => {
+    const skipped: string[] = []
+    const graph = graphOf([task('a'), task('b', ['a'])])
+
+    const outcomes = await executeTaskGraph(graph, {
+      concurrency: 1,
+      run: async (t) => {
+        if (t.id === 'a') throw new Error('boom')
+        return 'succeeded'
+      },
+      skip: (t) => skipped.push(t.id),
+    })
+
+    expect(outcomes.get('a')).toBe('failed')
+    expect(skipped).toEqual(['b'])
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createPromptBudget, estimateTokens } from '../../src/prompts/budget.js'
+import { buildCoderPrompt } from '../../src/prompts/coder.js'
+import type { ScopedLogger } from '../../src/utils/logger.js'
+
+function createMockLogger(): ScopedLogger {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+}
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ')
+
+describe('estimateTokens', () => {
+  it('counts words by length and symbols one each', () => {
+    expect(estimateTokens('')).toBe(0)
+    expect(estimateTokens('hello world')).toBe(4)
+    expect(estimateTokens('a.b(c);')).toBe(7)
+  })
+})
+
+describe('createPromptBudget', () => {
+  it('leaves prompts that fit untouched', () => {
+    const logger = createMockLogger()
+    const budget = createPromptBudget({ contextWindow: 1000, maxTokens: 200 }, logger)
+    const sections = [{ name: 'a', content: words(100), priority: 1 }]
+
+    expect(budget.promptTokens).toBe(800)
+    expect(budget.fit(sections)).toBe(sections)
+    expect(logger.warn).not.toHaveBeenCalled()
+  })
+
+  it('trims the lowest priority first, later sections before earlier ones, and logs it', () => {
+    const logger = createMockLogger()
+    const budget = createPromptBudget({ contextWindow: 1000, maxTokens: 200 }, logger)
+
+    const fitted = budget.fit([
+      { name: 'system', content: words(300) },
+      { name: 'context', content: words(300), priority: 1 },
+      { name: 'first file', content: words(300), priority: 3 },
+      { name: 'second file', content: words(300), priority: 3 },
+      { name: 'feedback', content: words(50), priority: 4 },
+    ])
+
+    expect(fitted.map((s) => estimateTokens(s.content))).toEqual([300, 0, 300, expect.any(Number), 50])
+    expect(fitted[3]?.content).toMatch(/\.\.\.\[truncated\]\n$/)
+    expect(fitted.reduce((sum, s) => sum + estimateTokens(s.content), 0)).toBeLessThanOrEqual(800)
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        trimmed: [
+          { name: 'context', tokens: 300, keptTokens: 0 },
+          { name: 'second file', tokens: 300, keptTokens: expect.any(Number) },
+        ],
+      }),
+      'Prompt trimmed to fit the context window'
+    )
+  })
+
+  it('never trims sections without a priority', () => {
+    const logger = createMockLogger()
+    const budget = createPromptBudget({ contextWindow: 300, maxTokens: 100 }, logger)
+
+    const fitted = budget.fit([{ name: 'system', content: words(500) }])
+
+    expect(fitted[0]?.content).toBe(words(500))
+    expect(logger.warn).toHaveBeenCalledWith(expect.anything(), expect.stringContaining('even after trimming'))
+  })
+})
+
+describe('buildCoderPrompt budgeting', () => {
+  it('trims file contents before review feedback', () => {
+    const budget = createPromptBudget({ contextWindow: 2000, maxTokens: 200 })
+
+    const [system, user] = buildCoderPrompt({
+      taskTitle: 'Fix bug',
+      taskDescription: 'Fix it',
+      plan: { files: [{ path: 'src/a.ts', operation: 'modify', description: 'Fix' }], reasoning: 'Bug' },
+      relevantFiles: [{ path: 'src/a.ts', content: words(2000) }],
+      reviewFeedback: { issues: [], summary: 'Still broken' },
+    }, budget)
+
+    expect(user?.content).toContain('Summary: Still broken')
+    expect(user?.content).toContain('...[truncated]')
+    expect(estimateTokens(system?.content ?? '') + estimateTokens(user?.content ?? '')).toBeLessThanOrEqual(1800)
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { CoderOutputSchema } from '../../src/schemas/coder.js'
+
+describe('CoderOutputSchema', () => {
+  it('accepts writes with content or edits, deletes and renames without content', () => {
+    const result = CoderOutputSchema.safeParse({
+      changes: [
+        { path: 'src/a.ts', content: 'export const a = 1' },
+        { path: 'src/b.ts', edits: [{ search: 'old', replace: 'new' }] },
+        { path: 'src/c.ts', operation: 'delete' },
+        { path: 'src/e.ts', operation: 'rename', from: 'src/d.ts' },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects a write with neither content nor edits', () => {
+    const result = CoderOutputSchema.safeParse({ changes: [{ path: 'src/app.ts' }] })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0]).toMatchObject({
+      path: ['changes', 0, 'content'],
+      message: 'Write to src/app.ts needs the full file content or at least one edit',
+    })
+  })
+
+  it('rejects a write with an empty edit list', () => {
+    const result = CoderOutputSchema.safeParse({ changes: [{ path: 'src/app.ts', operation: 'write', edits: [] }] })
+    expect(result.success).toBe(false)
+  })
+})
@@ -14,7 +14,7 @@ function createMockToolKit(packageJsonContent?: string): ToolKit {
     writeFile: vi.fn().mockReturnValue(ok(undefined)),
     listDirectory: vi.fn().mockReturnValue(ok([])),
     fileExists: vi.fn().mockReturnValue(false),
-    runCommand: vi.fn().mockReturnValue(ok({ stdout: '', stderr: '', exitCode: 0 })),
+    runCommand: vi.fn().mockResolvedValue(ok({ stdout: '', stderr: '', exitCode: 0 })),
     getProjectRoot: vi.fn().mockReturnValue('/project'),
   }
 }
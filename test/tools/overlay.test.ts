@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createOverlayToolKit } from '../../src/tools/overlay.js'
+import { ok, err } from '../../src/utils/result.js'
+import { findMatches, type ToolKit } from '../../src/tools/toolkit.js'
+
+function createBaseToolKit(files: Record<string, string>): ToolKit {
+  return {
+    readFile: vi.fn((path: string) =>
+      files[path] !== undefined
+        ? ok(files[path])
+        : err({ type: 'not_found' as const, message: `File not found: ${path}`, path })
+    ),
+    writeFile: vi.fn().mockReturnValue(ok(undefined)),
+    listDirectory: vi.fn((path: string) =>
+      path === '.' ? ok(['src/', 'package.json']) : path === 'src' ? ok(['index.ts']) : err({ type: 'not_found' as const, message: 'nope', path })
+    ),
+    fileExists: vi.fn((path: string) => files[path] !== undefined),
+    searchText: vi.fn((query: string) =>
+      ok(Object.entries(files).flatMap(([path, content]) => findMatches(path, content, query)))
+    ),
+    runCommand: vi.fn().mockResolvedValue(ok({ stdout: '', stderr: '', exitCode: 0 })),
+    getProjectRoot: vi.fn().mockReturnValue('/project'),
+  }
+}
+
+describe('createOverlayToolKit', () => {
+  it('reads through to the base toolkit when nothing is layered', () => {
+    const overlay = createOverlayToolKit(createBaseToolKit({ 'src/index.ts': 'original' }))
+
+    const result = overlay.readFile('src/index.ts')
+    expect(result.ok && result.value).toBe('original')
+  })
+
+  it('serves layered content in place of disk content', () => {
+    const overlay = createOverlayToolKit(createBaseToolKit({ 'src/index.ts': 'original' }))
+
+    overlay.applyLayer([{ path: 'src/index.ts', content: 'updated' }], 'task-1')
+
+    const result = overlay.readFile('./src/index.ts')
+    expect(result.ok && result.value).toBe('updated')
+    expect(overlay.isOverlaid('src/index.ts')).toBe(true)
+  })
+
+  it('exposes new files through fileExists and listDirectory', () => {
+    const overlay = createOverlayToolKit(createBaseToolKit({}))
+
+    overlay.applyLayer([{ path: 'src/models/user.ts', content: 'export {}' }], 'task-1')
+
+    expect(overlay.fileExists('src/models/user.ts')).toBe(true)
+    expect(overlay.fileExists('src/models')).toBe(true)
+
+    const srcListing = overlay.listDirectory('src')
+    expect(srcListing.ok && srcListing.value).toEqual(['index.ts', 'models/'])
+
+    const modelsListing = overlay.listDirectory('src/models')
+    expect(modelsListing.ok && modelsListing.value).toEqual(['user.ts'])
+  })
+
+  it('merges successive layers into one change per path', () => {
+    const overlay = createOverlayToolKit(createBaseToolKit({}))
+
+    overlay.applyLayer([{ path: 'src/a.ts', content: 'v1' }, { path: 'src/b.ts', content: 'b' }], 'task-1')
+    overlay.applyLayer([{ path: '/project/src/a.ts', content: 'v2' }], 'task-2')
+
+    expect(overlay.getMergedChanges()).toEqual([
+      { path: 'src/a.ts', content: 'v2', taskIds: ['task-1', 'task-2'] },
+      { path: 'src/b.ts', content: 'b', taskIds: ['task-1'] },
+    ])
+  })
+
+  it('refuses a layer that would replace a file another task changed since it started', () => {
+    const overlay = createOverlayToolKit(createBaseToolKit({ 'src/a.ts': 'base' }))
+    const firstStarted = overlay.getRevision()
+    const secondStarted = overlay.getRevision()
+
+    expect(overlay.applyLayer([{ path: 'src/a.ts', content: 'first' }], 'task-1', firstStarted)).toEqual([])
+    expect(overlay.applyLayer([{ path: './src/a.ts', content: 'second' }], 'task-2', secondStarted)).toEqual(['src/a.ts'])
+    expect(overlay.readFile('src/a.ts')).toEqual({ ok: true, value: 'first' })
+
+    // A task that started after the first one finished builds on its edits
+    expect(overlay.applyLayer([{ path: 'src/a.ts', content: 'third' }], 'task-3', overlay.getRevision())).toEqual([])
+    expect(overlay.readFile('src/a.ts')).toEqual({ ok: true, value: 'third' })
+  })
+
+  it('hides deleted files from reads, listings and existence checks', () => {
+    const overlay = createOverlayToolKit(createBaseToolKit({ 'src/index.ts': 'original' }))
+
+    overlay.applyLayer([{ path: 'src/index.ts', operation: 'delete', content: '' }], 'task-1')
+
+    expect(overlay.readFile('src/index.ts').ok).toBe(false)
+    expect(overlay.fileExists('src/index.ts')).toBe(false)
+    const listing = overlay.listDirectory('src')
+    expect(listing.ok && listing.value).toEqual([])
+    expect(overlay.getMergedChanges()).toEqual([
+      { path: 'src/index.ts', operation: 'delete', content: '', taskIds: ['task-1'] },
+    ])
+  })
+
+  it('merges a rename into one change that carries the source content', () => {
+    const overlay = createOverlayToolKit(createBaseToolKit({ 'src/old.ts': 'original' }))
+
+    overlay.applyLayer([{ path: 'src/new.ts', operation: 'rename', from: 'src/old.ts', content: '' }], 'task-1')
+    overlay.applyLayer([{ path: 'src/new.ts', content: 'edited' }], 'task-2')
+
+    expect(overlay.fileExists('src/old.ts')).toBe(false)
+    expect(overlay.readFile('src/new.ts')).toEqual(ok('edited'))
+    expect(overlay.getMergedChanges()).toEqual([
+      { path: 'src/new.ts', operation: 'rename', from: 'src/old.ts', content: 'edited', taskIds: ['task-1', 'task-2'] },
+    ])
+  })
+
+  it('keeps writes in the overlay instead of touching disk', () => {
+    const base = createBaseToolKit({})
+    const overlay = createOverlayToolKit(base)
+
+    const result = overlay.writeFile('src/new.ts', 'content')
+
+    expect(result.ok).toBe(true)
+    expect(base.writeFile).not.toHaveBeenCalled()
+    expect(overlay.readFile('src/new.ts')).toEqual(ok('content'))
+  })
+
+  it('searches layered content instead of the files on disk', () => {
+    const overlay = createOverlayToolKit(createBaseToolKit({
+      'src/index.ts': 'const token = 1',
+      'src/old.ts': 'token here',
+      'src/other.ts': 'export const Token = 2',
+    }))
+
+    overlay.applyLayer([
+      { path: 'src/index.ts', content: 'const renamed = 1' },
+      { path: 'src/old.ts', operation: 'delete', content: '' },
+      { path: 'src/new.ts', content: 'first\nnew token' },
+    ], 'task-1')
+
+    const result = overlay.searchText('token')
+    expect(result.ok && result.value).toEqual([
+      { path: 'src/other.ts', line: 1, text: 'export const Token = 2' },
+      { path: 'src/new.ts', line: 2, text: 'new token' },
+    ])
+  })
+})
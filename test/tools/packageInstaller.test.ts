@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { buildInstallArgs, installPackages } from '../../src/tools/packageInstaller.js'
+import { buildInstallArgs, buildUninstallArgs, installPackages } from '../../src/tools/packageInstaller.js'
 
 describe('buildInstallArgs', () => {
   it('builds npm install args with --save', () => {
@@ -58,6 +58,17 @@ describe('buildInstallArgs', () => {
   })
 })
 
+describe('buildUninstallArgs', () => {
+  it('builds npm uninstall args', () => {
+    expect(buildUninstallArgs('npm', ['zod', 'axios'])).toEqual(['uninstall', 'zod', 'axios'])
+  })
+
+  it('builds pnpm and yarn remove args', () => {
+    expect(buildUninstallArgs('pnpm', ['zod'])).toEqual(['remove', 'zod'])
+    expect(buildUninstallArgs('yarn', ['zod'])).toEqual(['remove', 'zod'])
+  })
+})
+
 describe('installPackages', () => {
   it('rejects package names with shell metacharacters', async () => {
     const result = await installPackages({
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { createRepositoryTools } from '../../src/tools/repositoryTools.js'
+import { createToolKit } from '../../src/tools/toolkit.js'
+
+const createLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() })
+
+describe('createRepositoryTools', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `repo-tools-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(join(testDir, 'src', 'utils'), { recursive: true })
+    mkdirSync(join(testDir, 'node_modules', 'dep'), { recursive: true })
+    writeFileSync(join(testDir, 'src', 'index.ts'), "import { parseDate } from './utils/date.js'\n")
+    writeFileSync(join(testDir, 'src', 'utils', 'date.ts'), 'export function parseDate(s: string) {}\n')
+    writeFileSync(join(testDir, 'node_modules', 'dep', 'index.js'), 'parseDate()\n')
+    writeFileSync(join(testDir, '.env'), 'SECRET=parseDate\n')
+    writeFileSync(join(testDir, '.agent-helper.json'), '{ "llm": { "apiKey": "secret-key" } }\n')
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  it('exposes read, list, exists and search over the toolkit', async () => {
+    const tools = createRepositoryTools(createToolKit(testDir), { maxCalls: 10, logger: createLogger() })
+
+    expect(await tools['readFile']!.execute({ path: 'src/utils/date.ts' })).toContain('export function parseDate')
+    expect(await tools['readFile']!.execute({ path: 'src/missing.ts' })).toBe('Error: File not found: src/missing.ts')
+    expect(await tools['listDirectory']!.execute({ path: 'src' })).toBe('index.ts\nutils/')
+    expect(await tools['fileExists']!.execute({ path: 'src/index.ts' })).toBe('true')
+
+    // Dependencies and secrets are never searched
+    expect(await tools['searchText']!.execute({ query: 'PARSEDATE' })).toBe([
+      "src/index.ts:1: import { parseDate } from './utils/date.js'",
+      'src/utils/date.ts:1: export function parseDate(s: string) {}',
+    ].join('\n'))
+    expect(await tools['searchText']!.execute({ query: 'parseDate', path: 'src/utils' }))
+      .toBe('src/utils/date.ts:1: export function parseDate(s: string) {}')
+  })
+
+  it('refuses to read or list secrets and run state', async () => {
+    const toolkit = createToolKit(testDir)
+    const tools = createRepositoryTools(toolkit, { maxCalls: 10, logger: createLogger() })
+
+    expect(toolkit.readFile('.env')).toMatchObject({ ok: false, error: { type: 'permission_denied' } })
+    expect(toolkit.readFile('.agent-helper.json')).toMatchObject({ ok: false, error: { type: 'permission_denied' } })
+    expect(toolkit.readFile('src/../.env')).toMatchObject({ ok: false, error: { type: 'permission_denied' } })
+    expect(toolkit.listDirectory('.agent-helper/runs')).toMatchObject({ ok: false, error: { type: 'permission_denied' } })
+    expect(toolkit.listDirectory('.')).toEqual({ ok: true, value: ['node_modules/', 'src/'] })
+
+    expect(await tools['readFile']!.execute({ path: '.env' })).toBe('Error: .env is protected and cannot be read by tools')
+    expect(await tools['readFile']!.execute({ path: '.agent-helper.json' })).toMatch(/^Error: .*protected/)
+    expect(await tools['listDirectory']!.execute({ path: '.agent-helper' })).toMatch(/^Error: .*protected/)
+  })
+
+  it('logs each call and stops serving results once the budget is spent', async () => {
+    const logger = createLogger()
+    const tools = createRepositoryTools(createToolKit(testDir), { maxCalls: 1, logger })
+
+    await tools['fileExists']!.execute({ path: 'src' })
+    const result = await tools['readFile']!.execute({ path: 'src/index.ts' })
+
+    expect(result).toContain('budget of 1 is used up')
+    expect(logger.info).toHaveBeenCalledWith(expect.objectContaining({ tool: 'fileExists', path: 'src', call: 1 }), 'Tool call')
+    expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ tool: 'readFile' }), 'Tool call budget exhausted')
+  })
+})
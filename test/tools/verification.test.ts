@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  detectVerificationCommands,
+  createScratchWorkspace,
+  parseDiagnostics,
+  runVerificationCommands,
+  compareWithBaseline,
+  formatVerificationDiagnostics,
+} from '../../src/tools/verification.js'
+import { createToolKit } from '../../src/tools/toolkit.js'
+
+describe('verification', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `verification-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    mkdirSync(testDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true })
+    }
+  })
+
+  describe('detectVerificationCommands', () => {
+    it('runs tsc and the test script when both exist', () => {
+      writeFileSync(join(testDir, 'tsconfig.json'), '{}')
+      writeFileSync(join(testDir, 'package.json'), JSON.stringify({ scripts: { test: 'vitest run' } }))
+
+      const commands = detectVerificationCommands(createToolKit(testDir), 'pnpm')
+
+      expect(commands).toEqual([
+        { cmd: 'npx', args: ['tsc', '--noEmit'] },
+        { cmd: 'pnpm', args: ['test'] },
+      ])
+    })
+
+    it('ignores the npm placeholder test script', () => {
+      writeFileSync(
+        join(testDir, 'package.json'),
+        JSON.stringify({ scripts: { test: 'echo "Error: no test specified" && exit 1' } })
+      )
+
+      expect(detectVerificationCommands(createToolKit(testDir))).toEqual([])
+    })
+  })
+
+  describe('createScratchWorkspace', () => {
+    it('applies changes to a copy without touching the project', () => {
+      mkdirSync(join(testDir, 'src'))
+      mkdirSync(join(testDir, 'node_modules', 'dep'), { recursive: true })
+      writeFileSync(join(testDir, 'src', 'a.ts'), 'original')
+      writeFileSync(join(testDir, 'node_modules', 'dep', 'index.js'), 'dep')
+
+      const result = createScratchWorkspace(testDir, [
+        { path: 'src/a.ts', content: 'updated' },
+        { path: 'src/b.ts', content: 'new' },
+      ])
+
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        const { root, cleanup } = result.value
+        expect(readFileSync(join(root, 'src', 'a.ts'), 'utf-8')).toBe('updated')
+        expect(readFileSync(join(root, 'src', 'b.ts'), 'utf-8')).toBe('new')
+        expect(readFileSync(join(root, 'node_modules', 'dep', 'index.js'), 'utf-8')).toBe('dep')
+        expect(readFileSync(join(testDir, 'src', 'a.ts'), 'utf-8')).toBe('original')
+        expect(existsSync(join(testDir, 'src', 'b.ts'))).toBe(false)
+
+        cleanup()
+        expect(existsSync(root)).toBe(false)
+      }
+    })
+  })
+
+  describe('parseDiagnostics', () => {
+    it('parses plain and pretty tsc output', () => {
+      const output = [
+        "src/a.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "src/b.ts:10:1 - error TS2304: Cannot find name 'foo'.",
+        'Found 2 errors.',
+      ].join('\n')
+
+      expect(parseDiagnostics('npx tsc --noEmit', output)).toEqual([
+        {
+          command: 'npx tsc --noEmit',
+          file: 'src/a.ts',
+          line: 3,
+          column: 7,
+          code: 'TS2322',
+          message: "Type 'string' is not assignable to type 'number'.",
+        },
+        {
+          command: 'npx tsc --noEmit',
+          file: 'src/b.ts',
+          line: 10,
+          column: 1,
+          code: 'TS2304',
+          message: "Cannot find name 'foo'.",
+        },
+      ])
+    })
+
+    it('strips ANSI colors from pretty output', () => {
+      const output = "\u001b[96msrc/b.ts\u001b[0m:\u001b[93m10\u001b[0m:\u001b[93m1\u001b[0m - \u001b[91merror\u001b[0m TS2304: Cannot find name 'foo'."
+
+      expect(parseDiagnostics('npx tsc --noEmit', output)).toEqual([
+        { command: 'npx tsc --noEmit', file: 'src/b.ts', line: 10, column: 1, code: 'TS2304', message: "Cannot find name 'foo'." },
+      ])
+    })
+
+    it('parses failing test files once per case', () => {
+      const output = [
+        ' FAIL  test/a.test.ts > math > adds',
+        ' FAIL  test/a.test.ts > math > adds',
+        ' ✓ test/b.test.ts (3 tests)',
+      ].join('\n')
+
+      expect(parseDiagnostics('npm test', output)).toEqual([
+        { command: 'npm test', file: 'test/a.test.ts', message: 'Test failed: math > adds' },
+      ])
+    })
+  })
+
+  describe('runVerificationCommands', () => {
+    it('collects exit codes and diagnostics from each command', async () => {
+      writeFileSync(join(testDir, 'check.js'), [
+        "console.log(\"src/a.ts(1,14): error TS2322: Type 'string' is not assignable to type 'number'.\")",
+        'process.exitCode = 2',
+      ].join('\n'))
+      const tools = createToolKit(testDir)
+
+      const results = await runVerificationCommands(tools, [
+        { cmd: 'node', args: ['check.js'] },
+        { cmd: 'node', args: ['--version'] },
+      ], 10000)
+
+      expect(results.map((r) => [r.command, r.exitCode])).toEqual([['node check.js', 2], ['node --version', 0]])
+      expect(results[0]?.diagnostics).toEqual([expect.objectContaining({ file: 'src/a.ts', line: 1, code: 'TS2322' })])
+    })
+
+    it('stops a command that runs past the timeout', async () => {
+      writeFileSync(join(testDir, 'hang.js'), 'setTimeout(() => {}, 60000)')
+      const tools = createToolKit(testDir)
+
+      const [result] = await runVerificationCommands(tools, [{ cmd: 'node', args: ['hang.js'] }], 200)
+
+      expect(result).toEqual(expect.objectContaining({ exitCode: 1, output: 'Command timed out' }))
+    })
+  })
+
+  describe('compareWithBaseline', () => {
+    const tscError = {
+      command: 'npx tsc --noEmit',
+      file: 'src/old.ts',
+      code: 'TS2304',
+      message: "Cannot find name 'x'.",
+    }
+
+    it('ignores diagnostics that existed before the changes', () => {
+      const baseline = [{ command: 'npx tsc --noEmit', exitCode: 2, output: '', diagnostics: [tscError] }]
+      const current = [{ command: 'npx tsc --noEmit', exitCode: 2, output: '', diagnostics: [tscError] }]
+
+      expect(compareWithBaseline(current, baseline).passed).toBe(true)
+    })
+
+    it('reports new diagnostics', () => {
+      const introduced = { ...tscError, file: 'src/new.ts' }
+      const baseline = [{ command: 'npx tsc --noEmit', exitCode: 2, output: '', diagnostics: [tscError] }]
+      const current = [{ command: 'npx tsc --noEmit', exitCode: 2, output: '', diagnostics: [tscError, introduced] }]
+
+      const result = compareWithBaseline(current, baseline)
+
+      expect(result.passed).toBe(false)
+      expect(result.diagnostics).toEqual([introduced])
+    })
+
+    it('reports raw output when a passing command starts failing without parseable errors', () => {
+      const baseline = [{ command: 'npm test', exitCode: 0, output: '', diagnostics: [] }]
+      const current = [{ command: 'npm test', exitCode: 1, output: 'Segmentation fault', diagnostics: [] }]
+
+      const result = compareWithBaseline(current, baseline)
+
+      expect(result.passed).toBe(false)
+      expect(result.diagnostics[0]?.message).toContain('Segmentation fault')
+    })
+  })
+
+  it('formats diagnostics grouped by file', () => {
+    const text = formatVerificationDiagnostics([
+      { command: 'npx tsc --noEmit', file: 'src/a.ts', line: 1, column: 2, code: 'TS1', message: 'One' },
+      { command: 'npx tsc --noEmit', file: 'src/a.ts', line: 5, code: 'TS2', message: 'Two' },
+      { command: 'npm test', message: 'Exited with code 1' },
+    ])
+
+    expect(text).toBe([
+      'src/a.ts:',
+      '  - line 1:2 TS1 One [npx tsc --noEmit]',
+      '  - line 5 TS2 Two [npx tsc --noEmit]',
+      '(general):',
+      '  - Exited with code 1 [npm test]',
+    ].join('\n'))
+  })
+})